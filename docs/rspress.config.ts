@@ -33,6 +33,7 @@ export default defineConfig({
           { text: 'Quick Start', link: '/guide/quick-start' },
           { text: 'React Hooks', link: '/guide/react-hooks' },
           { text: 'Web Support', link: '/guide/web-support' },
+          { text: 'Testing', link: '/guide/testing' },
           { text: 'MCP Integration', link: '/guide/mcp-integration' },
         ],
       },
@@ -44,6 +45,7 @@ export default defineConfig({
           { text: 'Device Integrity (local)', link: '/api/device-integrity' },
           { text: 'Device Attestation', link: '/api/device-attestation' },
           { text: 'React Hooks', link: '/api/hooks' },
+          { text: 'Device Snapshot', link: '/api/snapshot' },
           { text: 'Type Definitions', link: '/api/types' },
           { text: 'Migration Guide', link: '/api/migration' },
         ],
@@ -77,6 +79,7 @@ export default defineConfig({
             { text: 'Quick Start', link: '/guide/quick-start' },
             { text: 'React Hooks', link: '/guide/react-hooks' },
             { text: 'Web Support', link: '/guide/web-support' },
+            { text: 'Testing', link: '/guide/testing' },
             { text: 'MCP Integration', link: '/guide/mcp-integration' },
           ],
         },
@@ -91,6 +94,7 @@ export default defineConfig({
             { text: 'Device Integrity (local)', link: '/api/device-integrity' },
             { text: 'Device Attestation', link: '/api/device-attestation' },
             { text: 'React Hooks', link: '/api/hooks' },
+            { text: 'Device Snapshot', link: '/api/snapshot' },
             { text: 'Type Definitions', link: '/api/types' },
             { text: 'Migration Guide', link: '/api/migration' },
           ],
@@ -8,9 +8,10 @@ module.exports = {
   // Only workspaces with runnable (non-device) jest suites are listed. Excluded:
   //   - example/showcase, example/integrity-demo: react-native-harness preset,
   //     *.harness.* suites need a connected device/runner — not runnable here.
-  //   - react-native-nitro-device-integrity, example/benchmark: no jest suites.
+  //   - example/benchmark: no jest suites.
   projects: [
     '<rootDir>/packages/react-native-nitro-device-info',
+    '<rootDir>/packages/react-native-nitro-device-integrity',
     '<rootDir>/packages/mcp-server',
   ],
 };
@@ -11,11 +11,15 @@ package com.margelo.nitro.nitrodeviceinfo
 import android.annotation.SuppressLint
 import android.app.ActivityManager
 import android.app.KeyguardManager
+import android.content.BroadcastReceiver
 import android.content.Context
+import android.content.Intent
+import android.content.IntentFilter
 import android.content.pm.PackageInfo
 import android.content.pm.PackageManager
 import android.content.res.Configuration
 import android.location.LocationManager
+import android.media.AudioDeviceCallback
 import android.media.AudioDeviceInfo
 import android.media.AudioManager
 import android.media.MediaCodecList
@@ -25,12 +29,15 @@ import android.os.Debug
 import android.os.Environment
 import android.os.Handler
 import android.os.Looper
+import android.os.PowerManager
 import android.os.StatFs
 import android.os.SystemClock
+import android.os.storage.StorageManager
 import android.provider.Settings
 import android.telephony.TelephonyManager
 import android.util.Log
 import android.webkit.WebSettings
+import androidx.core.content.ContextCompat
 import androidx.core.content.getSystemService
 import com.android.installreferrer.api.InstallReferrerClient
 import com.android.installreferrer.api.InstallReferrerStateListener
@@ -45,6 +52,7 @@ import java.net.Inet4Address
 import java.net.NetworkInterface
 import java.security.KeyStore
 import java.util.Locale
+import kotlin.concurrent.thread
 import kotlin.coroutines.resume
 
 /** Build information cache to avoid repeated Build.* lookups */
@@ -188,12 +196,22 @@ class DeviceInfo : HybridDeviceInfoSpec() {
 
     /** Cached network info with periodic refresh (5 second cache) */
     private val ipCacheDurationMs = 5000L
+
+    /** Active state change registrations keyed by listener ID; each entry undoes its registration */
+    private val eventRegistrations = mutableMapOf<Double, () -> Unit>()
+    private var nextListenerId = 0.0
     private var cachedIpAddress: String = "unknown"
     private var ipAddressCacheTime: Long = 0
     private var cachedMacAddress: String = "unknown"
     private var macAddressCacheTime: Long = 0
     private var cachedCarrier: String = "unknown"
     private var carrierCacheTime: Long = 0
+    @Volatile private var cachedUserAgent: String? = null
+
+    init {
+        // Load WebView off the JS thread so the sync `userAgent` is filled early
+        thread(name = "DeviceInfo-UserAgent", isDaemon = true) { loadUserAgent() }
+    }
 
     /** Cached device year class */
     override val deviceYearClass: Double by lazy {
@@ -380,6 +398,29 @@ class DeviceInfo : HybridDeviceInfoSpec() {
         return (stat.availableBlocksLong * stat.blockSizeLong).toDouble()
     }
 
+    /**
+     * Get free disk storage for a capacity bucket in bytes
+     *
+     * Only IMPORTANT has an Android counterpart: allocatable bytes include cached data the system
+     * can clear for this app. Other buckets, and API < 26, use the StatFs free bytes.
+     */
+    override fun getFreeDiskStorageFor(kind: DiskCapacityKind): Promise<Double> {
+        return Promise.async {
+            if (kind != DiskCapacityKind.IMPORTANT || Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+                return@async getFreeDiskStorage()
+            }
+            try {
+                val storageManager = context.getSystemService<StorageManager>()
+                    ?: return@async getFreeDiskStorage()
+                val uuid = storageManager.getUuidForPath(context.filesDir)
+                storageManager.getAllocatableBytes(uuid).toDouble()
+            } catch (e: Exception) {
+                Log.w(NAME, "Failed to get allocatable bytes", e)
+                getFreeDiskStorage()
+            }
+        }
+    }
+
     /** Get device uptime since boot in milliseconds */
     override fun getUptime(): Double {
         return SystemClock.uptimeMillis().toDouble()
@@ -537,11 +578,21 @@ class DeviceInfo : HybridDeviceInfoSpec() {
     /** Get WebView user agent string */
     override fun getUserAgent(): Promise<String> {
         return Promise.async {
-            return@async try {
-                WebSettings.getDefaultUserAgent(context)
-            } catch (e: Exception) {
-                "unknown"
-            }
+            (cachedUserAgent ?: loadUserAgent()).ifEmpty { "unknown" }
+        }
+    }
+
+    /** WebView user agent; empty until the read started at module init finishes */
+    override val userAgent: String
+        get() = cachedUserAgent ?: ""
+
+    /** Read the WebView default user agent into the cache (blocks while WebView loads) */
+    private fun loadUserAgent(): String {
+        return try {
+            WebSettings.getDefaultUserAgent(context).also { cachedUserAgent = it }
+        } catch (e: Exception) {
+            Log.w(NAME, "Failed to get user agent", e)
+            ""
         }
     }
 
@@ -1016,6 +1067,33 @@ class DeviceInfo : HybridDeviceInfoSpec() {
         }
     }
 
+    // MARK: - State Change Events
+
+    /** Register a native callback for a device state channel */
+    override fun addListener(channel: DeviceEventChannel, onChange: () -> Unit): Double {
+        val unregister =
+            when (channel) {
+                DeviceEventChannel.BATTERY -> registerBatteryReceiver(onChange)
+                DeviceEventChannel.HEADPHONES -> registerAudioDeviceCallback(onChange)
+                // Brightness is not readable on Android (always -1), so it never changes
+                DeviceEventChannel.BRIGHTNESS -> ({})
+                // Connectivity events are only delivered by the web fallback
+                DeviceEventChannel.NETWORK -> ({})
+            }
+
+        synchronized(eventRegistrations) {
+            val listenerId = nextListenerId++
+            eventRegistrations[listenerId] = unregister
+            return listenerId
+        }
+    }
+
+    /** Unregister a native callback added with addListener */
+    override fun removeListener(listenerId: Double) {
+        val unregister = synchronized(eventRegistrations) { eventRegistrations.remove(listenerId) }
+        unregister?.invoke()
+    }
+
     // MARK: - Windows Platform (Unsupported)
 
     /** Check if mouse is connected (Windows-specific) */
@@ -1036,6 +1114,51 @@ class DeviceInfo : HybridDeviceInfoSpec() {
 
     // MARK: - Helper Methods
 
+    /** Listen for battery level, charging and power saver changes */
+    private fun registerBatteryReceiver(onChange: () -> Unit): () -> Unit {
+        val receiver =
+            object : BroadcastReceiver() {
+                override fun onReceive(context: Context?, intent: Intent?) {
+                    onChange()
+                }
+            }
+        val filter =
+            IntentFilter().apply {
+                addAction(Intent.ACTION_BATTERY_CHANGED)
+                addAction(PowerManager.ACTION_POWER_SAVE_MODE_CHANGED)
+            }
+        val receiverContext = context
+        ContextCompat.registerReceiver(
+            receiverContext,
+            receiver,
+            filter,
+            ContextCompat.RECEIVER_NOT_EXPORTED,
+        )
+        return {
+            try {
+                receiverContext.unregisterReceiver(receiver)
+            } catch (e: IllegalArgumentException) {
+                // Already unregistered
+            }
+        }
+    }
+
+    /** Listen for audio output devices (wired or Bluetooth) being added or removed */
+    private fun registerAudioDeviceCallback(onChange: () -> Unit): () -> Unit {
+        val callback =
+            object : AudioDeviceCallback() {
+                override fun onAudioDevicesAdded(addedDevices: Array<out AudioDeviceInfo>?) {
+                    onChange()
+                }
+
+                override fun onAudioDevicesRemoved(removedDevices: Array<out AudioDeviceInfo>?) {
+                    onChange()
+                }
+            }
+        audioManager.registerAudioDeviceCallback(callback, Handler(Looper.getMainLooper()))
+        return { audioManager.unregisterAudioDeviceCallback(callback) }
+    }
+
     /** Query IP address from network interfaces */
     private fun queryIpAddressInternal(): String {
         return try {
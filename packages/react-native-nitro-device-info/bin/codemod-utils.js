@@ -0,0 +1,66 @@
+'use strict';
+
+/**
+ * Helpers shared by the CLI commands that analyze source without running a
+ * jscodeshift transform (`privacy-report`, `migrate --report`).
+ */
+
+const path = require('path');
+const fs = require('fs');
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'lib', 'build', 'dist']);
+
+/**
+ * Load a module from `src/codemod` through jscodeshift's own babel toolchain,
+ * so the TypeScript source (or the ESM build) runs without a separate build
+ * step. Returns `undefined` when neither is shipped.
+ */
+function loadCodemodModule(name) {
+  const candidates = [
+    path.resolve(__dirname, `../lib/module/codemod/${name}.js`),
+    path.resolve(__dirname, `../src/codemod/${name}.ts`),
+  ];
+  const modulePath = candidates.find(candidate => fs.existsSync(candidate));
+  if (!modulePath) {
+    return undefined;
+  }
+
+  const fromJscodeshift = { paths: [require.resolve('jscodeshift')] };
+  const load = id => require(require.resolve(id, fromJscodeshift));
+  load('@babel/register')({
+    babelrc: false,
+    configFile: false,
+    presets: [load('@babel/preset-typescript').default],
+    plugins: [load('@babel/plugin-transform-modules-commonjs').default],
+    extensions: ['.js', '.ts'],
+    only: [path.dirname(modulePath)],
+  });
+  return require(modulePath);
+}
+
+/** Files under `target` with one of `extensions`, skipping `IGNORED_DIRS`. */
+function collectFiles(target, extensions) {
+  const exts = new Set(extensions.map(ext => '.' + ext.replace(/^\./, '')));
+  const files = [];
+
+  const visit = entry => {
+    const stat = fs.statSync(entry);
+    if (stat.isDirectory()) {
+      if (IGNORED_DIRS.has(path.basename(entry))) {
+        return;
+      }
+      for (const child of fs.readdirSync(entry)) {
+        visit(path.join(entry, child));
+      }
+      return;
+    }
+    if (exts.has(path.extname(entry))) {
+      files.push(entry);
+    }
+  };
+
+  visit(target);
+  return files;
+}
+
+module.exports = { IGNORED_DIRS, loadCodemodModule, collectFiles };
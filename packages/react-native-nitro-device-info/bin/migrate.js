@@ -5,46 +5,74 @@
  * CLI: `npx react-native-nitro-device-info migrate [path]`
  *
  * Stage 1 migration — rewrites `react-native-device-info` import specifiers to
- * `react-native-nitro-device-info/compat` across the target path. Call sites are
- * left untouched. Wraps the jscodeshift `rewrite-imports` transform.
+ * `react-native-nitro-device-info/compat` across the target path. By default
+ * call sites are left untouched. Wraps the jscodeshift `rewrite-imports`
+ * transform.
+ *
+ * With `--hooks`, `rewrite-hooks` then moves compat hook calls to the core
+ * hooks, unwrapping RNDI's `{ loading, result }` shape. With `--call-sites`,
+ * Stage 2 (`rewrite-call-sites`) rewrites the remaining compat calls to direct
+ * `DeviceInfoModule` access.
+ *
+ * With `--report=json|markdown`, nothing is rewritten: the target is audited
+ * with `src/codemod/migration-audit` and the report is printed instead.
+ *
+ * `privacy-report` is dispatched to `./privacy-report.js`.
  */
 
 const path = require('path');
 const fs = require('fs');
 const { run: jscodeshift } = require('jscodeshift/src/Runner');
+const {
+  IGNORED_DIRS,
+  collectFiles,
+  loadCodemodModule,
+} = require('./codemod-utils');
 
 function printUsage() {
   console.log(
     [
-      'Usage: npx react-native-nitro-device-info migrate [path] [--dry] [--extensions=js,jsx,ts,tsx]',
+      'Usage: npx react-native-nitro-device-info migrate [path] [--dry] [--hooks] [--call-sites] [--report=json|markdown] [--extensions=js,jsx,ts,tsx]',
       '',
       'Rewrites `react-native-device-info` imports to',
-      '`react-native-nitro-device-info/compat`. Call sites are not modified.',
+      '`react-native-nitro-device-info/compat`. By default only imports change;',
+      '`--hooks` also rewrites hook calls and `--call-sites` the remaining',
+      'compat calls.',
       '',
       'Arguments:',
       '  path                 File or directory to migrate (default: current directory).',
       '',
       'Options:',
       '  --dry                Preview changes without writing files.',
+      '  --hooks              Also rewrite compat hooks to the core hooks, unwrapping',
+      '                       `{ loading, result }` where it is safe.',
+      '  --call-sites         Also rewrite compat calls to `DeviceInfoModule` access.',
+      '                       Calls without a native equivalent get a',
+      '                       `// TODO(nitro-migrate)` comment.',
+      '  --report=FORMAT      Do not rewrite; list every react-native-device-info API',
+      '                       used, classified against the compat layer, as `json`',
+      '                       or `markdown`.',
       '  --extensions=LIST    Comma-separated file extensions (default: js,jsx,ts,tsx).',
       '  -h, --help           Show this help.',
+      '',
+      'Other commands:',
+      '  privacy-report       Draft store privacy declarations (see privacy-report --help).',
     ].join('\n')
   );
 }
 
-function resolveTransformPath() {
+function resolveTransformPath(name) {
   // Prefer the built JS output; fall back to the TS source (jscodeshift can
   // transpile TS transforms via its babel setup).
   const candidates = [
-    path.resolve(__dirname, '../lib/module/codemod/rewrite-imports.js'),
-    path.resolve(__dirname, '../lib/commonjs/codemod/rewrite-imports.js'),
-    path.resolve(__dirname, '../src/codemod/rewrite-imports.ts'),
+    path.resolve(__dirname, `../lib/module/codemod/${name}.js`),
+    path.resolve(__dirname, `../lib/commonjs/codemod/${name}.js`),
+    path.resolve(__dirname, `../src/codemod/${name}.ts`),
   ];
   return candidates.find(candidate => fs.existsSync(candidate));
 }
 
 const SOURCE_MODULE = 'react-native-device-info';
-const IGNORED_DIRS = new Set(['node_modules', '.git', 'lib', 'build', 'dist']);
 // jscodeshift ignore globs derived from IGNORED_DIRS so the pre-count and the
 // actual rewrite skip exactly the same directories.
 const IGNORE_PATTERNS = [...IGNORED_DIRS].map(dir => `**/${dir}/**`);
@@ -83,9 +111,52 @@ function countSpecifiers(target, extensions) {
   return total;
 }
 
+/** Audit `target` without rewriting it and print the report to stdout. */
+function printReport(target, extensions, format) {
+  const audit = loadCodemodModule('migration-audit');
+  if (!audit) {
+    console.error(
+      'Error: could not locate the migration-audit module. Reinstall react-native-nitro-device-info.'
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const j = require('jscodeshift').withParser('tsx');
+  const entries = [];
+  let failed = 0;
+
+  for (const file of collectFiles(target, extensions)) {
+    try {
+      const source = fs.readFileSync(file, 'utf8');
+      const relative = path.relative(process.cwd(), file) || file;
+      entries.push(...audit.auditSource(j, source, relative));
+    } catch (err) {
+      failed += 1;
+      console.error(`Skipped ${file}: ${err.message}`);
+    }
+  }
+
+  const report = audit.buildAuditReport(entries);
+  console.log(
+    format === 'json'
+      ? JSON.stringify(report, null, 2)
+      : audit.formatAuditMarkdown(report)
+  );
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
 async function main() {
   const argv = process.argv.slice(2);
 
+  if (argv[0] === 'privacy-report') {
+    await require('./privacy-report').main(argv.slice(1));
+    return;
+  }
+
   // Drop the leading `migrate` subcommand if present.
   const args = argv[0] === 'migrate' ? argv.slice(1) : argv;
 
@@ -95,11 +166,16 @@ async function main() {
   }
 
   const dry = args.includes('--dry');
+  const hooks = args.includes('--hooks');
+  const callSites = args.includes('--call-sites');
   const extensionsArg = args.find(arg => arg.startsWith('--extensions='));
   const extensions = extensionsArg
     ? extensionsArg.split('=')[1]
     : 'js,jsx,ts,tsx';
 
+  const reportArg = args.find(arg => arg.startsWith('--report'));
+  const reportFormat = reportArg ? reportArg.split('=')[1] : undefined;
+
   const positional = args.filter(arg => !arg.startsWith('-'));
   const target = path.resolve(positional[0] || process.cwd());
 
@@ -109,10 +185,26 @@ async function main() {
     return;
   }
 
-  const transformPath = resolveTransformPath();
-  if (!transformPath) {
+  if (reportArg) {
+    if (reportFormat !== 'json' && reportFormat !== 'markdown') {
+      console.error('Error: --report must be `json` or `markdown`.');
+      process.exitCode = 1;
+      return;
+    }
+    printReport(target, extensions.split(','), reportFormat);
+    return;
+  }
+
+  const transformPath = resolveTransformPath('rewrite-imports');
+  const hooksPath = resolveTransformPath('rewrite-hooks');
+  const callSitesPath = resolveTransformPath('rewrite-call-sites');
+  if (
+    !transformPath ||
+    (hooks && !hooksPath) ||
+    (callSites && !callSitesPath)
+  ) {
     console.error(
-      'Error: could not locate the rewrite-imports transform. Reinstall react-native-nitro-device-info.'
+      'Error: could not locate the codemod transforms. Reinstall react-native-nitro-device-info.'
     );
     process.exitCode = 1;
     return;
@@ -127,7 +219,7 @@ async function main() {
   // jscodeshift aggregates its own worker stats.
   const specifiers = countSpecifiers(target, extensions.split(','));
 
-  const result = await jscodeshift(transformPath, [target], {
+  const runnerOptions = {
     dry,
     silent: true,
     extensions,
@@ -135,7 +227,18 @@ async function main() {
     babel: true,
     verbose: 0,
     ignorePattern: IGNORE_PATTERNS,
-  });
+  };
+  const result = await jscodeshift(transformPath, [target], runnerOptions);
+
+  // Later passes read the compat imports Stage 1 just wrote, so in a dry run
+  // they only see files that were already migrated. Hooks go first: Stage 2
+  // would otherwise mark the `{ loading, result }` hooks as unconvertible.
+  const hooksResult = hooks
+    ? await jscodeshift(hooksPath, [target], runnerOptions)
+    : undefined;
+  const callSitesResult = callSites
+    ? await jscodeshift(callSitesPath, [target], runnerOptions)
+    : undefined;
 
   console.log('');
   console.log('Migration summary');
@@ -146,6 +249,19 @@ async function main() {
   if (result.error) {
     console.log(`  Files with errors:    ${result.error}`);
   }
+  // jscodeshift only reports transform stats in dry runs, so count files
+  if (hooksResult) {
+    console.log(`  Hook files:           ${hooksResult.ok}`);
+    if (hooksResult.error) {
+      console.log(`  Hook errors:          ${hooksResult.error}`);
+    }
+  }
+  if (callSitesResult) {
+    console.log(`  Call-site files:      ${callSitesResult.ok}`);
+    if (callSitesResult.error) {
+      console.log(`  Stage 2 errors:       ${callSitesResult.error}`);
+    }
+  }
   console.log('');
   console.log('Next steps:');
   console.log(
@@ -160,8 +276,17 @@ async function main() {
   console.log(
     '     getAppSetId, getUserAgentSync, getInstallReferrerSync.'
   );
+  if (hooksResult || callSitesResult) {
+    console.log(
+      '  3. Resolve the remaining `TODO(nitro-migrate)` comments by hand.'
+    );
+  }
 
-  if (result.error) {
+  if (
+    result.error ||
+    (hooksResult && hooksResult.error) ||
+    (callSitesResult && callSitesResult.error)
+  ) {
     process.exitCode = 1;
   }
 }
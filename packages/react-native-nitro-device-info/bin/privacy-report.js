@@ -0,0 +1,115 @@
+'use strict';
+
+/**
+ * CLI: `npx react-native-nitro-device-info privacy-report [path]`
+ *
+ * Scans the target path for the device-info APIs the app actually reads and
+ * prints a draft iOS `PrivacyInfo.xcprivacy` (required-reason APIs) and a
+ * Google Play Data Safety summary. Wraps `src/codemod/privacy-report`.
+ */
+
+const path = require('path');
+const fs = require('fs');
+const { collectFiles, loadCodemodModule } = require('./codemod-utils');
+
+function printUsage() {
+  console.log(
+    [
+      'Usage: npx react-native-nitro-device-info privacy-report [path] [--out=DIR] [--json] [--extensions=js,jsx,ts,tsx]',
+      '',
+      'Lists the device-info APIs used under the target path and drafts the',
+      'matching iOS PrivacyInfo.xcprivacy entries and Google Play Data Safety',
+      'types. Review both before shipping.',
+      '',
+      'Arguments:',
+      '  path                 File or directory to scan (default: current directory).',
+      '',
+      'Options:',
+      '  --out=DIR            Write PrivacyInfo.xcprivacy and data-safety.txt to DIR',
+      '                       instead of printing them.',
+      '  --json               Print the report as JSON.',
+      '  --extensions=LIST    Comma-separated file extensions (default: js,jsx,ts,tsx).',
+      '  -h, --help           Show this help.',
+    ].join('\n')
+  );
+}
+
+async function main(args) {
+  if (args.includes('-h') || args.includes('--help')) {
+    printUsage();
+    return;
+  }
+
+  const json = args.includes('--json');
+  const outArg = args.find(arg => arg.startsWith('--out='));
+  const extensionsArg = args.find(arg => arg.startsWith('--extensions='));
+  const extensions = extensionsArg
+    ? extensionsArg.split('=')[1]
+    : 'js,jsx,ts,tsx';
+
+  const positional = args.filter(arg => !arg.startsWith('-'));
+  const target = path.resolve(positional[0] || process.cwd());
+
+  if (!fs.existsSync(target)) {
+    console.error(`Error: path does not exist: ${target}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const report = loadCodemodModule('privacy-report');
+  if (!report) {
+    console.error(
+      'Error: could not locate the privacy-report module. Reinstall react-native-nitro-device-info.'
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const j = require('jscodeshift').withParser('tsx');
+  const members = new Set();
+  let failed = 0;
+
+  for (const file of collectFiles(target, extensions.split(','))) {
+    try {
+      const source = fs.readFileSync(file, 'utf8');
+      for (const member of report.collectUsedMembers(j, source)) {
+        members.add(member);
+      }
+    } catch (err) {
+      failed += 1;
+      console.error(`Skipped ${file}: ${err.message}`);
+    }
+  }
+
+  const result = report.buildPrivacyReport(members);
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (outArg) {
+    const outDir = path.resolve(outArg.split('=')[1]);
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(outDir, 'PrivacyInfo.xcprivacy'),
+      report.formatPrivacyManifest(result)
+    );
+    fs.writeFileSync(
+      path.join(outDir, 'data-safety.txt'),
+      report.formatDataSafety(result)
+    );
+    console.log(`Wrote PrivacyInfo.xcprivacy and data-safety.txt to ${outDir}`);
+  } else {
+    console.log(`APIs used under ${target}:`);
+    console.log(`  ${result.members.join(', ') || '(none)'}`);
+    console.log('');
+    console.log('iOS PrivacyInfo.xcprivacy (draft)');
+    console.log('---------------------------------');
+    console.log(report.formatPrivacyManifest(result));
+    console.log(report.formatDataSafety(result));
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+module.exports = { main };
@@ -28,6 +28,12 @@ import WebKit
  */
 class DeviceInfo: HybridDeviceInfoSpec {
 
+  override init() {
+    super.init()
+    // Start loading WebKit now so the sync `userAgent` is filled early
+    prefetchUserAgent()
+  }
+
   // MARK: - Private Properties & Caches
 
   /// Cached device model identifier to avoid repeated syscall overhead
@@ -43,8 +49,15 @@ class DeviceInfo: HybridDeviceInfoSpec {
   /// Logger for error and diagnostic logging
   private let logger = OSLog(subsystem: "com.nitro.deviceinfo", category: "DeviceInfo")
 
-  /// Network info caches with periodic refresh (5 second cache)
+  /// WebView user agent, filled by prefetchUserAgent() and guarded by userAgentLock
   private var cachedUserAgent: String?
+  private let userAgentLock = NSLock()
+  /// WebView kept alive while it evaluates navigator.userAgent (main thread only)
+  private var userAgentWebView: WKWebView?
+  /// Callbacks waiting for the pending user agent read (main thread only)
+  private var userAgentWaiters: [(String) -> Void] = []
+
+  /// Network info caches with periodic refresh (5 second cache)
   private var cachedIpAddress: String = "unknown"
   private var ipAddressCacheTime: TimeInterval = 0
   private var cachedCarrier: String = "unknown"
@@ -52,6 +65,11 @@ class DeviceInfo: HybridDeviceInfoSpec {
   private let IP_CACHE_DURATION: TimeInterval = 5.0
   private let CARRIER_CACHE_DURATION: TimeInterval = 5.0
 
+  /// NotificationCenter observers for active state change listeners, keyed by listener ID
+  private var eventObservers: [Double: [NSObjectProtocol]] = [:]
+  private var nextListenerId: Double = 0
+  private let eventObserversLock = NSLock()
+
   /// Cached first install time (computed once)
   private lazy var cachedFirstInstallTime: Double = {
     if let documentsURL = FileManager.default.urls(
@@ -542,6 +560,28 @@ class DeviceInfo: HybridDeviceInfoSpec {
     }
   }
 
+  /// Get free disk storage for a capacity bucket in bytes
+  func getFreeDiskStorageFor(kind: DiskCapacityKind) throws -> Promise<Double> {
+    return Promise.async {
+      let homeURL = URL(fileURLWithPath: NSHomeDirectory())
+      do {
+        switch kind {
+        case .total:
+          return self.getFreeDiskStorage()
+        case .important:
+          let values = try homeURL.resourceValues(forKeys: [.volumeAvailableCapacityForImportantUsageKey])
+          return values.volumeAvailableCapacityForImportantUsage.map(Double.init) ?? -1
+        case .opportunistic:
+          let values = try homeURL.resourceValues(forKeys: [.volumeAvailableCapacityForOpportunisticUsageKey])
+          return values.volumeAvailableCapacityForOpportunisticUsage.map(Double.init) ?? -1
+        }
+      } catch {
+        os_log(.error, log: self.logger, "Failed to get disk capacity: %{public}@", error.localizedDescription)
+        return -1
+      }
+    }
+  }
+
   /// Get device uptime since boot in milliseconds
   func getUptime() -> Double {
     return ProcessInfo.processInfo.systemUptime * 1000
@@ -725,29 +765,69 @@ class DeviceInfo: HybridDeviceInfoSpec {
     return "02:00:00:00:00:00"
   }
 
-  /// Get WebView user agent string (cached after first call)
-  func getUserAgent() throws -> Promise<String> {
-    return Promise.async { [weak self] in
-      if let cached = self?.cachedUserAgent {
-        return cached
+  /// Read navigator.userAgent from a WKWebView on the main thread and cache it.
+  /// Concurrent calls share one read; `completion` runs on the main thread.
+  private func prefetchUserAgent(_ completion: ((String) -> Void)? = nil) {
+    DispatchQueue.main.async { [weak self] in
+      guard let self = self else {
+        completion?("unknown")
+        return
+      }
+      if let cached = self.readCachedUserAgent() {
+        completion?(cached)
+        return
       }
+      if let completion = completion {
+        self.userAgentWaiters.append(completion)
+      }
+      guard self.userAgentWebView == nil else {
+        return
+      }
+      let webView = WKWebView()
+      self.userAgentWebView = webView
+      webView.evaluateJavaScript("navigator.userAgent") { [weak self] result, _ in
+        guard let self = self else { return }
+        let userAgent = result as? String
+        if let userAgent = userAgent {
+          self.userAgentLock.lock()
+          self.cachedUserAgent = userAgent
+          self.userAgentLock.unlock()
+        }
+        self.userAgentWebView = nil
+        let waiters = self.userAgentWaiters
+        self.userAgentWaiters = []
+        waiters.forEach { $0(userAgent ?? "unknown") }
+      }
+    }
+  }
+
+  private func readCachedUserAgent() -> String? {
+    userAgentLock.lock()
+    defer { userAgentLock.unlock() }
+    return cachedUserAgent
+  }
 
+  /// Get WebView user agent string (cached after first read)
+  func getUserAgent() throws -> Promise<String> {
+    if let cached = readCachedUserAgent() {
+      return Promise.resolved(withResult: cached)
+    }
+    return Promise.async { [weak self] in
       return await withCheckedContinuation { (continuation: CheckedContinuation<String, Never>) in
-        DispatchQueue.main.async { [weak self] in
-          let webView = WKWebView()
-          webView.evaluateJavaScript("navigator.userAgent") { result, error in
-            if let userAgent = result as? String {
-              self?.cachedUserAgent = userAgent
-              continuation.resume(returning: userAgent)
-            } else {
-              continuation.resume(returning: "unknown")
-            }
-          }
+        guard let self = self else {
+          continuation.resume(returning: "unknown")
+          return
         }
+        self.prefetchUserAgent { continuation.resume(returning: $0) }
       }
     }
   }
 
+  /// Cached user agent: empty until the read started at module init finishes
+  var userAgent: String {
+    return readCachedUserAgent() ?? ""
+  }
+
   /// Check if airplane mode is enabled (not available on iOS - returns false)
   func getIsAirplaneMode() -> Bool {
     return false
@@ -1138,6 +1218,50 @@ class DeviceInfo: HybridDeviceInfoSpec {
     }
   }
 
+  // MARK: - State Change Events
+
+  /// Register a native callback for a device state channel
+  func addListener(channel: DeviceEventChannel, onChange: @escaping () -> Void) throws -> Double {
+    let names: [Notification.Name]
+    switch channel {
+    case .battery:
+      _ = batteryMonitoringInitializer
+      names = [
+        UIDevice.batteryLevelDidChangeNotification,
+        UIDevice.batteryStateDidChangeNotification,
+        .NSProcessInfoPowerStateDidChange,
+      ]
+    case .brightness:
+      names = [UIScreen.brightnessDidChangeNotification]
+    case .headphones:
+      names = [AVAudioSession.routeChangeNotification]
+    case .network:
+      // Airplane mode is not readable on iOS (always false), so it never changes
+      names = []
+    }
+
+    let observers = names.map { name in
+      NotificationCenter.default.addObserver(forName: name, object: nil, queue: nil) { _ in
+        onChange()
+      }
+    }
+
+    eventObserversLock.lock()
+    defer { eventObserversLock.unlock() }
+    let listenerId = nextListenerId
+    nextListenerId += 1
+    eventObservers[listenerId] = observers
+    return listenerId
+  }
+
+  /// Unregister a native callback added with addListener
+  func removeListener(listenerId: Double) throws {
+    eventObserversLock.lock()
+    let observers = eventObservers.removeValue(forKey: listenerId)
+    eventObserversLock.unlock()
+    observers?.forEach { NotificationCenter.default.removeObserver($0) }
+  }
+
   // MARK: - Windows Platform (Unsupported)
 
   /// Check if mouse is connected (Windows-specific, returns false on iOS)
@@ -76,6 +76,7 @@ const fakeDeviceInfo = {
   isKeyboardConnected: false,
   hostNames: [],
   isTabletMode: false,
+  userAgent: 'Mozilla/5.0 (compat-test)',
 
   // ---- sync methods ----
   getHasNotch: () => true,
@@ -109,10 +110,16 @@ const fakeDeviceInfo = {
   hasSystemFeature: feature => feature === 'android.hardware.camera',
   isSideLoadingEnabled: () => false,
   isDeviceCompromised: () => false,
+  addListener: () => 0,
+  removeListener: () => {},
 
   // ---- async methods ----
   getFirstInstallTime: () => Promise.resolve(1698249600000),
   getLastUpdateTime: () => Promise.resolve(1698336000000),
+  getFreeDiskStorageFor: kind =>
+    Promise.resolve(
+      { total: 51539607552, important: 64424509440, opportunistic: 42949672960 }[kind]
+    ),
   getIpAddress: () => Promise.resolve('192.168.1.100'),
   getMacAddress: () => Promise.resolve('02:00:00:00:00:00'),
   getUserAgent: () => Promise.resolve('Mozilla/5.0 (compat-test)'),
@@ -0,0 +1,162 @@
+/**
+ * Expo config plugin tests.
+ *
+ * Mods are only registered on the config by the plugins; these tests run the
+ * registered Android manifest mod chain against an in-memory manifest instead
+ * of a prebuilt project.
+ */
+
+import type { AndroidConfig, ExportedConfig } from '@expo/config-plugins';
+import withDeviceInfo from '../withDeviceInfo';
+import { addPackageQueries, MOBILE_SERVICES_PACKAGES } from '../withMobileServicesQueries';
+import type { DeviceInfoPluginProps } from '../types';
+
+type AndroidManifest = AndroidConfig.Manifest.AndroidManifest;
+
+function createConfig(): ExportedConfig {
+  // expo-cli sets `_internal.projectRoot` before plugins run
+  return { name: 'app', slug: 'app', _internal: { projectRoot: '/app' } };
+}
+
+function createManifest(): AndroidManifest {
+  return {
+    manifest: {
+      $: { 'xmlns:android': 'http://schemas.android.com/apk/res/android' },
+      queries: [],
+    },
+  };
+}
+
+async function runManifestMods(
+  config: ExportedConfig,
+  manifest: AndroidManifest = createManifest()
+): Promise<AndroidManifest> {
+  const mod = config.mods?.android?.manifest;
+  if (!mod) {
+    return manifest;
+  }
+  const result = await mod({
+    ...config,
+    modResults: manifest,
+    modRawConfig: config,
+    modRequest: {
+      projectRoot: '/app',
+      platformProjectRoot: '/app/android',
+      modName: 'manifest',
+      platform: 'android',
+      introspect: false,
+    },
+  });
+  return result.modResults as AndroidManifest;
+}
+
+function permissions(manifest: AndroidManifest): string[] {
+  return (manifest.manifest['uses-permission'] ?? []).map((entry) => entry.$['android:name']);
+}
+
+function queriedPackages(manifest: AndroidManifest): string[] {
+  return manifest.manifest.queries.flatMap((query) =>
+    (query.package ?? []).map((pkg) => pkg.$['android:name'])
+  );
+}
+
+async function applyPlugin(
+  props: DeviceInfoPluginProps,
+  manifest?: AndroidManifest
+): Promise<AndroidManifest> {
+  return runManifestMods(withDeviceInfo(createConfig(), props), manifest);
+}
+
+describe('plugin: withDeviceInfo', () => {
+  it('changes nothing by default', async () => {
+    const config: ExportedConfig = withDeviceInfo(createConfig(), {});
+
+    expect(config.mods?.android?.manifest).toBeUndefined();
+    expect(config.android?.permissions).toBeUndefined();
+  });
+
+  it.each([
+    ['enableSerialNumber', 'android.permission.READ_PHONE_STATE'],
+    ['enableLocationProviders', 'android.permission.ACCESS_COARSE_LOCATION'],
+    ['enableBluetoothHeadphones', 'android.permission.BLUETOOTH_CONNECT'],
+    ['enableWifiState', 'android.permission.ACCESS_WIFI_STATE'],
+  ] as const)('%s adds %s', async (option, permission) => {
+    const manifest = await applyPlugin({ [option]: true });
+
+    expect(permissions(manifest)).toEqual([permission]);
+  });
+
+  it('combines options', async () => {
+    const manifest = await applyPlugin({
+      enableLocationProviders: true,
+      enableWifiState: true,
+      enableMobileServicesQueries: true,
+    });
+
+    expect(permissions(manifest).sort()).toEqual([
+      'android.permission.ACCESS_COARSE_LOCATION',
+      'android.permission.ACCESS_WIFI_STATE',
+    ]);
+    expect(queriedPackages(manifest)).toEqual(MOBILE_SERVICES_PACKAGES);
+  });
+
+  it('does not duplicate permissions already in the manifest', async () => {
+    const manifest = createManifest();
+    manifest.manifest['uses-permission'] = [
+      { $: { 'android:name': 'android.permission.BLUETOOTH_CONNECT' } },
+    ];
+
+    const once = await applyPlugin({ enableBluetoothHeadphones: true }, manifest);
+    const twice = await applyPlugin({ enableBluetoothHeadphones: true }, once);
+
+    expect(permissions(twice)).toEqual(['android.permission.BLUETOOTH_CONNECT']);
+  });
+
+  it('applies once when listed more than once', async () => {
+    const config = withDeviceInfo(withDeviceInfo(createConfig(), { enableWifiState: true }), {
+      enableWifiState: true,
+    });
+
+    expect(permissions(await runManifestMods(config))).toEqual([
+      'android.permission.ACCESS_WIFI_STATE',
+    ]);
+  });
+});
+
+describe('plugin: withMobileServicesQueries', () => {
+  it('declares the GMS and HMS packages', async () => {
+    const manifest = await applyPlugin({ enableMobileServicesQueries: true });
+
+    expect(manifest.manifest.queries).toEqual([
+      {
+        package: [
+          { $: { 'android:name': 'com.google.android.gms' } },
+          { $: { 'android:name': 'com.huawei.hwid' } },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps existing queries and skips declared packages', async () => {
+    const manifest = createManifest();
+    manifest.manifest.queries = [
+      {
+        package: [{ $: { 'android:name': 'com.huawei.hwid' } }],
+        intent: [{ action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }] }],
+      },
+    ];
+
+    const result = await applyPlugin({ enableMobileServicesQueries: true }, manifest);
+
+    expect(queriedPackages(result)).toEqual(['com.huawei.hwid', 'com.google.android.gms']);
+    expect(result.manifest.queries[0]?.intent).toHaveLength(1);
+  });
+
+  it('is idempotent', () => {
+    const manifest = createManifest();
+    addPackageQueries(manifest, MOBILE_SERVICES_PACKAGES);
+    addPackageQueries(manifest, MOBILE_SERVICES_PACKAGES);
+
+    expect(queriedPackages(manifest)).toEqual(MOBILE_SERVICES_PACKAGES);
+  });
+});
@@ -18,4 +18,40 @@ export type DeviceInfoPluginProps = {
    * @default false
    */
   enableSerialNumber?: boolean;
+
+  /**
+   * Add the Android `ACCESS_COARSE_LOCATION` permission so
+   * `getAvailableLocationProviders()` and `isLocationEnabled()` can see the
+   * network and GPS providers. Neither API reads the device position.
+   *
+   * @default false
+   */
+  enableLocationProviders?: boolean;
+
+  /**
+   * Add the Android `BLUETOOTH_CONNECT` permission (Android 12+) for
+   * `isBluetoothHeadphonesConnected` / `useIsBluetoothHeadphonesConnected`.
+   * Request it at runtime before relying on the result.
+   *
+   * @default false
+   */
+  enableBluetoothHeadphones?: boolean;
+
+  /**
+   * Add the Android `ACCESS_WIFI_STATE` permission for the network getters
+   * (`getIpAddress`, `getMacAddress` and their sync variants). It is a normal
+   * permission, granted at install time.
+   *
+   * @default false
+   */
+  enableWifiState?: boolean;
+
+  /**
+   * Declare `com.google.android.gms` and `com.huawei.hwid` under the Android
+   * manifest's `<queries>` so `getHasGms()` / `getHasHms()` can see them
+   * despite Android 11+ package visibility filtering.
+   *
+   * @default false
+   */
+  enableMobileServicesQueries?: boolean;
 };
@@ -0,0 +1,13 @@
+import { AndroidConfig, type ConfigPlugin, withPlugins } from '@expo/config-plugins';
+
+/**
+ * Adds `android.permission.BLUETOOTH_CONNECT` to the Android manifest.
+ *
+ * On Android 12+ some OEM builds hide Bluetooth audio routes from apps without
+ * this runtime permission, so `isBluetoothHeadphonesConnected` stays `false`.
+ * Idempotent through `AndroidConfig.Permissions.withPermissions`.
+ */
+export const withBluetoothHeadphones: ConfigPlugin = (config) =>
+  withPlugins(config, [
+    [AndroidConfig.Permissions.withPermissions, ['android.permission.BLUETOOTH_CONNECT']],
+  ]);
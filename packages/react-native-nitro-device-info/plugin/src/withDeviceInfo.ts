@@ -1,7 +1,11 @@
 import { type ConfigPlugin, createRunOncePlugin, withPlugins } from '@expo/config-plugins';
 
 import type { DeviceInfoPluginProps } from './types';
+import { withBluetoothHeadphones } from './withBluetoothHeadphones';
+import { withLocationProviders } from './withLocationProviders';
+import { withMobileServicesQueries } from './withMobileServicesQueries';
 import { withSerialNumber } from './withSerialNumber';
+import { withWifiState } from './withWifiState';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const pkg = require('../../package.json') as { name: string; version: string };
@@ -12,6 +16,18 @@ const withDeviceInfo: ConfigPlugin<DeviceInfoPluginProps> = (config, props = {})
   if (props.enableSerialNumber) {
     plugins.push(withSerialNumber);
   }
+  if (props.enableLocationProviders) {
+    plugins.push(withLocationProviders);
+  }
+  if (props.enableBluetoothHeadphones) {
+    plugins.push(withBluetoothHeadphones);
+  }
+  if (props.enableWifiState) {
+    plugins.push(withWifiState);
+  }
+  if (props.enableMobileServicesQueries) {
+    plugins.push(withMobileServicesQueries);
+  }
 
   return withPlugins(config, plugins);
 };
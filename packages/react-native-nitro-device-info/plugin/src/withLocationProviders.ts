@@ -0,0 +1,13 @@
+import { AndroidConfig, type ConfigPlugin, withPlugins } from '@expo/config-plugins';
+
+/**
+ * Adds `android.permission.ACCESS_COARSE_LOCATION` to the Android manifest.
+ *
+ * Coarse access is enough for `getAvailableLocationProviders()` and
+ * `isLocationEnabled()` to see the network and GPS providers; neither reads an
+ * actual position. Idempotent through `AndroidConfig.Permissions.withPermissions`.
+ */
+export const withLocationProviders: ConfigPlugin = (config) =>
+  withPlugins(config, [
+    [AndroidConfig.Permissions.withPermissions, ['android.permission.ACCESS_COARSE_LOCATION']],
+  ]);
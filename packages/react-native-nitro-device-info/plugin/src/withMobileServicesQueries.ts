@@ -0,0 +1,53 @@
+import { AndroidConfig, type ConfigPlugin, withAndroidManifest } from '@expo/config-plugins';
+
+/**
+ * Packages `getHasGms()` / `getHasHms()` look up through the package manager
+ */
+export const MOBILE_SERVICES_PACKAGES = ['com.google.android.gms', 'com.huawei.hwid'];
+
+/**
+ * Adds `<package>` entries to the manifest's `<queries>` element, skipping
+ * packages that are already declared.
+ */
+export function addPackageQueries(
+  manifest: AndroidConfig.Manifest.AndroidManifest,
+  packages: readonly string[]
+): AndroidConfig.Manifest.AndroidManifest {
+  if (!manifest.manifest.queries) {
+    manifest.manifest.queries = [];
+  }
+  const queries = manifest.manifest.queries;
+
+  const declared = new Set(
+    queries.flatMap((query) => (query.package ?? []).map((pkg) => pkg.$['android:name']))
+  );
+  const missing = packages.filter((name) => !declared.has(name));
+  if (missing.length === 0) {
+    return manifest;
+  }
+
+  let query = queries[0];
+  if (!query) {
+    query = {};
+    queries.push(query);
+  }
+  query.package = [
+    ...(query.package ?? []),
+    ...missing.map((name) => ({ $: { 'android:name': name } })),
+  ];
+  return manifest;
+}
+
+/**
+ * Declares the GMS and HMS packages under `<queries>`.
+ *
+ * Android 11+ package visibility hides other apps unless they are declared, so
+ * without these entries `getHasGms()` / `getHasHms()` can report `false` on
+ * devices that have them. Idempotent: packages already present are not added
+ * again.
+ */
+export const withMobileServicesQueries: ConfigPlugin = (config) =>
+  withAndroidManifest(config, (config) => {
+    config.modResults = addPackageQueries(config.modResults, MOBILE_SERVICES_PACKAGES);
+    return config;
+  });
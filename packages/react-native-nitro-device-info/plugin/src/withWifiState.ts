@@ -0,0 +1,14 @@
+import { AndroidConfig, type ConfigPlugin, withPlugins } from '@expo/config-plugins';
+
+/**
+ * Adds `android.permission.ACCESS_WIFI_STATE` to the Android manifest.
+ *
+ * The network getters (`getIpAddress`, `getMacAddress` and their sync variants)
+ * enumerate network interfaces; some vendor builds leave the Wi-Fi interface
+ * out for apps without this permission. Idempotent through
+ * `AndroidConfig.Permissions.withPermissions`.
+ */
+export const withWifiState: ConfigPlugin = (config) =>
+  withPlugins(config, [
+    [AndroidConfig.Permissions.withPermissions, ['android.permission.ACCESS_WIFI_STATE']],
+  ]);
@@ -52,6 +52,32 @@ export type BatteryState = 'unknown' | 'unplugged' | 'charging' | 'full';
  */
 export type NavigationMode = 'gesture' | 'buttons' | 'twobuttons' | 'unknown';
 
+/**
+ * Device state channels that can notify JS when their value changes
+ *
+ * - `battery`: battery level, charging state, or low power mode changed
+ * - `brightness`: screen brightness changed (iOS only, never fires on Android)
+ * - `headphones`: audio output route changed (wired or Bluetooth)
+ * - `network`: browser connectivity changed (web only, never fires on iOS or
+ *   Android)
+ */
+export type DeviceEventChannel =
+  | 'battery'
+  | 'brightness'
+  | 'headphones'
+  | 'network';
+
+/**
+ * Free disk space buckets reported by `getFreeDiskStorageFor()`
+ *
+ * - `total`: bytes free on the data volume, same as `getFreeDiskStorage()`
+ * - `important`: bytes the system can make available for user-initiated
+ *   work, including purgeable space (iOS `volumeAvailableCapacityForImportantUsage`)
+ * - `opportunistic`: bytes available for prefetching and other work the user
+ *   did not ask for (iOS `volumeAvailableCapacityForOpportunisticUsage`)
+ */
+export type DiskCapacityKind = 'total' | 'important' | 'opportunistic';
+
 /**
  * Main DeviceInfo HybridObject providing comprehensive device information
  *
@@ -426,6 +452,31 @@ export interface DeviceInfo
    */
   getFreeDiskStorage(): number;
 
+  /**
+   * Get free disk storage for a capacity bucket in bytes
+   *
+   * Use `'important'` before work the user asked for, such as a large
+   * download: it counts space the system will free up on demand, so it is
+   * usually larger than `getFreeDiskStorage()`.
+   *
+   * **Platform behavior:**
+   * - **iOS**: Reads the matching `URLResourceValues` capacity of the home volume
+   * - **Android**: `'important'` uses `StorageManager.getAllocatableBytes()` on
+   *   API 26+; every other case returns the `StatFs` free bytes
+   * - **Web**: `quota - usage` from `navigator.storage.estimate()` for every kind
+   *
+   * @param kind - Capacity bucket to read
+   * @returns Free storage in bytes, -1 if unavailable
+   * @example
+   * ```typescript
+   * const free = await DeviceInfoModule.getFreeDiskStorageFor('important');
+   * if (free > download.sizeBytes) {
+   *   startDownload(download);
+   * }
+   * ```
+   */
+  getFreeDiskStorageFor(kind: DiskCapacityKind): Promise<number>;
+
   /**
    * Get device uptime since boot in milliseconds
    *
@@ -648,14 +699,36 @@ export interface DeviceInfo
 
   /**
    * Get HTTP User-Agent string.
-   * iOS requires WebView initialization (heavy operation, cached after first call).
-   * Android can return synchronously from System.getProperty().
+   * Both platforms need WebView initialization (heavy operation), which starts
+   * in the background when the native module is created. Resolves once the
+   * value is loaded and cached.
    *
-   * @platform iOS (async), Android, Web
-   * @async iOS: 100-500ms (WebView init), Android: sync capable
+   * @platform iOS, Android, Web
+   * @async iOS and Android: 100-500ms after module creation (WebView init)
    */
   getUserAgent(): Promise<string>;
 
+  /**
+   * Cached HTTP User-Agent string.
+   *
+   * Loading starts off the JS thread when the native module is created, i.e.
+   * on the first `DeviceInfoModule` access: iOS evaluates `navigator.userAgent`
+   * in a WKWebView, Android reads the WebView default on a background thread.
+   * Reads return `''` until that finishes; the value is valid once
+   * `getUserAgent()` has resolved. Web reads `navigator.userAgent`.
+   *
+   * @returns User agent, or `''` if not loaded yet
+   * @example
+   * ```typescript
+   * // index.js: the first access creates the module and starts the load
+   * DeviceInfoModule.getUserAgent();
+   *
+   * // later, synchronously
+   * const client = createHttpClient({ userAgent: DeviceInfoModule.userAgent });
+   * ```
+   */
+  readonly userAgent: string;
+
   /**
    * Check if airplane mode is enabled.
    *
@@ -1318,6 +1391,43 @@ export interface DeviceInfo
    */
   verifyDeviceIntegrity(): Promise<boolean>;
 
+  // ============================================
+  // STATE CHANGE EVENTS
+  // ============================================
+
+  /**
+   * Register a native callback for a device state channel
+   *
+   * `onChange` carries no payload: it only signals that the platform reported
+   * a change, and the current value is read through the matching sync getter.
+   * Prefer the JS `subscribe()` helper, which shares a single native listener
+   * between all subscribers of a channel.
+   *
+   * @param channel Device state channel to observe
+   * @param onChange Invoked every time the platform reports a change
+   * @returns Listener ID to pass to `removeListener()`
+   * @example
+   * ```typescript
+   * const id = DeviceInfoModule.addListener('battery', () => {
+   *   console.log(DeviceInfoModule.getBatteryLevel());
+   * });
+   * DeviceInfoModule.removeListener(id);
+   * ```
+   *
+   * @platform iOS, Android
+   */
+  addListener(channel: DeviceEventChannel, onChange: () => void): number;
+
+  /**
+   * Unregister a native callback added with `addListener()`
+   *
+   * Unknown or already removed IDs are ignored.
+   *
+   * @param listenerId ID returned by `addListener()`
+   * @platform iOS, Android
+   */
+  removeListener(listenerId: number): void;
+
   // ============================================
   // WINDOWS PLATFORM (Unsupported)
   // ============================================
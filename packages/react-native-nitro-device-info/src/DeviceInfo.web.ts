@@ -9,8 +9,9 @@
  * import the package without crashing.
  *
  * Value policy:
- * - Where a browser API can supply a real answer (user agent, language, screen
- *   orientation, battery, memory hint) we read it, guarded for SSR.
+ * - Where a browser API can supply a real answer (user agent, User-Agent Client
+ *   Hints, language, screen orientation, battery, memory hint) we read it,
+ *   guarded for SSR.
  * - Otherwise we return the same honest constants the native side uses for an
  *   unsupported platform ("unknown" / -1 / false / [] / 0). We deliberately do
  *   NOT fabricate plausible-looking device values.
@@ -23,7 +24,16 @@ import type {
   PowerState,
   BatteryState,
   DeviceType,
+  DeviceEventChannel,
 } from './DeviceInfo.nitro';
+import {
+  abisFromHints,
+  brandFromSystemName,
+  deviceTypeFromHints,
+  hint,
+  systemNameFromUserAgent,
+  type ClientHints,
+} from './clientHints';
 
 /**
  * Minimal structural shapes for the browser globals we read. The library's
@@ -32,6 +42,35 @@ import type {
  * Every access is still guarded for SSR, so these types describe the shape we
  * expect *if* the global exists — never an assumption that it does.
  */
+interface WebEventTarget {
+  readonly addEventListener?: (type: string, listener: () => void) => void;
+}
+
+/** Network Information API (`navigator.connection`), Chromium only */
+type NetworkInformationLike = WebEventTarget;
+
+interface StorageManagerLike {
+  readonly estimate?: () => Promise<{ quota?: number; usage?: number }>;
+}
+
+/** `navigator.userAgentData.getHighEntropyValues()` result; every field optional */
+interface HighEntropyValues {
+  readonly architecture?: string;
+  readonly bitness?: string;
+  readonly model?: string;
+  readonly platformVersion?: string;
+  readonly formFactors?: readonly string[];
+}
+
+/** User-Agent Client Hints (`navigator.userAgentData`), Chromium only */
+interface UserAgentDataLike {
+  readonly mobile?: boolean;
+  readonly platform?: string;
+  readonly getHighEntropyValues?: (
+    hints: string[]
+  ) => Promise<HighEntropyValues>;
+}
+
 interface WebNavigator {
   readonly userAgent?: string;
   readonly language?: string;
@@ -39,15 +78,21 @@ interface WebNavigator {
   readonly onLine?: boolean;
   readonly deviceMemory?: number;
   readonly getBattery?: () => Promise<BatteryManagerLike>;
+  readonly storage?: StorageManagerLike;
+  readonly userAgentData?: UserAgentDataLike;
+  readonly connection?: NetworkInformationLike;
 }
 
 interface WebScreen {
   readonly width: number;
   readonly height: number;
+  /** Screen Orientation API; missing on older Safari */
+  readonly orientation?: { readonly type: string };
 }
 
 declare const navigator: WebNavigator | undefined;
 declare const screen: WebScreen | undefined;
+declare const window: WebEventTarget | undefined;
 
 /**
  * Read a browser global only when it actually exists. Returns `undefined` on the
@@ -62,19 +107,61 @@ function safeScreen(): WebScreen | undefined {
   return typeof screen !== 'undefined' ? screen : undefined;
 }
 
+function safeWindow(): WebEventTarget | undefined {
+  return typeof window !== 'undefined' ? window : undefined;
+}
+
+/**
+ * Add `listener` for each event type, when the target exists and supports
+ * events. The listeners live as long as the page, so nothing removes them.
+ */
+function listen(
+  target: WebEventTarget | undefined,
+  types: string[],
+  listener: () => void
+): void {
+  const addEventListener = target?.addEventListener;
+  if (typeof addEventListener !== 'function') {
+    return;
+  }
+  for (const type of types) {
+    addEventListener.call(target, type, listener);
+  }
+}
+
 /**
  * Minimal shape of the Battery Status API result we consume. The API is
  * deprecated and absent in most browsers, so it is always accessed defensively.
  */
-interface BatteryManagerLike {
+interface BatteryManagerLike extends WebEventTarget {
   level: number;
   charging: boolean;
 }
 
+/**
+ * Callbacks registered through `addListener`, keyed by listener ID. Browsers
+ * offer no source for `brightness` or `headphones`, so only `battery` (Battery
+ * Status events) and `network` (connectivity events) ever fire here.
+ */
+const eventListeners = new Map<
+  number,
+  { channel: DeviceEventChannel; onChange: () => void }
+>();
+let nextListenerId = 0;
+
+function emit(channel: DeviceEventChannel): void {
+  for (const listener of Array.from(eventListeners.values())) {
+    if (listener.channel === channel) {
+      listener.onChange();
+    }
+  }
+}
+
 /**
  * Cached battery snapshot. `navigator.getBattery()` is async, deprecated, and
  * missing on most browsers, so we kick off a single guarded read at module load
  * and consume whatever resolved value is available from the synchronous getters.
+ * The `BatteryManager`'s change events then keep the cache current.
  * It never rejects outward: failure leaves the cache `null` and getters fall back.
  */
 let batteryCache: BatteryManagerLike | null = null;
@@ -90,7 +177,12 @@ function primeBatteryCache(): void {
     getBattery
       .call(nav)
       .then((battery) => {
-        batteryCache = { level: battery.level, charging: battery.charging };
+        const update = () => {
+          batteryCache = { level: battery.level, charging: battery.charging };
+          emit('battery');
+        };
+        update();
+        listen(battery, ['levelchange', 'chargingchange'], update);
       })
       .catch(() => {
         // Permission-gated or unsupported: keep the fallback, never reject.
@@ -102,6 +194,70 @@ function primeBatteryCache(): void {
 
 primeBatteryCache();
 
+/**
+ * Forward connectivity changes to the `network` channel: the window's
+ * `online` / `offline` events and, where available, `navigator.connection`
+ * changes. The getters read `navigator` directly, so there is nothing to cache.
+ */
+function watchNetwork(): void {
+  const onChange = () => emit('network');
+  listen(safeWindow(), ['online', 'offline'], onChange);
+  listen(safeNavigator()?.connection, ['change'], onChange);
+}
+
+watchNetwork();
+
+/**
+ * Cached high-entropy client hints. Like the battery cache, the async
+ * `getHighEntropyValues()` call is made once at module load and the sync
+ * getters read whatever has resolved; until then (and on browsers without
+ * Client Hints) they report the same constants as before.
+ */
+let highEntropyCache: HighEntropyValues | null = null;
+
+const HIGH_ENTROPY_HINTS = [
+  'architecture',
+  'bitness',
+  'model',
+  'platformVersion',
+  'formFactors',
+];
+
+function primeHighEntropyCache(): void {
+  const uaData = safeNavigator()?.userAgentData;
+  const getHighEntropyValues = uaData?.getHighEntropyValues;
+  if (typeof getHighEntropyValues !== 'function' || uaData === undefined) {
+    return;
+  }
+  try {
+    getHighEntropyValues
+      .call(uaData, HIGH_ENTROPY_HINTS)
+      .then((values) => {
+        highEntropyCache = values;
+      })
+      .catch(() => {
+        // Blocked by a Permissions-Policy or the user agent: keep the fallback.
+      });
+  } catch {
+    // Synchronous throw (some engines): keep the fallback.
+  }
+}
+
+primeHighEntropyCache();
+
+/**
+ * The low-entropy hints from `navigator.userAgentData` merged with whatever
+ * high-entropy hints have resolved
+ */
+function currentHints(): ClientHints {
+  const uaData = safeNavigator()?.userAgentData;
+  return {
+    mobile: uaData?.mobile,
+    platform: uaData?.platform,
+    ...highEntropyCache,
+  };
+}
+
 /**
  * Map the cached browser battery snapshot to the native `BatteryState` enum.
  * Without a real reading we report "unknown" rather than guessing.
@@ -117,19 +273,13 @@ function currentBatteryState(): BatteryState {
 }
 
 /**
- * Derive an OS name from the user agent. Best-effort only; falls back to "web".
+ * OS name from the Client Hints platform, else derived from the user agent
  */
 function deriveSystemName(): string {
-  const ua = safeNavigator()?.userAgent;
-  if (ua === undefined) {
-    return 'web';
-  }
-  if (/android/i.test(ua)) return 'Android';
-  if (/iphone|ipad|ipod/i.test(ua)) return 'iOS';
-  if (/windows/i.test(ua)) return 'Windows';
-  if (/mac os x|macintosh/i.test(ua)) return 'macOS';
-  if (/linux/i.test(ua)) return 'Linux';
-  return 'web';
+  return (
+    hint(safeNavigator()?.userAgentData?.platform) ??
+    systemNameFromUserAgent(safeNavigator()?.userAgent)
+  );
 }
 
 /**
@@ -141,6 +291,29 @@ function deriveTotalMemory(): number {
   return typeof deviceMemory === 'number' ? deviceMemory * 1024 * 1024 * 1024 : -1;
 }
 
+/**
+ * Bytes the origin may still write, from the StorageManager estimate
+ * (`quota - usage`). The browser picks the quota, so every `DiskCapacityKind`
+ * gets the same figure. Resolves -1 when the API is missing or rejects.
+ */
+function estimateFreeStorage(): Promise<number> {
+  const storage = safeNavigator()?.storage;
+  const estimate = storage?.estimate;
+  if (typeof estimate !== 'function') {
+    return Promise.resolve(-1);
+  }
+  try {
+    return estimate
+      .call(storage)
+      .then(({ quota, usage }) =>
+        typeof quota === 'number' ? Math.max(quota - (usage ?? 0), 0) : -1
+      )
+      .catch(() => -1);
+  } catch {
+    return Promise.resolve(-1);
+  }
+}
+
 /**
  * Web fallback singleton. The explicit `: DeviceInfo` annotation forces this
  * object to implement every interface member at compile time — a missing or
@@ -157,19 +330,29 @@ const webDeviceInfo: DeviceInfo = {
 
   // ---- Core device information ----
   deviceId: 'unknown',
-  brand: safeNavigator()?.vendor || 'unknown',
-  model: 'unknown',
+  get brand(): string {
+    return brandFromSystemName(deriveSystemName()) ?? 'unknown';
+  },
+  get model(): string {
+    return hint(highEntropyCache?.model) ?? 'unknown';
+  },
   get systemName(): string {
     return deriveSystemName();
   },
-  systemVersion: 'unknown',
-  deviceType: 'unknown' as DeviceType,
+  get systemVersion(): string {
+    return hint(highEntropyCache?.platformVersion) ?? 'unknown';
+  },
+  get deviceType(): DeviceType {
+    return deviceTypeFromHints(currentHints());
+  },
   uniqueId: 'unknown',
   manufacturer: safeNavigator()?.vendor || 'unknown',
   deviceName: 'unknown',
 
   // ---- Device capabilities ----
-  isTablet: false,
+  get isTablet(): boolean {
+    return deviceTypeFromHints(currentHints()) === 'Tablet';
+  },
   isEmulator: false,
   deviceYearClass: -1,
   isCameraPresent: false,
@@ -183,7 +366,14 @@ const webDeviceInfo: DeviceInfo = {
   isDisplayZoomed: false,
   getIsLandscape: () => {
     const s = safeScreen();
-    return s !== undefined ? s.width > s.height : false;
+    if (s === undefined) {
+      return false;
+    }
+    // 'landscape-primary' | 'landscape-secondary' | 'portrait-*'
+    const orientation = s.orientation?.type;
+    return typeof orientation === 'string'
+      ? orientation.startsWith('landscape')
+      : s.width > s.height;
   },
   getBrightness: () => -1,
   getFontScale: () => 1,
@@ -197,6 +387,7 @@ const webDeviceInfo: DeviceInfo = {
   maxMemory: -1,
   totalDiskCapacity: -1,
   getFreeDiskStorage: () => -1,
+  getFreeDiskStorageFor: () => estimateFreeStorage(),
   getUptime: () => -1,
   startupTime: -1,
 
@@ -231,6 +422,9 @@ const webDeviceInfo: DeviceInfo = {
   getMacAddress: () => Promise.resolve('02:00:00:00:00:00'),
   getMacAddressSync: () => '02:00:00:00:00:00',
   getUserAgent: () => Promise.resolve(safeNavigator()?.userAgent ?? 'unknown'),
+  get userAgent(): string {
+    return safeNavigator()?.userAgent ?? '';
+  },
   getIsAirplaneMode: () => {
     const nav = safeNavigator();
     // `onLine` only tells us connectivity, not airplane mode; report the
@@ -262,9 +456,15 @@ const webDeviceInfo: DeviceInfo = {
   systemLanguage: safeNavigator()?.language || 'unknown',
 
   // ---- CPU & architecture ----
-  supportedAbis: [],
-  supported32BitAbis: [],
-  supported64BitAbis: [],
+  get supportedAbis(): string[] {
+    return abisFromHints(currentHints());
+  },
+  get supported32BitAbis(): string[] {
+    return highEntropyCache?.bitness === '32' ? abisFromHints(currentHints()) : [];
+  },
+  get supported64BitAbis(): string[] {
+    return highEntropyCache?.bitness === '64' ? abisFromHints(currentHints()) : [];
+  },
 
   // ---- Android platform ----
   apiLevel: -1,
@@ -312,6 +512,16 @@ const webDeviceInfo: DeviceInfo = {
   isDeviceCompromised: () => false,
   verifyDeviceIntegrity: () => Promise.resolve(false),
 
+  // ---- State change events ----
+  addListener: (channel, onChange) => {
+    const listenerId = nextListenerId++;
+    eventListeners.set(listenerId, { channel, onChange });
+    return listenerId;
+  },
+  removeListener: (listenerId) => {
+    eventListeners.delete(listenerId);
+  },
+
   // ---- Windows platform (unsupported) ----
   isMouseConnected: false,
   isKeyboardConnected: false,
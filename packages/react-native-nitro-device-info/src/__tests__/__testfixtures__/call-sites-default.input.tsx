@@ -0,0 +1,8 @@
+import DeviceInfo from 'react-native-nitro-device-info/compat';
+
+export async function load() {
+  const name = await DeviceInfo.getDeviceName();
+  const mac = await DeviceInfo.getMacAddress();
+  const free = await DeviceInfo.getFreeDiskStorage('important');
+  return { name, mac, free, tablet: DeviceInfo.isTablet() };
+}
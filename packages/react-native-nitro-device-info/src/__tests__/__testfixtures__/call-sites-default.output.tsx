@@ -0,0 +1,8 @@
+import { DeviceInfoModule } from 'react-native-nitro-device-info';
+
+export async function load() {
+  const name = DeviceInfoModule.deviceName;
+  const mac = await DeviceInfoModule.getMacAddress();
+  const free = await DeviceInfoModule.getFreeDiskStorageFor('important');
+  return { name, mac, free, tablet: DeviceInfoModule.isTablet };
+}
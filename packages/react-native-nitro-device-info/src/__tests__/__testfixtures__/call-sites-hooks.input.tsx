@@ -0,0 +1,16 @@
+import { DeviceInfoModule as Info } from 'react-native-nitro-device-info';
+import {
+  getBatteryLevel,
+  useBatteryLevel,
+  useIsHeadphonesConnected,
+} from 'react-native-nitro-device-info/compat';
+
+export function useStatus() {
+  const level = useBatteryLevel();
+  const headphones = useIsHeadphonesConnected();
+  return { level, headphones, model: Info.model };
+}
+
+export async function readLevel() {
+  return (await getBatteryLevel()) * 100;
+}
@@ -0,0 +1,13 @@
+import { DeviceInfoModule as Info, useBatteryLevel } from 'react-native-nitro-device-info';
+import { useIsHeadphonesConnected } from 'react-native-nitro-device-info/compat';
+
+export function useStatus() {
+  const level = useBatteryLevel();
+  // TODO(nitro-migrate): useIsHeadphonesConnected — the core hook returns a boolean instead of { loading, result }
+  const headphones = useIsHeadphonesConnected();
+  return { level, headphones, model: Info.model };
+}
+
+export async function readLevel() {
+  return (Info.getBatteryLevel()) * 100;
+}
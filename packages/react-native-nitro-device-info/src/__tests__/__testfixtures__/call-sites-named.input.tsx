@@ -0,0 +1,19 @@
+import {
+  getInstanceId,
+  getManufacturer,
+  getModel,
+  getUniqueId,
+  hasSystemFeatureSync,
+} from 'react-native-nitro-device-info/compat';
+
+export async function describeDevice() {
+  const manufacturer = await getManufacturer();
+  const model = getModel();
+  const camera = hasSystemFeatureSync('android.hardware.camera');
+  const instanceId = await getInstanceId();
+  return { manufacturer, model, camera, instanceId };
+}
+
+export function loadId(onId: (id: string) => void) {
+  getUniqueId().then(onId);
+}
@@ -0,0 +1,16 @@
+import { getInstanceId } from 'react-native-nitro-device-info/compat';
+
+import { DeviceInfoModule } from 'react-native-nitro-device-info';
+
+export async function describeDevice() {
+  const manufacturer = DeviceInfoModule.manufacturer;
+  const model = DeviceInfoModule.model;
+  const camera = DeviceInfoModule.hasSystemFeature('android.hardware.camera');
+  // TODO(nitro-migrate): getInstanceId — no native equivalent; the compat layer returns a placeholder
+  const instanceId = await getInstanceId();
+  return { manufacturer, model, camera, instanceId };
+}
+
+export function loadId(onId: (id: string) => void) {
+  Promise.resolve(DeviceInfoModule.uniqueId).then(onId);
+}
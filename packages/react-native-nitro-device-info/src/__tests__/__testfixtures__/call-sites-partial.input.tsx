@@ -0,0 +1,7 @@
+import DeviceInfo from 'react-native-nitro-device-info/compat';
+
+export function providers() {
+  const brand = DeviceInfo.getBrand();
+  const available = DeviceInfo.getAvailableLocationProvidersSync();
+  return { brand, available };
+}
@@ -0,0 +1,10 @@
+import DeviceInfo from 'react-native-nitro-device-info/compat';
+
+import { DeviceInfoModule } from 'react-native-nitro-device-info';
+
+export function providers() {
+  const brand = DeviceInfoModule.brand;
+  // TODO(nitro-migrate): getAvailableLocationProvidersSync — DeviceInfoModule.getAvailableLocationProviders() returns enabled provider names, not a map
+  const available = DeviceInfo.getAvailableLocationProvidersSync();
+  return { brand, available };
+}
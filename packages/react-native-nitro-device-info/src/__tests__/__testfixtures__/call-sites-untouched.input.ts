@@ -0,0 +1,3 @@
+import { getModel } from 'react-native-nitro-device-info/compat';
+
+export const models = ['a', 'b'].map(getModel);
@@ -0,0 +1,17 @@
+import React from 'react';
+import DeviceInfo, {
+  useIsHeadphonesConnected,
+  useManufacturer,
+} from 'react-native-nitro-device-info/compat';
+
+function useRoute() {
+  return useIsHeadphonesConnected();
+}
+
+export function Header() {
+  const { result: manufacturer } = useManufacturer();
+  const route = useRoute();
+  const { result: wired } = DeviceInfo.useIsWiredHeadphonesConnected();
+  const low = DeviceInfo.useBatteryLevelIsLow();
+  return [manufacturer, route.result, wired, low, DeviceInfo.getModel()];
+}
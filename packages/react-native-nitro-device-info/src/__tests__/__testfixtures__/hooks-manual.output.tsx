@@ -0,0 +1,21 @@
+import React from 'react';
+import DeviceInfo, {
+  useIsHeadphonesConnected,
+  useManufacturer,
+} from 'react-native-nitro-device-info/compat';
+
+import { useIsWiredHeadphonesConnected, useBatteryLevelIsLow } from 'react-native-nitro-device-info';
+
+function useRoute() {
+  // TODO(nitro-migrate): useIsHeadphonesConnected — the core hook returns a boolean instead of { loading, result }
+  return useIsHeadphonesConnected();
+}
+
+export function Header() {
+  // TODO(nitro-migrate): useManufacturer — no core hook; read DeviceInfoModule.manufacturer directly
+  const { result: manufacturer } = useManufacturer();
+  const route = useRoute();
+  const wired = useIsWiredHeadphonesConnected();
+  const low = useBatteryLevelIsLow();
+  return [manufacturer, route.result, wired, low, DeviceInfo.getModel()];
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Text } from 'react-native';
+import {
+  useBatteryLevel,
+  useIsHeadphonesConnected,
+  useIsWiredHeadphonesConnected as useWired,
+  useIsBluetoothHeadphonesConnected,
+} from 'react-native-nitro-device-info/compat';
+
+export function AudioRoute() {
+  const level = useBatteryLevel();
+  const { loading, result: headphones } = useIsHeadphonesConnected();
+  const wired = useWired();
+  const bluetooth = useIsBluetoothHeadphonesConnected().result;
+
+  const pending = [loading, wired.loading];
+
+  if (pending.some(Boolean)) {
+    return null;
+  }
+  return (
+    <Text>
+      {level} {headphones ? 'headphones' : 'speaker'}{' '}
+      {String(wired.result)} {String(bluetooth)}
+    </Text>
+  );
+}
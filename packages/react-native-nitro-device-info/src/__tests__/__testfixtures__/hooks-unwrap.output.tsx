@@ -0,0 +1,30 @@
+import React from 'react';
+import { Text } from 'react-native';
+import {
+  useBatteryLevel,
+  useIsHeadphonesConnected,
+  useIsWiredHeadphonesConnected as useWired,
+  useIsBluetoothHeadphonesConnected,
+} from 'react-native-nitro-device-info';
+
+export function AudioRoute() {
+  const level = useBatteryLevel();
+  // TODO(nitro-migrate): useIsHeadphonesConnected — the core hook has no loading state; `loading` is now always false
+  const headphones = useIsHeadphonesConnected();
+  const loading = false;
+  // TODO(nitro-migrate): useIsWiredHeadphonesConnected — the core hook has no loading state; `loading` is now always false
+  const wired = useWired();
+  const bluetooth = useIsBluetoothHeadphonesConnected();
+
+  const pending = [loading, false];
+
+  if (pending.some(Boolean)) {
+    return null;
+  }
+  return (
+    <Text>
+      {level} {headphones ? 'headphones' : 'speaker'}{' '}
+      {String(wired)} {String(bluetooth)}
+    </Text>
+  );
+}
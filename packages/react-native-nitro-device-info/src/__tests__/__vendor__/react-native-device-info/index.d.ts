@@ -0,0 +1,1870 @@
+// Vendored from react-native-device-info@15.0.2 (lib/typescript/index.d.ts),
+// MIT License, Copyright (c) 2015 Rebecca Hughes. Read by compat-parity.test.ts;
+// to track a new RNDI release, replace this file with its index.d.ts verbatim.
+import { DeviceInfoModule } from './internal/privateTypes';
+import type { AsyncHookResult, DeviceType, LocationProviderInfo, PowerState, AppSetIdInfo } from './internal/types';
+/**
+ * Retrieves the unique ID information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getUniqueId();
+ * ```
+ */
+export declare const getUniqueId: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getUniqueId}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getUniqueIdSync();
+ * ```
+ */
+export declare const getUniqueIdSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Preloads the unique ID on iOS so that {@link getUniqueId} can resolve synchronously later in the app lifecycle.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await syncUniqueId();
+ * ```
+ */
+export declare function syncUniqueId(): Promise<string>;
+/**
+ * Retrieves the instance ID information reported by the native platform.
+ * @example
+ * ```ts
+ * const result = await getInstanceId();
+ * ```
+ */
+export declare const getInstanceId: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getInstanceId}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getInstanceIdSync();
+ * ```
+ */
+export declare const getInstanceIdSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the serial number information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getSerialNumber();
+ * ```
+ */
+export declare const getSerialNumber: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getSerialNumber}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSerialNumberSync();
+ * ```
+ */
+export declare const getSerialNumberSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the Android ID information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getAndroidId();
+ * ```
+ */
+export declare const getAndroidId: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getAndroidId}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getAndroidIdSync();
+ * ```
+ */
+export declare const getAndroidIdSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the app set ID information reported by the native platform.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getAppSetId();
+ * ```
+ */
+export declare const getAppSetId: () => Promise<{
+    id: string;
+    scope: number;
+}>;
+/**
+ * Retrieves the IP address information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getIpAddress();
+ * ```
+ */
+export declare const getIpAddress: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getIpAddress}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getIpAddressSync();
+ * ```
+ */
+export declare const getIpAddressSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Returns true when at least one hardware camera is available on the device.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isCameraPresent();
+ * ```
+ */
+export declare const isCameraPresent: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isCameraPresent}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isCameraPresentSync();
+ * ```
+ */
+export declare const isCameraPresentSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Retrieves the WiFi MAC address on Android and returns a constant placeholder for other platforms.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getMacAddress();
+ * ```
+ */
+export declare function getMacAddress(): Promise<string>;
+/**
+ * Synchronous variant of {@link getMacAddress}.
+ *
+ * @example
+ * ```ts
+ * const result = getMacAddressSync();
+ * ```
+ */
+export declare function getMacAddressSync(): string;
+/**
+ * Retrieves the device ID information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getDeviceId();
+ * ```
+ */
+export declare const getDeviceId: () => string;
+/**
+ * Retrieves the manufacturer information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getManufacturer();
+ * ```
+ */
+export declare const getManufacturer: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getManufacturer}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getManufacturerSync();
+ * ```
+ */
+export declare const getManufacturerSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the model information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getModel();
+ * ```
+ */
+export declare const getModel: () => string;
+/**
+ * Retrieves the brand information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBrand();
+ * ```
+ */
+export declare const getBrand: () => string;
+/**
+ * Retrieves the system name information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSystemName();
+ * ```
+ */
+export declare const getSystemName: () => string;
+/**
+ * Retrieves the system version information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSystemVersion();
+ * ```
+ */
+export declare const getSystemVersion: () => string;
+/**
+ * Retrieves the build ID information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getBuildId();
+ * ```
+ */
+export declare const getBuildId: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getBuildId}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBuildIdSync();
+ * ```
+ */
+export declare const getBuildIdSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the API level information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getApiLevel();
+ * ```
+ */
+export declare const getApiLevel: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getApiLevel}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getApiLevelSync();
+ * ```
+ */
+export declare const getApiLevelSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the bundle ID information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBundleId();
+ * ```
+ */
+export declare const getBundleId: () => string;
+/**
+ * Retrieves the installer package name information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getInstallerPackageName();
+ * ```
+ */
+export declare const getInstallerPackageName: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getInstallerPackageName}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getInstallerPackageNameSync();
+ * ```
+ */
+export declare const getInstallerPackageNameSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the application name information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getApplicationName();
+ * ```
+ */
+export declare const getApplicationName: () => string;
+/**
+ * Retrieves the build number information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBuildNumber();
+ * ```
+ */
+export declare const getBuildNumber: () => string;
+/**
+ * Retrieves the version information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getVersion();
+ * ```
+ */
+export declare const getVersion: () => string;
+/**
+ * Retrieves the readable version information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getReadableVersion();
+ * ```
+ */
+export declare function getReadableVersion(): string;
+/**
+ * Retrieves the device name information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getDeviceName();
+ * ```
+ */
+export declare const getDeviceName: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getDeviceName}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getDeviceNameSync();
+ * ```
+ */
+export declare const getDeviceNameSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the used memory information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getUsedMemory();
+ * ```
+ */
+export declare const getUsedMemory: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getUsedMemory}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getUsedMemorySync();
+ * ```
+ */
+export declare const getUsedMemorySync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the user agent information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getUserAgent();
+ * ```
+ */
+export declare const getUserAgent: () => Promise<string>;
+/**
+ * Synchronous variant of {@link getUserAgent}.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getUserAgentSync();
+ * ```
+ */
+export declare const getUserAgentSync: () => string;
+/**
+ * Retrieves the font scale information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getFontScale();
+ * ```
+ */
+export declare const getFontScale: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getFontScale}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getFontScaleSync();
+ * ```
+ */
+export declare const getFontScaleSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the bootloader information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getBootloader();
+ * ```
+ */
+export declare const getBootloader: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getBootloader}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBootloaderSync();
+ * ```
+ */
+export declare const getBootloaderSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the device information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getDevice();
+ * ```
+ */
+export declare const getDevice: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getDevice}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getDeviceSync();
+ * ```
+ */
+export declare const getDeviceSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the display information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getDisplay();
+ * ```
+ */
+export declare const getDisplay: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getDisplay}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getDisplaySync();
+ * ```
+ */
+export declare const getDisplaySync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the fingerprint information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getFingerprint();
+ * ```
+ */
+export declare const getFingerprint: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getFingerprint}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getFingerprintSync();
+ * ```
+ */
+export declare const getFingerprintSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the hardware information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getHardware();
+ * ```
+ */
+export declare const getHardware: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getHardware}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getHardwareSync();
+ * ```
+ */
+export declare const getHardwareSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the host information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getHost();
+ * ```
+ */
+export declare const getHost: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getHost}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getHostSync();
+ * ```
+ */
+export declare const getHostSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the host names information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getHostNames();
+ * ```
+ */
+export declare const getHostNames: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link getHostNames}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getHostNamesSync();
+ * ```
+ */
+export declare const getHostNamesSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Retrieves the product information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getProduct();
+ * ```
+ */
+export declare const getProduct: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getProduct}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getProductSync();
+ * ```
+ */
+export declare const getProductSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the tags information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getTags();
+ * ```
+ */
+export declare const getTags: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getTags}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getTagsSync();
+ * ```
+ */
+export declare const getTagsSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the type information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getType();
+ * ```
+ */
+export declare const getType: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getType}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getTypeSync();
+ * ```
+ */
+export declare const getTypeSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the base OS information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getBaseOs();
+ * ```
+ */
+export declare const getBaseOs: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getBaseOs}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBaseOsSync();
+ * ```
+ */
+export declare const getBaseOsSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the preview SDK int information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getPreviewSdkInt();
+ * ```
+ */
+export declare const getPreviewSdkInt: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getPreviewSdkInt}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getPreviewSdkIntSync();
+ * ```
+ */
+export declare const getPreviewSdkIntSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the security patch information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getSecurityPatch();
+ * ```
+ */
+export declare const getSecurityPatch: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getSecurityPatch}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSecurityPatchSync();
+ * ```
+ */
+export declare const getSecurityPatchSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the codename information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getCodename();
+ * ```
+ */
+export declare const getCodename: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getCodename}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getCodenameSync();
+ * ```
+ */
+export declare const getCodenameSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the incremental information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getIncremental();
+ * ```
+ */
+export declare const getIncremental: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getIncremental}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getIncrementalSync();
+ * ```
+ */
+export declare const getIncrementalSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Returns true when the current runtime is an emulator or simulator.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isEmulator();
+ * ```
+ */
+export declare const isEmulator: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isEmulator}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isEmulatorSync();
+ * ```
+ */
+export declare const isEmulatorSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when the device is classified as a tablet by the native OS.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isTablet();
+ * ```
+ */
+export declare const isTablet: () => boolean;
+/**
+ * Returns true on Android devices that declare the low-RAM flag.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isLowRamDevice();
+ * ```
+ */
+export declare const isLowRamDevice: () => boolean;
+/**
+ * Returns true when Display Zoom is enabled on iOS.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isDisplayZoomed();
+ * ```
+ */
+export declare const isDisplayZoomed: () => boolean;
+/**
+ * Returns true when the user has configured any secure lock method such as a PIN or biometric.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isPinOrFingerprintSet();
+ * ```
+ */
+export declare const isPinOrFingerprintSet: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isPinOrFingerprintSet}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isPinOrFingerprintSetSync();
+ * ```
+ */
+export declare const isPinOrFingerprintSetSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Checks the current device against a curated list to determine if a screen notch is present.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = hasNotch();
+ * ```
+ */
+export declare function hasNotch(): boolean;
+/**
+ * Determines whether the iOS device ships with a Dynamic Island cutout.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = hasDynamicIsland();
+ * ```
+ */
+export declare function hasDynamicIsland(): boolean;
+/**
+ * Reports whether the device has GMS support.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await hasGms();
+ * ```
+ */
+export declare const hasGms: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link hasGms}.
+ *
+ * @example
+ * ```ts
+ * const result = hasGmsSync();
+ * ```
+ */
+export declare const hasGmsSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Reports whether the device has HMS support.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await hasHms();
+ * ```
+ */
+export declare const hasHms: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link hasHms}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = hasHmsSync();
+ * ```
+ */
+export declare const hasHmsSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Retrieves the first install time information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getFirstInstallTime();
+ * ```
+ */
+export declare const getFirstInstallTime: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getFirstInstallTime}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getFirstInstallTimeSync();
+ * ```
+ */
+export declare const getFirstInstallTimeSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the install referrer information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getInstallReferrer();
+ * ```
+ */
+export declare const getInstallReferrer: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getInstallReferrer}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getInstallReferrerSync();
+ * ```
+ */
+export declare const getInstallReferrerSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the last update time information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getLastUpdateTime();
+ * ```
+ */
+export declare const getLastUpdateTime: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getLastUpdateTime}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getLastUpdateTimeSync();
+ * ```
+ */
+export declare const getLastUpdateTimeSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the startup time information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getStartupTime();
+ * ```
+ */
+export declare const getStartupTime: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getStartupTime}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getStartupTimeSync();
+ * ```
+ */
+export declare const getStartupTimeSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the carrier information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getCarrier();
+ * ```
+ */
+export declare const getCarrier: import("./internal/privateTypes").Getter<Promise<string>>;
+/**
+ * Synchronous variant of {@link getCarrier}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getCarrierSync();
+ * ```
+ */
+export declare const getCarrierSync: import("./internal/privateTypes").Getter<string>;
+/**
+ * Retrieves the total memory information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getTotalMemory();
+ * ```
+ */
+export declare const getTotalMemory: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getTotalMemory}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getTotalMemorySync();
+ * ```
+ */
+export declare const getTotalMemorySync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the max memory information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getMaxMemory();
+ * ```
+ */
+export declare const getMaxMemory: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getMaxMemory}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getMaxMemorySync();
+ * ```
+ */
+export declare const getMaxMemorySync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the total disk capacity information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getTotalDiskCapacity();
+ * ```
+ */
+export declare const getTotalDiskCapacity: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getTotalDiskCapacity}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getTotalDiskCapacitySync();
+ * ```
+ */
+export declare const getTotalDiskCapacitySync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Backwards-compatible wrapper for the legacy total disk capacity calculation on Android.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getTotalDiskCapacityOld();
+ * ```
+ */
+export declare function getTotalDiskCapacityOld(): Promise<number>;
+/**
+ * Synchronous variant of {@link getTotalDiskCapacityOld}.
+ *
+ * @example
+ * ```ts
+ * const result = getTotalDiskCapacityOldSync();
+ * ```
+ */
+export declare function getTotalDiskCapacityOldSync(): number;
+/**
+ * Retrieves the free disk storage information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getFreeDiskStorage();
+ * ```
+ */
+export declare const getFreeDiskStorage: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getFreeDiskStorage}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getFreeDiskStorageSync();
+ * ```
+ */
+export declare const getFreeDiskStorageSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Backwards-compatible wrapper for the legacy free disk storage calculation on Android.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getFreeDiskStorageOld();
+ * ```
+ */
+export declare function getFreeDiskStorageOld(): Promise<number>;
+/**
+ * Synchronous variant of {@link getFreeDiskStorageOld}.
+ *
+ * @example
+ * ```ts
+ * const result = getFreeDiskStorageOldSync();
+ * ```
+ */
+export declare function getFreeDiskStorageOldSync(): number;
+/**
+ * Retrieves the battery level information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getBatteryLevel();
+ * ```
+ */
+export declare const getBatteryLevel: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getBatteryLevel}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBatteryLevelSync();
+ * ```
+ */
+export declare const getBatteryLevelSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the power state information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getPowerState();
+ * ```
+ */
+export declare const getPowerState: import("./internal/privateTypes").Getter<Promise<Partial<PowerState>>>;
+/**
+ * Synchronous variant of {@link getPowerState}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getPowerStateSync();
+ * ```
+ */
+export declare const getPowerStateSync: import("./internal/privateTypes").Getter<Partial<PowerState>>;
+/**
+ * Returns true while the device battery is actively charging.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isBatteryCharging();
+ * ```
+ */
+export declare const isBatteryCharging: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isBatteryCharging}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isBatteryChargingSync();
+ * ```
+ */
+export declare const isBatteryChargingSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Resolves to true when the current screen dimensions indicate landscape orientation.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isLandscape();
+ * ```
+ */
+export declare function isLandscape(): Promise<boolean>;
+/**
+ * Synchronous variant of {@link isLandscape}.
+ *
+ * @example
+ * ```ts
+ * const result = isLandscapeSync();
+ * ```
+ */
+export declare function isLandscapeSync(): boolean;
+/**
+ * Returns true when the platform reports airplane mode is enabled.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isAirplaneMode();
+ * ```
+ */
+export declare const isAirplaneMode: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isAirplaneMode}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isAirplaneModeSync();
+ * ```
+ */
+export declare const isAirplaneModeSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Retrieves the device type information reported by the native platform.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getDeviceType();
+ * ```
+ */
+export declare const getDeviceType: () => string;
+/**
+ * Synchronous variant of {@link getDeviceType}.
+ *
+ * @example
+ * ```ts
+ * const result = getDeviceTypeSync();
+ * ```
+ */
+export declare const getDeviceTypeSync: () => string;
+/**
+ * Lists the supported ABIs reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await supportedAbis();
+ * ```
+ */
+export declare const supportedAbis: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link supportedAbis}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = supportedAbisSync();
+ * ```
+ */
+export declare const supportedAbisSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Lists the supported 32 bit ABIs reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await supported32BitAbis();
+ * ```
+ */
+export declare const supported32BitAbis: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link supported32BitAbis}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = supported32BitAbisSync();
+ * ```
+ */
+export declare const supported32BitAbisSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Lists the supported 64 bit ABIs reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await supported64BitAbis();
+ * ```
+ */
+export declare const supported64BitAbis: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link supported64BitAbis}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = supported64BitAbisSync();
+ * ```
+ */
+export declare const supported64BitAbisSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Reports whether the requested Android system feature is available on the device.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const hasCamera = await hasSystemFeature('android.hardware.camera.any');
+ * ```
+ */
+export declare function hasSystemFeature(feature: string): Promise<boolean>;
+/**
+ * Synchronous variant of {@link hasSystemFeature}.
+ *
+ * @example
+ * ```ts
+ * const hasCamera = hasSystemFeatureSync('android.hardware.camera.any');
+ * ```
+ */
+export declare function hasSystemFeatureSync(feature: string): boolean;
+/**
+ * Helper that classifies a normalized battery level as "low" using platform-specific thresholds.
+ *
+ * @example
+ * ```ts
+ * const isLow = isLowBatteryLevel(0.12);
+ * ```
+ */
+export declare function isLowBatteryLevel(level: number): boolean;
+/**
+ * Retrieves the system available features information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getSystemAvailableFeatures();
+ * ```
+ */
+export declare const getSystemAvailableFeatures: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link getSystemAvailableFeatures}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSystemAvailableFeaturesSync();
+ * ```
+ */
+export declare const getSystemAvailableFeaturesSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Returns true when the system-wide location services switch is enabled.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isLocationEnabled();
+ * ```
+ */
+export declare const isLocationEnabled: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isLocationEnabled}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isLocationEnabledSync();
+ * ```
+ */
+export declare const isLocationEnabledSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when any headphones are connected to the device.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isHeadphonesConnected();
+ * ```
+ */
+export declare const isHeadphonesConnected: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isHeadphonesConnected}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isHeadphonesConnectedSync();
+ * ```
+ */
+export declare const isHeadphonesConnectedSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when wired headphones are detected.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isWiredHeadphonesConnected();
+ * ```
+ */
+export declare const isWiredHeadphonesConnected: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isWiredHeadphonesConnected}.
+ *
+ * @example
+ * ```ts
+ * const result = isWiredHeadphonesConnectedSync();
+ * ```
+ */
+export declare const isWiredHeadphonesConnectedSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when Bluetooth headphones are connected.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isBluetoothHeadphonesConnected();
+ * ```
+ */
+export declare const isBluetoothHeadphonesConnected: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isBluetoothHeadphonesConnected}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isBluetoothHeadphonesConnectedSync();
+ * ```
+ */
+export declare const isBluetoothHeadphonesConnectedSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when a pointing device is connected (Windows).
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isMouseConnected();
+ * ```
+ */
+export declare const isMouseConnected: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isMouseConnected}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isMouseConnectedSync();
+ * ```
+ */
+export declare const isMouseConnectedSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Returns true when a hardware keyboard is connected (Windows).
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isKeyboardConnected();
+ * ```
+ */
+export declare const isKeyboardConnected: import("./internal/privateTypes").Getter<Promise<boolean>>;
+/**
+ * Synchronous variant of {@link isKeyboardConnected}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = isKeyboardConnectedSync();
+ * ```
+ */
+export declare const isKeyboardConnectedSync: import("./internal/privateTypes").Getter<boolean>;
+/**
+ * Retrieves the supported media type list information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getSupportedMediaTypeList();
+ * ```
+ */
+export declare const getSupportedMediaTypeList: import("./internal/privateTypes").Getter<Promise<string[]>>;
+/**
+ * Synchronous variant of {@link getSupportedMediaTypeList}.
+ *
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getSupportedMediaTypeListSync();
+ * ```
+ */
+export declare const getSupportedMediaTypeListSync: import("./internal/privateTypes").Getter<string[]>;
+/**
+ * Returns true when Windows tablet mode is currently active.
+ *
+ *![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await isTabletMode();
+ * ```
+ */
+export declare const isTabletMode: () => Promise<boolean>;
+/**
+ * Retrieves the available location providers information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getAvailableLocationProviders();
+ * ```
+ */
+export declare const getAvailableLocationProviders: import("./internal/privateTypes").Getter<Promise<LocationProviderInfo>>;
+/**
+ * Synchronous variant of {@link getAvailableLocationProviders}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getAvailableLocationProvidersSync();
+ * ```
+ */
+export declare const getAvailableLocationProvidersSync: import("./internal/privateTypes").Getter<LocationProviderInfo>;
+/**
+ * Retrieves the brightness information reported by the native platform.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getBrightness();
+ * ```
+ */
+export declare const getBrightness: import("./internal/privateTypes").Getter<Promise<number>>;
+/**
+ * Synchronous variant of {@link getBrightness}.
+ *
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = getBrightnessSync();
+ * ```
+ */
+export declare const getBrightnessSync: import("./internal/privateTypes").Getter<number>;
+/**
+ * Retrieves the native APNS device token that can be used for remote push notifications on iOS.
+ *
+ *![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```ts
+ * const result = await getDeviceToken();
+ * ```
+ */
+export declare function getDeviceToken(): Promise<string>;
+/**
+ * React hook that streams battery level updates emitted by the native module.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function BatteryIndicator() {
+ *   const level = useBatteryLevel();
+ *   return <Text>{level ?? 'unknown'}%</Text>;
+ * }
+ * ```
+ */
+export declare function useBatteryLevel(): number | null;
+/**
+ * React hook that notifies when the battery crosses the low-level threshold.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io-badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function LowBatteryBanner() {
+ *   const level = useBatteryLevelIsLow();
+ *   if (level == null) {
+ *     return null;
+ *   }
+ *   return <Banner title={`Battery low (${Math.round(level * 100)}%)`} />;
+ * }
+ * ```
+ */
+export declare function useBatteryLevelIsLow(): number | null;
+/**
+ * React hook that subscribes to power state changes and returns a partial {@link PowerState}.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ✅](https://img.shields.io/badge/Web-%E2%9C%85-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function ChargingStatus() {
+ *   const powerState = usePowerState();
+ *   return <Text>{powerState.batteryState}</Text>;
+ * }
+ * ```
+ */
+export declare function usePowerState(): Partial<PowerState>;
+/**
+ * React hook that resolves to true whenever any headphones are connected.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function HeadphoneBadge() {
+ *   const { result: connected } = useIsHeadphonesConnected();
+ *   return connected ? <Badge text="Headphones" /> : null;
+ * }
+ * ```
+ */
+export declare function useIsHeadphonesConnected(): AsyncHookResult<boolean>;
+/**
+ * React hook that resolves to true whenever wired headphones are connected.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function WiredOnlyNotice() {
+ *   const { result } = useIsWiredHeadphonesConnected();
+ *   return result ? <Text>Wired audio active</Text> : null;
+ * }
+ * ```
+ */
+export declare function useIsWiredHeadphonesConnected(): AsyncHookResult<boolean>;
+/**
+ * React hook that resolves to true whenever Bluetooth headphones are connected.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function BluetoothAudioIndicator() {
+ *   const { result } = useIsBluetoothHeadphonesConnected();
+ *   return result ? <Icon name="bluetooth-audio" /> : null;
+ * }
+ * ```
+ */
+export declare function useIsBluetoothHeadphonesConnected(): AsyncHookResult<boolean>;
+/**
+ * React hook that exposes the app's first install timestamp once it is retrieved.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function InstallAge() {
+ *   const { result } = useFirstInstallTime();
+ *   return <Text>{new Date(result).toLocaleDateString()}</Text>;
+ * }
+ * ```
+ */
+export declare function useFirstInstallTime(): AsyncHookResult<number>;
+/**
+ * React hook that resolves with the human-readable device name when it becomes available.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function Greeting() {
+ *   const { result: name } = useDeviceName();
+ *   return <Text>Hello from {name}</Text>;
+ * }
+ * ```
+ */
+export declare function useDeviceName(): AsyncHookResult<string>;
+/**
+ * React hook that checks for an Android system feature and keeps the result cached.
+ *
+ * **Compatibility:** ![iOS ❌](https://img.shields.io/badge/iOS-%E2%9D%8C-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function FaceUnlockOnly() {
+ *   const { result } = useHasSystemFeature('android.hardware.biometrics.face');
+ *   return <Text>{result ? 'Face unlock supported' : 'Face unlock unavailable'}</Text>;
+ * }
+ * ```
+ */
+export declare function useHasSystemFeature(feature: string): AsyncHookResult<boolean>;
+/**
+ * React hook that resolves as soon as the emulator detection result is known.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function IsEmulatorCallout() {
+ *   const { result: emulator } = useIsEmulator();
+ *   return emulator ? <Text>Running on emulator</Text> : null;
+ * }
+ * ```
+ */
+export declare function useIsEmulator(): AsyncHookResult<boolean>;
+/**
+ * React hook that resolves to the device manufacturer string.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ✅](https://img.shields.io/badge/Android-%E2%9C%85-informational?labelColor=555555) ![Windows ✅](https://img.shields.io/badge/Windows-%E2%9C%85-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ✅](https://img.shields.io/badge/visionOS-%E2%9C%85-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function ManufacturerLine() {
+ *   const { result: manufacturer } = useManufacturer();
+ *   return <Text>Made by {manufacturer}</Text>;
+ * }
+ * ```
+ */
+export declare function useManufacturer(): AsyncHookResult<string>;
+/**
+ * React hook that subscribes to screen brightness updates on iOS.
+ *
+ * **Compatibility:** ![iOS ✅](https://img.shields.io/badge/iOS-%E2%9C%85-informational?labelColor=555555) ![Android ❌](https://img.shields.io/badge/Android-%E2%9D%8C-informational?labelColor=555555) ![Windows ❌](https://img.shields.io/badge/Windows-%E2%9D%8C-informational?labelColor=555555) ![Web ❌](https://img.shields.io/badge/Web-%E2%9D%8C-informational?labelColor=555555) ![visionOS ❌](https://img.shields.io/badge/visionOS-%E2%9D%8C-informational?labelColor=555555)
+ *
+ * @example
+ * ```tsx
+ * function BrightnessSlider() {
+ *   const brightness = useBrightness();
+ *   return <Slider value={brightness ?? 0} disabled />;
+ * }
+ * ```
+ */
+export declare function useBrightness(): number | null;
+export type { AsyncHookResult, DeviceType, LocationProviderInfo, PowerState, AppSetIdInfo };
+/**
+ * CommonJS-style namespace that aggregates every exported API from this module.
+ */
+export declare const DeviceInfo: DeviceInfoModule;
+export default DeviceInfo;
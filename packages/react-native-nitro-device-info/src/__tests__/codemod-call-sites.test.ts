@@ -0,0 +1,130 @@
+/**
+ * Stage 2 codemod tests.
+ *
+ * Applies `rewrite-call-sites` to each `call-sites-*.input.*` fixture and
+ * compares the result with the matching `*.output.*` fixture.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import jscodeshift from 'jscodeshift';
+import type { API, FileInfo } from 'jscodeshift';
+import transform, {
+  COMPAT_MODULE,
+  TODO_TAG,
+} from '../codemod/rewrite-call-sites';
+
+const FIXTURES_DIR = path.join(__dirname, '__testfixtures__');
+
+function buildApi(): API {
+  const j = jscodeshift.withParser('tsx');
+  return {
+    j,
+    jscodeshift: j,
+    stats: () => {},
+    report: () => {},
+  };
+}
+
+function apply(source: string, file = 'input.tsx'): string {
+  const fileInfo: FileInfo = { path: file, source };
+  const result = transform(fileInfo, buildApi(), {});
+  // Transform returns `undefined` when nothing changed.
+  return typeof result === 'string' ? result : source;
+}
+
+function readFixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+}
+
+const cases: Array<{ name: string; input: string; output: string }> = [
+  {
+    name: 'named imports',
+    input: 'call-sites-named.input.tsx',
+    output: 'call-sites-named.output.tsx',
+  },
+  {
+    name: 'default import',
+    input: 'call-sites-default.input.tsx',
+    output: 'call-sites-default.output.tsx',
+  },
+  {
+    name: 'partially convertible file',
+    input: 'call-sites-partial.input.tsx',
+    output: 'call-sites-partial.output.tsx',
+  },
+  {
+    name: 'hooks and an existing core import',
+    input: 'call-sites-hooks.input.tsx',
+    output: 'call-sites-hooks.output.tsx',
+  },
+  {
+    name: 'getter passed by reference',
+    input: 'call-sites-untouched.input.ts',
+    output: 'call-sites-untouched.output.ts',
+  },
+];
+
+describe('codemod: rewrite-call-sites', () => {
+  describe.each(cases)('$name', ({ input, output }) => {
+    it('matches the output fixture', () => {
+      const transformed = apply(readFixture(input), input).trim();
+      expect(transformed).toBe(readFixture(output).trim());
+    });
+
+    it('is idempotent', () => {
+      const once = apply(readFixture(input), input);
+      expect(apply(once, input)).toBe(once);
+    });
+  });
+
+  it('drops the await on values that are now synchronous', () => {
+    const transformed = apply(readFixture('call-sites-named.input.tsx'));
+
+    expect(transformed).toContain(
+      'const manufacturer = DeviceInfoModule.manufacturer;'
+    );
+    expect(transformed).not.toContain('await DeviceInfoModule.manufacturer');
+  });
+
+  it('keeps the await on native methods that still return a Promise', () => {
+    const transformed = apply(readFixture('call-sites-default.input.tsx'));
+
+    expect(transformed).toContain(
+      'const mac = await DeviceInfoModule.getMacAddress();'
+    );
+  });
+
+  it('keeps un-awaited promises as promises', () => {
+    const transformed = apply(readFixture('call-sites-named.input.tsx'));
+
+    expect(transformed).toContain(
+      'Promise.resolve(DeviceInfoModule.uniqueId).then(onId);'
+    );
+  });
+
+  it('marks unconvertible calls and keeps their compat import', () => {
+    const transformed = apply(readFixture('call-sites-partial.input.tsx'));
+
+    expect(transformed).toContain(
+      `// ${TODO_TAG}: getAvailableLocationProvidersSync`
+    );
+    expect(transformed).toContain(
+      'DeviceInfo.getAvailableLocationProvidersSync()'
+    );
+    expect(transformed).toContain(`from '${COMPAT_MODULE}'`);
+  });
+
+  it('removes the compat import once every call is converted', () => {
+    const transformed = apply(readFixture('call-sites-default.input.tsx'));
+
+    expect(transformed).not.toContain(COMPAT_MODULE);
+  });
+
+  it('ignores files without a compat import', () => {
+    const source = "import DeviceInfo from 'react-native-device-info';\n";
+    const fileInfo: FileInfo = { path: 'input.ts', source };
+
+    expect(transform(fileInfo, buildApi(), {})).toBeUndefined();
+  });
+});
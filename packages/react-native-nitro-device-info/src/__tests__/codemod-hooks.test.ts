@@ -0,0 +1,130 @@
+/**
+ * Hook codemod tests.
+ *
+ * Applies `rewrite-hooks` to each `hooks-*.input.*` fixture and compares the
+ * result with the matching `*.output.*` fixture.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import jscodeshift from 'jscodeshift';
+import type { API, FileInfo, Transform } from 'jscodeshift';
+import transform from '../codemod/rewrite-hooks';
+import rewriteCallSites, { TODO_TAG } from '../codemod/rewrite-call-sites';
+
+const FIXTURES_DIR = path.join(__dirname, '__testfixtures__');
+
+function buildApi(): API {
+  const j = jscodeshift.withParser('tsx');
+  return {
+    j,
+    jscodeshift: j,
+    stats: () => {},
+    report: () => {},
+  };
+}
+
+function apply(
+  source: string,
+  file = 'input.tsx',
+  run: Transform = transform
+): string {
+  const fileInfo: FileInfo = { path: file, source };
+  const result = run(fileInfo, buildApi(), {});
+  // Transform returns `undefined` when nothing changed.
+  return typeof result === 'string' ? result : source;
+}
+
+function readFixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+}
+
+const cases: Array<{ name: string; input: string; output: string }> = [
+  {
+    name: 'unwrappable usages',
+    input: 'hooks-unwrap.input.tsx',
+    output: 'hooks-unwrap.output.tsx',
+  },
+  {
+    name: 'usages left on the compat layer',
+    input: 'hooks-manual.input.tsx',
+    output: 'hooks-manual.output.tsx',
+  },
+];
+
+function countTodos(source: string): number {
+  return source.split(TODO_TAG).length - 1;
+}
+
+describe('codemod: rewrite-hooks', () => {
+  describe.each(cases)('$name', ({ input, output }) => {
+    it('matches the output fixture', () => {
+      const transformed = apply(readFixture(input), input).trim();
+      expect(transformed).toBe(readFixture(output).trim());
+    });
+
+    it('is idempotent', () => {
+      const once = apply(readFixture(input), input);
+      expect(apply(once, input)).toBe(once);
+    });
+  });
+
+  it('unwraps destructured results', () => {
+    const transformed = apply(
+      [
+        "import { useIsHeadphonesConnected } from 'react-native-nitro-device-info/compat';",
+        'const { result: connected } = useIsHeadphonesConnected();',
+      ].join('\n')
+    );
+
+    expect(transformed).toContain(
+      'const connected = useIsHeadphonesConnected();'
+    );
+    expect(transformed).toContain(
+      "import { useIsHeadphonesConnected } from 'react-native-nitro-device-info';"
+    );
+    expect(countTodos(transformed)).toBe(0);
+  });
+
+  it('marks loading reads, which are now always false', () => {
+    const transformed = apply(readFixture('hooks-unwrap.input.tsx'));
+
+    expect(transformed).toContain('const loading = false;');
+    expect(transformed).toContain(
+      `// ${TODO_TAG}: useIsHeadphonesConnected — the core hook has no loading state`
+    );
+  });
+
+  it('leaves every call of a hook alone when one cannot be unwrapped', () => {
+    const transformed = apply(
+      [
+        "import { useIsHeadphonesConnected } from 'react-native-nitro-device-info/compat';",
+        'const { result } = useIsHeadphonesConnected();',
+        'const state = useIsHeadphonesConnected();',
+        'report(state);',
+      ].join('\n')
+    );
+
+    expect(transformed).toContain(
+      'const { result } = useIsHeadphonesConnected();'
+    );
+    expect(transformed).not.toContain("from 'react-native-nitro-device-info';");
+    expect(countTodos(transformed)).toBe(2);
+  });
+
+  it('adds each marker once when followed by rewrite-call-sites', () => {
+    const hooks = apply(readFixture('hooks-manual.input.tsx'));
+    const both = apply(hooks, 'input.tsx', rewriteCallSites);
+
+    expect(countTodos(both)).toBe(countTodos(hooks));
+    expect(both).toContain('DeviceInfoModule.model');
+  });
+
+  it('ignores files without a compat import', () => {
+    const source =
+      "import { useBatteryLevel } from 'react-native-nitro-device-info';\n";
+    const fileInfo: FileInfo = { path: 'input.ts', source };
+
+    expect(transform(fileInfo, buildApi(), {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Compat conformance tests generated from RNDI's type declarations.
+ *
+ * Reads the vendored `react-native-device-info` `index.d.ts` and, for every
+ * exported function, checks that `compat/index.ts` exports the same name with
+ * a compatible arity and the same sync / async / hook-result shape. Updating
+ * the vendored file to a newer RNDI release fails this suite until the new
+ * APIs are mirrored.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+const PACKAGE_ROOT = path.resolve(__dirname, '../..');
+const RNDI_TYPES = path.join(
+  __dirname,
+  '__vendor__/react-native-device-info/index.d.ts'
+);
+const COMPAT_ENTRY = path.join(PACKAGE_ROOT, 'src/compat/index.ts');
+
+type Shape = 'promise' | 'hook-result' | 'value';
+
+interface FunctionSignature {
+  name: string;
+  /** Arguments a caller must pass */
+  required: number;
+  /** Arguments a caller may pass; `Infinity` for rest parameters */
+  max: number;
+  shape: Shape;
+}
+
+function shapeOf(typeName: string | undefined): Shape {
+  if (typeName === 'Promise') {
+    return 'promise';
+  }
+  return typeName === 'AsyncHookResult' ? 'hook-result' : 'value';
+}
+
+function arityOf(
+  parameters: readonly ts.ParameterDeclaration[]
+): Pick<FunctionSignature, 'required' | 'max'> {
+  let required = 0;
+  let max = 0;
+  for (const parameter of parameters) {
+    if (parameter.dotDotDotToken) {
+      max = Infinity;
+      continue;
+    }
+    max += 1;
+    if (!parameter.questionToken && !parameter.initializer) {
+      required += 1;
+    }
+  }
+  return { required, max };
+}
+
+function typeNameOf(node: ts.TypeNode | undefined): string | undefined {
+  return node && ts.isTypeReferenceNode(node)
+    ? node.typeName.getText()
+    : undefined;
+}
+
+/**
+ * Exported functions of the vendored declaration file, read syntactically.
+ * RNDI's `Getter<T>` is `(...args: any[]) => T`: callers pass no arguments.
+ */
+function readRndiFunctions(): FunctionSignature[] {
+  const source = ts.createSourceFile(
+    RNDI_TYPES,
+    fs.readFileSync(RNDI_TYPES, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const functions: FunctionSignature[] = [];
+
+  for (const statement of source.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      functions.push({
+        name: statement.name.text,
+        ...arityOf(statement.parameters),
+        shape: shapeOf(typeNameOf(statement.type)),
+      });
+      continue;
+    }
+    if (!ts.isVariableStatement(statement)) {
+      continue;
+    }
+    for (const declaration of statement.declarationList.declarations) {
+      const { name, type } = declaration;
+      if (!ts.isIdentifier(name) || !type) {
+        continue;
+      }
+      if (ts.isFunctionTypeNode(type)) {
+        functions.push({
+          name: name.text,
+          ...arityOf(type.parameters),
+          shape: shapeOf(typeNameOf(type.type)),
+        });
+      } else if (
+        ts.isImportTypeNode(type) &&
+        type.qualifier?.getText() === 'Getter'
+      ) {
+        functions.push({
+          name: name.text,
+          required: 0,
+          max: 0,
+          shape: shapeOf(typeNameOf(type.typeArguments?.[0])),
+        });
+      }
+    }
+  }
+  return functions;
+}
+
+/**
+ * Exported functions of the compat entry point, resolved by the type checker
+ * so wrapped getters report the signature of what they wrap.
+ */
+function readCompatFunctions(): Map<string, FunctionSignature> {
+  const config = ts.getParsedCommandLineOfConfigFile(
+    path.join(PACKAGE_ROOT, 'tsconfig.json'),
+    {},
+    { ...ts.sys, onUnRecoverableConfigFileDiagnostic: () => {} }
+  );
+  const program = ts.createProgram([COMPAT_ENTRY], config?.options ?? {});
+  const checker = program.getTypeChecker();
+  const moduleSymbol = checker.getSymbolAtLocation(
+    program.getSourceFile(COMPAT_ENTRY)!
+  )!;
+  const functions = new Map<string, FunctionSignature>();
+
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    const [signature] = checker.getTypeOfSymbol(symbol).getCallSignatures();
+    if (!signature) {
+      continue;
+    }
+    const parameters = signature.parameters.map(
+      parameter => parameter.valueDeclaration as ts.ParameterDeclaration
+    );
+    functions.set(symbol.name, {
+      name: symbol.name,
+      ...arityOf(parameters),
+      shape: shapeOf(signature.getReturnType().getSymbol()?.getName()),
+    });
+  }
+  return functions;
+}
+
+const rndiFunctions = readRndiFunctions();
+let compatFunctions: Map<string, FunctionSignature>;
+
+beforeAll(() => {
+  compatFunctions = readCompatFunctions();
+  // Creating the program loads the React Native typings
+}, 60_000);
+
+describe('compat parity with react-native-device-info 15.x', () => {
+  it('reads the vendored declarations', () => {
+    expect(rndiFunctions.length).toBeGreaterThan(150);
+  });
+
+  describe.each(rndiFunctions)('$name', rndi => {
+    it('is exported by the compat layer', () => {
+      expect(compatFunctions.has(rndi.name)).toBe(true);
+    });
+
+    it('accepts the same arguments', () => {
+      const compat = compatFunctions.get(rndi.name);
+      expect(compat).toBeDefined();
+      // Every call that type-checks against RNDI must also work on compat
+      expect(compat!.required).toBeLessThanOrEqual(rndi.required);
+      expect(compat!.max).toBeGreaterThanOrEqual(rndi.max);
+    });
+
+    it(`returns ${rndi.shape === 'value' ? 'a bare value' : `a ${rndi.shape}`}`, () => {
+      expect(compatFunctions.get(rndi.name)?.shape).toBe(rndi.shape);
+    });
+  });
+});
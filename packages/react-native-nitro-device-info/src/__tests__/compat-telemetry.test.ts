@@ -0,0 +1,98 @@
+/**
+ * Compat usage telemetry tests.
+ *
+ * Calls compat exports through both the named and default-object shapes and
+ * checks what the report records.
+ */
+
+import DeviceInfo, {
+  disableCompatTelemetry,
+  enableCompatTelemetry,
+  formatCompatUsageReport,
+  getCompatUsageReport,
+  getModel,
+  getUniqueId,
+  hasSystemFeatureSync,
+  resetCompatTelemetry,
+} from '../compat';
+
+afterEach(() => {
+  disableCompatTelemetry();
+  resetCompatTelemetry();
+});
+
+describe('compat telemetry', () => {
+  it('records nothing until enabled', () => {
+    getModel();
+
+    expect(getCompatUsageReport()).toEqual({
+      enabled: false,
+      since: null,
+      totalCalls: 0,
+      exports: [],
+    });
+  });
+
+  it('counts calls per export, most-called first', async () => {
+    enableCompatTelemetry();
+
+    getModel();
+    DeviceInfo.getModel();
+    await getUniqueId();
+    hasSystemFeatureSync('android.hardware.camera');
+
+    const report = getCompatUsageReport();
+    expect(report.totalCalls).toBe(4);
+    expect(report.exports.map(entry => [entry.name, entry.calls])).toEqual([
+      ['getModel', 2],
+      ['getUniqueId', 1],
+      ['hasSystemFeatureSync', 1],
+    ]);
+  });
+
+  it('keeps the wrapped values and arguments unchanged', async () => {
+    enableCompatTelemetry();
+
+    expect(getModel()).toBe('iPhone 13 Pro');
+    await expect(getUniqueId()).resolves.toBe(
+      'FCDBD8EF-62FC-4ECB-B2F5-92C9E79AC7F9'
+    );
+  });
+
+  it('keeps counts after disabling', () => {
+    enableCompatTelemetry();
+    getModel();
+    disableCompatTelemetry();
+    getModel();
+
+    const report = getCompatUsageReport();
+    expect(report.enabled).toBe(false);
+    expect(report.exports[0]).toMatchObject({ name: 'getModel', calls: 1 });
+  });
+
+  describe('formatCompatUsageReport', () => {
+    it('says when telemetry never ran', () => {
+      expect(formatCompatUsageReport(getCompatUsageReport())).toBe(
+        'Compat telemetry was never enabled.'
+      );
+    });
+
+    it('says when the compat import is unused', () => {
+      enableCompatTelemetry();
+
+      expect(formatCompatUsageReport(getCompatUsageReport())).toContain(
+        'can be removed'
+      );
+    });
+
+    it('lists the exports still called', () => {
+      enableCompatTelemetry();
+      getModel();
+      getModel();
+
+      const text = formatCompatUsageReport(getCompatUsageReport());
+      expect(text).toContain('1 compat export(s) still called (2 call(s)');
+      expect(text).toMatch(/getModel\s+2/);
+    });
+  });
+});
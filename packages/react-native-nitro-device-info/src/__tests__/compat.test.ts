@@ -98,14 +98,17 @@ describe('compat: location providers transform array -> map', () => {
   });
 });
 
-describe('compat: getFreeDiskStorage accepts and ignores storageType', () => {
-  it('async variant does not throw with an argument', async () => {
+describe('compat: getFreeDiskStorage storageType', () => {
+  it('async variant reads the requested bucket', async () => {
     await expect(compat.getFreeDiskStorage('important')).resolves.toBe(
-      51539607552
+      64424509440
+    );
+    await expect(compat.getFreeDiskStorage('opportunistic')).resolves.toBe(
+      42949672960
     );
   });
 
-  it('sync variant does not throw with an argument', () => {
+  it('sync variant accepts and ignores the argument', () => {
     expect(compat.getFreeDiskStorageSync('opportunistic')).toBe(51539607552);
   });
 
@@ -115,6 +118,26 @@ describe('compat: getFreeDiskStorage accepts and ignores storageType', () => {
   });
 });
 
+describe('compat: getUserAgentSync', () => {
+  const fake = (
+    global as unknown as { __FAKE_DEVICE_INFO__: Record<string, unknown> }
+  ).__FAKE_DEVICE_INFO__;
+
+  it('returns the cached core user agent', () => {
+    expect(compat.getUserAgentSync()).toBe('Mozilla/5.0 (compat-test)');
+  });
+
+  it('returns an empty string while the cache is cold', () => {
+    const original = fake.userAgent;
+    fake.userAgent = '';
+    try {
+      expect(compat.getUserAgentSync()).toBe('');
+    } finally {
+      fake.userAgent = original;
+    }
+  });
+});
+
 describe('compat: documented stubs', () => {
   it('getInstanceId / getInstanceIdSync return "unknown"', async () => {
     await expect(compat.getInstanceId()).resolves.toBe('unknown');
@@ -128,10 +151,6 @@ describe('compat: documented stubs', () => {
     });
   });
 
-  it('getUserAgentSync returns empty placeholder', () => {
-    expect(compat.getUserAgentSync()).toBe('');
-  });
-
   it('getInstallReferrerSync returns "unknown" placeholder', () => {
     expect(compat.getInstallReferrerSync()).toBe('unknown');
   });
@@ -0,0 +1,241 @@
+/**
+ * Device state change subscription tests.
+ *
+ * The native `addListener` / `removeListener` pair is replaced with a recorder
+ * on the `jest.setup.js` fake so native events can be fired by hand.
+ */
+
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import { subscribe, readChannel } from '../events';
+
+type NativeCallback = () => void;
+
+interface FakeNative {
+  addListener: jest.Mock<number, [string, NativeCallback]>;
+  removeListener: jest.Mock<void, [number]>;
+  getPowerState: () => unknown;
+}
+
+const fake = (global as unknown as { __FAKE_DEVICE_INFO__: FakeNative })
+  .__FAKE_DEVICE_INFO__;
+
+const originalAddListener = fake.addListener;
+const originalRemoveListener = fake.removeListener;
+const originalGetPowerState = fake.getPowerState;
+
+let nativeCallbacks: Map<number, { channel: string; onChange: NativeCallback }>;
+
+const addAppStateListener = AppState.addEventListener as unknown as jest.Mock;
+
+function changeAppState(state: AppStateStatus): void {
+  const calls = addAppStateListener.mock.calls;
+  const handler = calls[calls.length - 1]?.[1] as (
+    next: AppStateStatus
+  ) => void;
+  handler(state);
+}
+
+function fireNative(channel: string): void {
+  for (const entry of nativeCallbacks.values()) {
+    if (entry.channel === channel) {
+      entry.onChange();
+    }
+  }
+}
+
+beforeEach(() => {
+  nativeCallbacks = new Map();
+  let nextId = 0;
+  fake.addListener = jest.fn((channel: string, onChange: NativeCallback) => {
+    const id = nextId++;
+    nativeCallbacks.set(id, { channel, onChange });
+    return id;
+  });
+  fake.removeListener = jest.fn((id: number) => {
+    nativeCallbacks.delete(id);
+  });
+});
+
+afterEach(() => {
+  fake.addListener = originalAddListener;
+  fake.removeListener = originalRemoveListener;
+  fake.getPowerState = originalGetPowerState;
+});
+
+describe('events: subscribe', () => {
+  it('registers one native listener per channel regardless of subscriber count', () => {
+    const unsubscribers = [
+      subscribe('battery', () => {}),
+      subscribe('battery', () => {}),
+      subscribe('battery', () => {}),
+    ];
+
+    expect(fake.addListener).toHaveBeenCalledTimes(1);
+    expect(fake.addListener).toHaveBeenCalledWith(
+      'battery',
+      expect.any(Function)
+    );
+
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+  });
+
+  it('reads the value once per native event and fans it out', () => {
+    const getPowerState = jest.fn(() => ({
+      batteryLevel: 0.5,
+      batteryState: 'unplugged',
+      lowPowerMode: false,
+    }));
+    fake.getPowerState = getPowerState;
+
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = subscribe('battery', first);
+    const unsubscribeSecond = subscribe('battery', second);
+
+    fireNative('battery');
+
+    expect(getPowerState).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(
+      expect.objectContaining({ batteryLevel: 0.5 })
+    );
+    expect(second).toHaveBeenCalledWith(first.mock.calls[0]?.[0]);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+  });
+
+  it('removes the native listener only when the last subscriber leaves', () => {
+    const unsubscribeFirst = subscribe('headphones', () => {});
+    const unsubscribeSecond = subscribe('headphones', () => {});
+
+    unsubscribeFirst();
+    expect(fake.removeListener).not.toHaveBeenCalled();
+
+    unsubscribeSecond();
+    expect(fake.removeListener).toHaveBeenCalledTimes(1);
+    expect(nativeCallbacks.size).toBe(0);
+  });
+
+  it('treats repeated unsubscribe calls as a no-op', () => {
+    const keep = subscribe('brightness', () => {});
+    const drop = subscribe('brightness', () => {});
+
+    drop();
+    drop();
+    expect(fake.removeListener).not.toHaveBeenCalled();
+
+    keep();
+    expect(fake.removeListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-registers natively after a channel was fully released', () => {
+    subscribe('battery', () => {})();
+    subscribe('battery', () => {})();
+
+    expect(fake.addListener).toHaveBeenCalledTimes(2);
+    expect(fake.removeListener).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps channels independent', () => {
+    const onBattery = jest.fn();
+    const onHeadphones = jest.fn();
+    const unsubscribeBattery = subscribe('battery', onBattery);
+    const unsubscribeHeadphones = subscribe('headphones', onHeadphones);
+
+    fireNative('headphones');
+
+    expect(onBattery).not.toHaveBeenCalled();
+    expect(onHeadphones).toHaveBeenCalledWith({
+      wired: false,
+      bluetooth: true,
+    });
+
+    unsubscribeBattery();
+    unsubscribeHeadphones();
+  });
+});
+
+describe('events: AppState', () => {
+  it('releases the native listener while every subscriber is paused', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('battery', listener, {
+      pauseInBackground: true,
+    });
+
+    changeAppState('background');
+    expect(fake.removeListener).toHaveBeenCalledTimes(1);
+    expect(nativeCallbacks.size).toBe(0);
+
+    changeAppState('active');
+    expect(fake.addListener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    fireNative('battery');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+  });
+
+  it('keeps delivering to subscribers that do not pause', () => {
+    const paused = jest.fn();
+    const live = jest.fn();
+    const unsubscribePaused = subscribe('headphones', paused, {
+      pauseInBackground: true,
+    });
+    const unsubscribeLive = subscribe('headphones', live);
+
+    changeAppState('background');
+    fireNative('headphones');
+
+    expect(fake.removeListener).not.toHaveBeenCalled();
+    expect(live).toHaveBeenCalledTimes(1);
+    expect(paused).not.toHaveBeenCalled();
+
+    changeAppState('active');
+    expect(paused).toHaveBeenCalledTimes(1);
+    expect(live).toHaveBeenCalledTimes(1);
+
+    unsubscribePaused();
+    unsubscribeLive();
+  });
+
+  it('ignores the transient inactive state', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribe('brightness', listener, {
+      pauseInBackground: true,
+    });
+
+    changeAppState('inactive');
+    fireNative('brightness');
+
+    expect(fake.removeListener).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+  });
+
+  it('releases the AppState listener with the last pausing subscriber', () => {
+    const unsubscribe = subscribe('battery', () => {}, {
+      pauseInBackground: true,
+    });
+    const calls = addAppStateListener.mock.calls;
+    const subscription = addAppStateListener.mock.results[calls.length - 1]
+      ?.value as { remove: jest.Mock };
+
+    unsubscribe();
+    expect(subscription.remove).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('events: readChannel', () => {
+  it('reads the current value without registering a native listener', () => {
+    expect(readChannel('brightness')).toBe(0.8);
+    expect(readChannel('headphones')).toEqual({
+      wired: false,
+      bluetooth: true,
+    });
+    expect(readChannel('network')).toEqual({ airplaneMode: false });
+    expect(fake.addListener).not.toHaveBeenCalled();
+  });
+});
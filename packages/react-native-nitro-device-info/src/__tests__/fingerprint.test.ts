@@ -0,0 +1,123 @@
+/**
+ * Device fingerprint builder tests.
+ *
+ * The hash function is an identity so the canonical input can be inspected.
+ */
+
+import { buildDeviceFingerprint, SIGNAL_VOLATILITY } from '../fingerprint';
+
+const identity = (input: string) => input;
+
+function hashedSignals(hash: string): Array<[string, unknown]> {
+  const [, json] = hash.split('\u0000');
+  return JSON.parse(json!) as Array<[string, unknown]>;
+}
+
+describe('fingerprint: buildDeviceFingerprint', () => {
+  it('hashes the salted, sorted signal values', async () => {
+    const fingerprint = await buildDeviceFingerprint({
+      signals: ['totalMemory', 'model'],
+      hash: identity,
+      salt: 'com.example.app',
+    });
+
+    expect(fingerprint.hash.startsWith('com.example.app\u0000')).toBe(true);
+    expect(hashedSignals(fingerprint.hash)).toEqual([
+      ['model', 'iPhone 13 Pro'],
+      ['totalMemory', 6442450944],
+    ]);
+  });
+
+  it('does not depend on signal order', async () => {
+    const a = await buildDeviceFingerprint({
+      signals: ['model', 'fontScale', 'systemLanguage'],
+      hash: identity,
+    });
+    const b = await buildDeviceFingerprint({
+      signals: ['systemLanguage', 'model', 'fontScale'],
+      hash: identity,
+    });
+
+    expect(a.hash).toBe(b.hash);
+  });
+
+  it('accepts an async hash function', async () => {
+    const hash = jest.fn(async (input: string) => `sha:${input.length}`);
+    const fingerprint = await buildDeviceFingerprint({
+      signals: ['deviceId'],
+      hash,
+    });
+
+    expect(hash).toHaveBeenCalledTimes(1);
+    expect(fingerprint.hash).toMatch(/^sha:\d+$/);
+  });
+
+  it('reports per-signal and combined volatility', async () => {
+    const fingerprint = await buildDeviceFingerprint({
+      signals: ['model', 'systemVersion', 'fontScale'],
+      hash: identity,
+    });
+
+    expect(fingerprint.signals).toEqual([
+      { signal: 'model', volatility: 0, available: true },
+      {
+        signal: 'systemVersion',
+        volatility: SIGNAL_VOLATILITY.systemVersion,
+        available: true,
+      },
+      {
+        signal: 'fontScale',
+        volatility: SIGNAL_VOLATILITY.fontScale,
+        available: true,
+      },
+    ]);
+    expect(fingerprint.volatility).toBeCloseTo(
+      1 -
+        (1 - SIGNAL_VOLATILITY.systemVersion) *
+          (1 - SIGNAL_VOLATILITY.fontScale)
+    );
+  });
+
+  it('never reads signals marked as PII', async () => {
+    const fingerprint = await buildDeviceFingerprint({
+      signals: ['model', 'systemLanguage'],
+      pii: ['systemLanguage'],
+      hash: identity,
+    });
+
+    expect(fingerprint.excluded).toEqual(['systemLanguage']);
+    expect(fingerprint.hash).not.toContain('en-US');
+  });
+
+  it('drops signals above the volatility tolerance', async () => {
+    const fingerprint = await buildDeviceFingerprint({
+      maxVolatility: 0.1,
+      hash: identity,
+    });
+
+    expect(fingerprint.excluded.sort()).toEqual(
+      ['fontScale', 'hostNames', 'systemLanguage', 'systemVersion'].sort()
+    );
+    expect(
+      fingerprint.signals.every(({ volatility }) => volatility <= 0.1)
+    ).toBe(true);
+  });
+
+  it('skips placeholder signals instead of hashing them', async () => {
+    const fingerprint = await buildDeviceFingerprint({
+      signals: ['model', 'hostNames'],
+      hash: identity,
+    });
+
+    expect(fingerprint.signals).toContainEqual({
+      signal: 'hostNames',
+      volatility: SIGNAL_VOLATILITY.hostNames,
+      available: false,
+    });
+    expect(hashedSignals(fingerprint.hash)).toEqual([
+      ['model', 'iPhone 13 Pro'],
+    ]);
+    // Unavailable signals cannot drift
+    expect(fingerprint.volatility).toBe(0);
+  });
+});
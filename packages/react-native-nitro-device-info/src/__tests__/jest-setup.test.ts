@@ -0,0 +1,83 @@
+/**
+ * Jest setup entry tests.
+ *
+ * Loading `testing/jest` replaces the `jest.setup.js` mock of
+ * `react-native-nitro-modules` with the registry-backed one, as it would in an
+ * app's `setupFilesAfterEnv`. Test order matters: the reset test relies on
+ * the override made by the test before it. The published `./jest` exports of
+ * both packages are checked against the setup files and the documented
+ * `transformIgnorePatterns`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import '../testing/jest';
+import { NitroModules } from 'react-native-nitro-modules';
+import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import { getMockDeviceInfo, mockDeviceInfo } from '../testing';
+
+describe('jest setup', () => {
+  it('installs the default test device', () => {
+    expect(DeviceInfoModule.deviceId).toBe('iPhone16,1');
+    expect(DeviceInfoModule.systemName).toBe('iOS');
+  });
+
+  it('switches the installed device per test', () => {
+    const onBattery = jest.fn();
+    const unsubscribe = subscribe('battery', onBattery);
+
+    const device = mockDeviceInfo('pixel8', { getFontScale: 1.3 });
+
+    expect(device).toBe(getMockDeviceInfo());
+    expect(DeviceInfoModule.systemName).toBe('Android');
+    expect(DeviceInfoModule.getFontScale()).toBe(1.3);
+    expect(onBattery).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('resets the device after each test', () => {
+    expect(DeviceInfoModule.systemName).toBe('iOS');
+    expect(DeviceInfoModule.getFontScale()).toBe(1);
+  });
+
+  it('reports HybridObjects without a registered double', () => {
+    expect(() => NitroModules.createHybridObject('Unknown')).toThrow(
+      'No test double for the "Unknown" HybridObject'
+    );
+  });
+});
+
+describe.each([
+  'react-native-nitro-device-info',
+  'react-native-nitro-device-integrity',
+])('published jest entry of %s', packageName => {
+  const PACKAGE_ROOT = path.resolve(__dirname, '../../..', packageName);
+  // The pattern the testing guide tells apps to use
+  const DOCUMENTED_TRANSFORM_IGNORE =
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|react-native-nitro-device-(info|integrity))/)';
+
+  const entry: Record<'source' | 'types' | 'default', string> = JSON.parse(
+    fs.readFileSync(path.join(PACKAGE_ROOT, 'package.json'), 'utf8')
+  ).exports['./jest'];
+
+  it('resolves ./jest to the module build of the setup file', () => {
+    expect(entry.source).toBe('./src/testing/jest.ts');
+    expect(fs.existsSync(path.join(PACKAGE_ROOT, entry.source))).toBe(true);
+    expect(entry.default).toBe('./lib/module/testing/jest.js');
+    expect(entry.types).toBe('./lib/typescript/src/testing/jest.d.ts');
+  });
+
+  it('needs the documented transformIgnorePatterns to be transformed', () => {
+    const installed = path.join(
+      '/app/node_modules',
+      packageName,
+      entry.default
+    );
+    const [presetPattern] = require('@react-native/jest-preset')
+      .transformIgnorePatterns as string[];
+
+    expect(new RegExp(presetPattern).test(installed)).toBe(true);
+    expect(new RegExp(DOCUMENTED_TRANSFORM_IGNORE).test(installed)).toBe(false);
+  });
+});
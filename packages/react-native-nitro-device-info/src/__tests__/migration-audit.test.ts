@@ -0,0 +1,198 @@
+/**
+ * Migration audit tests.
+ *
+ * Audits in-memory sources and checks that the classification tables stay in
+ * sync with what the compat layer actually exports.
+ */
+
+import jscodeshift from 'jscodeshift';
+import * as compat from '../compat';
+import * as telemetry from '../compat/telemetry';
+import {
+  auditSource,
+  buildAuditReport,
+  classifyApi,
+  formatAuditMarkdown,
+  SEMANTICS_DIFFER,
+  STUBBED_APIS,
+} from '../codemod/migration-audit';
+
+const j = jscodeshift.withParser('tsx');
+
+function audit(source: string, file = 'App.tsx') {
+  return auditSource(j, source, file);
+}
+
+describe('codemod: migration-audit', () => {
+  describe('classifyApi', () => {
+    it.each(Object.keys(STUBBED_APIS))('%s is stubbed', api => {
+      expect(classifyApi(api).support).toBe('stubbed');
+    });
+
+    it('flags the ignored storageType argument only when passed', () => {
+      expect(classifyApi('getFreeDiskStorageSync', 1).support).toBe('differs');
+      expect(classifyApi('getFreeDiskStorageSync', 0).support).toBe(
+        'supported'
+      );
+      expect(classifyApi('getFreeDiskStorage', 1).support).toBe('supported');
+    });
+
+    it('reports APIs the compat layer does not export', () => {
+      expect(classifyApi('getSomethingNew').support).toBe('missing');
+    });
+
+    it('knows every compat export', () => {
+      const missing = Object.keys(compat)
+        // The default object, its named alias and the telemetry controls are
+        // not RNDI APIs
+        .filter(name => name !== 'default' && name !== 'DeviceInfo')
+        .filter(name => !(name in telemetry))
+        .filter(name => classifyApi(name).support === 'missing');
+
+      expect(missing).toEqual([]);
+    });
+
+    it('only lists compat exports as stubbed or differing', () => {
+      for (const api of [
+        ...Object.keys(STUBBED_APIS),
+        ...Object.keys(SEMANTICS_DIFFER),
+      ]) {
+        expect(compat).toHaveProperty(api);
+      }
+    });
+  });
+
+  describe('auditSource', () => {
+    it('records named imports with their line', () => {
+      const entries = audit(
+        [
+          "import { getModel, getFreeDiskStorageSync as free } from 'react-native-device-info';",
+          'const model = getModel();',
+          "const bytes = free('important');",
+        ].join('\n')
+      );
+
+      expect(entries).toEqual([
+        {
+          api: 'getModel',
+          file: 'App.tsx',
+          line: 2,
+          support: 'supported',
+        },
+        {
+          api: 'getFreeDiskStorageSync',
+          file: 'App.tsx',
+          line: 3,
+          support: 'differs',
+          note: SEMANTICS_DIFFER.getFreeDiskStorageSync?.note,
+        },
+      ]);
+    });
+
+    it('records member access on default, namespace and require objects', () => {
+      const entries = audit(
+        [
+          "import DeviceInfo from 'react-native-device-info';",
+          "import * as RNDI from 'react-native-nitro-device-info/compat';",
+          "const Legacy = require('react-native-device-info');",
+          'DeviceInfo.getInstanceIdSync();',
+          'RNDI.isTablet();',
+          'Legacy.getUserAgentSync();',
+        ].join('\n')
+      );
+
+      expect(entries.map(entry => [entry.api, entry.support])).toEqual([
+        ['getInstanceIdSync', 'stubbed'],
+        ['isTablet', 'supported'],
+        ['getUserAgentSync', 'differs'],
+      ]);
+    });
+
+    it('records destructured require() bindings and references', () => {
+      const entries = audit(
+        [
+          "const { getAppSetId } = require('react-native-device-info');",
+          'Promise.resolve().then(getAppSetId);',
+        ].join('\n')
+      );
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ api: 'getAppSetId', line: 2 });
+    });
+
+    it('ignores other modules, compat-only controls and look-alike property names', () => {
+      const entries = audit(
+        [
+          "import { getModel } from 'some-other-lib';",
+          "import { isTablet, type PowerState } from 'react-native-device-info';",
+          'let state: PowerState | undefined;',
+          'const flags = { isTablet: false };',
+          'config.isTablet = true;',
+          "import { enableCompatTelemetry } from 'react-native-nitro-device-info/compat';",
+          'getModel();',
+          'enableCompatTelemetry();',
+        ].join('\n')
+      );
+
+      expect(entries).toEqual([]);
+    });
+  });
+
+  describe('buildAuditReport', () => {
+    it('counts each class and scores the supported share', () => {
+      const report = buildAuditReport([
+        ...audit(
+          [
+            "import DeviceInfo from 'react-native-device-info';",
+            'DeviceInfo.getModel();',
+            'DeviceInfo.getBrand();',
+            'DeviceInfo.getInstanceIdSync();',
+          ].join('\n'),
+          'b.ts'
+        ),
+        ...audit(
+          [
+            "import { getFreeDiskStorageSync } from 'react-native-device-info';",
+            "getFreeDiskStorageSync('total');",
+          ].join('\n'),
+          'a.ts'
+        ),
+      ]);
+
+      expect(report.summary).toEqual({
+        total: 4,
+        supported: 2,
+        stubbed: 1,
+        differs: 1,
+        missing: 0,
+        score: 50,
+      });
+      expect(report.entries[0]?.file).toBe('a.ts');
+    });
+
+    it('scores an empty audit as fully compatible', () => {
+      expect(buildAuditReport([]).summary.score).toBe(100);
+    });
+  });
+
+  describe('formatAuditMarkdown', () => {
+    it('lists entries by class and closes with the score', () => {
+      const markdown = formatAuditMarkdown(
+        buildAuditReport(
+          audit(
+            [
+              "import DeviceInfo from 'react-native-device-info';",
+              'DeviceInfo.getModel();',
+              'DeviceInfo.getAppSetId();',
+            ].join('\n')
+          )
+        )
+      );
+
+      expect(markdown).toContain('## Stubbed (1)');
+      expect(markdown).toContain('| `getAppSetId` | App.tsx:3 |');
+      expect(markdown).toContain('## Fully supported (1)');
+      expect(markdown.trim()).toMatch(/\*\*Compat score: 50%\*\*.*$/);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Privacy report tests.
+ *
+ * Scans inline sources with the same `tsx` parser the CLI uses.
+ */
+
+import jscodeshift from 'jscodeshift';
+import {
+  buildPrivacyReport,
+  collectUsedMembers,
+  formatDataSafety,
+  formatPrivacyManifest,
+} from '../codemod/privacy-report';
+
+const j = jscodeshift.withParser('tsx');
+
+function scan(source: string): string[] {
+  return collectUsedMembers(j, source).sort();
+}
+
+describe('privacy-report: collectUsedMembers', () => {
+  it('collects DeviceInfoModule members, including aliased imports', () => {
+    expect(
+      scan(`
+        import { DeviceInfoModule as Info } from 'react-native-nitro-device-info';
+        const uptime = Info.getUptime();
+        const id = Info.uniqueId;
+      `)
+    ).toEqual(['getUptime', 'uniqueId']);
+  });
+
+  it('ignores objects that are not bound to the package', () => {
+    expect(
+      scan(`
+        import { DeviceInfoModule } from './local-wrapper';
+        const DeviceInfo = {};
+        DeviceInfoModule.getUptime();
+        DeviceInfo.getUniqueId();
+      `)
+    ).toEqual([]);
+  });
+
+  it('maps compat getters from named, default and require bindings', () => {
+    expect(
+      scan(`
+        import DeviceInfo, { getStartupTime } from 'react-native-nitro-device-info/compat';
+        import * as Legacy from 'react-native-device-info';
+        const { getAndroidIdSync: androidId } = require('react-native-device-info');
+        DeviceInfo.getFreeDiskStorage();
+        Legacy.getDeviceName();
+      `)
+    ).toEqual([
+      'androidId',
+      'deviceName',
+      'getFreeDiskStorage',
+      'getFreeDiskStorageFor',
+      'startupTime',
+    ]);
+  });
+
+  it('expands helpers and placeholder-aware accessors', () => {
+    const members = scan(`
+      import {
+        getOrUndefined,
+        buildDeviceFingerprint,
+      } from 'react-native-nitro-device-info';
+      getOrUndefined('serialNumber');
+      buildDeviceFingerprint({ hash });
+    `);
+    expect(members).toEqual(['serialNumber', 'totalDiskCapacity']);
+
+    expect(
+      scan(`
+        import { getDeviceSnapshot } from 'react-native-nitro-device-info';
+      `)
+    ).toEqual(expect.arrayContaining(['getUptime', 'uniqueId', 'deviceName']));
+  });
+});
+
+describe('privacy-report: buildPrivacyReport', () => {
+  it('groups members by required-reason category and data type', () => {
+    const report = buildPrivacyReport([
+      'startupTime',
+      'getUptime',
+      'getFreeDiskStorage',
+      'uniqueId',
+      'getIpAddressSync',
+      'model',
+    ]);
+
+    expect(report.members).toEqual([
+      'getFreeDiskStorage',
+      'getIpAddressSync',
+      'getUptime',
+      'model',
+      'startupTime',
+      'uniqueId',
+    ]);
+    expect(
+      report.requiredReasonApis.map(({ category, members }) => [
+        category,
+        members,
+      ])
+    ).toEqual([
+      ['NSPrivacyAccessedAPICategoryDiskSpace', ['getFreeDiskStorage']],
+      [
+        'NSPrivacyAccessedAPICategorySystemBootTime',
+        ['getUptime', 'startupTime'],
+      ],
+    ]);
+    expect(report.dataSafety).toEqual([
+      {
+        dataType: 'App info and performance: Diagnostics',
+        members: ['getFreeDiskStorage'],
+        notes: [],
+      },
+      {
+        dataType: 'Device or other IDs',
+        members: ['getIpAddressSync', 'uniqueId'],
+        notes: [expect.stringContaining('Approximate location')],
+      },
+    ]);
+  });
+
+  it('declares nothing for members without privacy impact', () => {
+    const report = buildPrivacyReport(['model', 'brand']);
+
+    expect(report.requiredReasonApis).toEqual([]);
+    expect(report.dataSafety).toEqual([]);
+    expect(formatDataSafety(report)).toContain('No data types detected.');
+  });
+});
+
+describe('privacy-report: formatters', () => {
+  it('renders a plist with the first reason of each category', () => {
+    const manifest = formatPrivacyManifest(buildPrivacyReport(['getUptime']));
+
+    expect(manifest).toContain('<key>NSPrivacyAccessedAPITypes</key>');
+    expect(manifest).toContain(
+      '<string>NSPrivacyAccessedAPICategorySystemBootTime</string>'
+    );
+    expect(manifest).toContain('<string>35F9.1</string>');
+    expect(manifest).not.toContain('<string>8FFB.1</string>');
+    expect(manifest).toContain('Other accepted reasons: 8FFB.1, 3D61.1');
+  });
+
+  it('lists the APIs behind each Data Safety type', () => {
+    const summary = formatDataSafety(
+      buildPrivacyReport(['deviceName', 'androidId'])
+    );
+
+    expect(summary).toContain('Device or other IDs\n  APIs: androidId');
+    expect(summary).toContain('Personal info: Other info\n  APIs: deviceName');
+  });
+});
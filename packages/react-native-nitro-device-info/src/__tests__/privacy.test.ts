@@ -0,0 +1,147 @@
+/**
+ * Privacy tier tests.
+ *
+ * Reads go through the native entry's `DeviceInfoModule` proxy, backed by the
+ * `jest.setup.js` fake.
+ */
+
+import { createDeviceInfo, DeviceInfoModule } from '../index';
+import { getSerialNumberSync } from '../compat';
+import { configurePrivacy, getPrivacyTier, isPrivacyAllowed } from '../privacy';
+
+const fake = (
+  global as unknown as { __FAKE_DEVICE_INFO__: Record<string, unknown> }
+).__FAKE_DEVICE_INFO__;
+
+let warn: jest.SpyInstance;
+
+beforeEach(() => {
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  configurePrivacy({ tier: 'full' });
+  warn.mockRestore();
+});
+
+describe('privacy: configurePrivacy', () => {
+  it('defaults to the full tier', () => {
+    expect(getPrivacyTier()).toBe('full');
+    expect(DeviceInfoModule.deviceName).toBe("Tester's iPhone");
+    expect(DeviceInfoModule.uniqueId).toBe(
+      'FCDBD8EF-62FC-4ECB-B2F5-92C9E79AC7F9'
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('redacts members above the tier without reading the native value', () => {
+    const original = Object.getOwnPropertyDescriptor(fake, 'deviceName')!;
+    const nativeRead = jest.fn(() => "Tester's iPhone");
+    Object.defineProperty(fake, 'deviceName', {
+      get: nativeRead,
+      configurable: true,
+    });
+
+    try {
+      configurePrivacy({ tier: 'analytics' });
+      expect(DeviceInfoModule.deviceName).toBe('unknown');
+      expect(nativeRead).not.toHaveBeenCalled();
+    } finally {
+      Object.defineProperty(fake, 'deviceName', original);
+    }
+  });
+
+  it('keeps the call shape of gated methods', async () => {
+    configurePrivacy({ tier: 'minimal' });
+
+    expect(DeviceInfoModule.getCarrierSync()).toBe('unknown');
+    expect(DeviceInfoModule.getIpAddressSync()).toBe('unknown');
+    await expect(DeviceInfoModule.getMacAddress()).resolves.toBe('unknown');
+    await expect(DeviceInfoModule.syncUniqueId()).resolves.toBe('unknown');
+  });
+
+  it('allows members at or below the tier', () => {
+    configurePrivacy({ tier: 'analytics' });
+
+    expect(DeviceInfoModule.getCarrierSync()).toBe('Verizon');
+    expect(DeviceInfoModule.uniqueId).not.toBe('unknown');
+    expect(DeviceInfoModule.model).toBe('iPhone 13 Pro');
+    expect(isPrivacyAllowed('getMacAddressSync')).toBe(false);
+    expect(isPrivacyAllowed('model')).toBe(true);
+  });
+
+  it('warns with the member and the call site', () => {
+    configurePrivacy({ tier: 'minimal' });
+
+    void DeviceInfoModule.serialNumber;
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    const message = warn.mock.calls[0]?.[0] as string;
+    expect(message).toContain('"serialNumber" requires privacy tier');
+    expect(message).toContain('privacy.test.ts');
+  });
+
+  it('names the app call site behind the compat wrappers', () => {
+    configurePrivacy({ tier: 'minimal' });
+
+    expect(getSerialNumberSync()).toBe('unknown');
+
+    const message = warn.mock.calls[0]?.[0] as string;
+    expect(message).toMatch(/Read .*privacy\.test\.ts/);
+    expect(message).not.toContain('compat');
+  });
+
+  it('returns the HybridObject itself from createDeviceInfo()', () => {
+    configurePrivacy({ tier: 'minimal', warn: false });
+
+    const instance = createDeviceInfo();
+
+    expect(instance).toBe(fake);
+    expect(instance.deviceName).toBe("Tester's iPhone");
+    expect(DeviceInfoModule.deviceName).toBe('unknown');
+  });
+
+  it('stays silent when warnings are turned off', () => {
+    configurePrivacy({ tier: 'minimal', warn: false });
+
+    expect(DeviceInfoModule.androidId).toBe('unknown');
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('privacy: web entry', () => {
+  it('gates the web DeviceInfoModule like the native one', async () => {
+    const web = require('../index.web') as typeof import('../index.web');
+    configurePrivacy({ tier: 'minimal' });
+
+    expect(web.DeviceInfoModule.deviceName).toBe('unknown');
+    await expect(web.DeviceInfoModule.getMacAddress()).resolves.toBe(
+      'unknown'
+    );
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(web.DeviceInfoModule.deviceType).toBe(
+      web.createDeviceInfo().deviceType
+    );
+  });
+});
+
+describe('privacy: outside React Native', () => {
+  it('loads the web and server entries without __DEV__', () => {
+    const scope = globalThis as { __DEV__?: boolean };
+    const dev = scope.__DEV__;
+    delete scope.__DEV__;
+    // Browsers and SSR servers alias `react-native` to react-native-web,
+    // which does not read `__DEV__` either
+    jest.doMock('react-native', () => ({ Platform: { OS: 'web' } }));
+
+    try {
+      jest.isolateModules(() => {
+        expect(() => require('../index.web')).not.toThrow();
+        expect(() => require('../ssr')).not.toThrow();
+      });
+    } finally {
+      jest.dontMock('react-native');
+      scope.__DEV__ = dev;
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Placeholder-aware accessor tests.
+ *
+ * The `jest.setup.js` fake reports iOS-like values; `Platform.OS` is swapped
+ * to exercise the Android rules against the same fake.
+ */
+
+import { Platform } from 'react-native';
+import { getSafe, getOrUndefined } from '../safe';
+
+const fake = (
+  global as unknown as { __FAKE_DEVICE_INFO__: Record<string, unknown> }
+).__FAKE_DEVICE_INFO__;
+
+function withFakeValue(key: string, value: unknown, run: () => void): void {
+  const original = fake[key];
+  fake[key] = value;
+  try {
+    run();
+  } finally {
+    fake[key] = original;
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('safe: getSafe', () => {
+  it('returns real values as supported', () => {
+    expect(getSafe('model')).toEqual({
+      supported: true,
+      value: 'iPhone 13 Pro',
+    });
+    expect(getSafe('getBatteryLevel')).toEqual({
+      supported: true,
+      value: 0.75,
+    });
+  });
+
+  it('reports properties missing on the current platform', () => {
+    // Even a plausible value is ignored outside the supported platforms
+    withFakeValue('apiLevel', 33, () => {
+      expect(getSafe('apiLevel')).toEqual({
+        supported: false,
+        reason: 'platform',
+      });
+    });
+    expect(getSafe('maxMemory')).toEqual({
+      supported: false,
+      reason: 'platform',
+    });
+    expect(getSafe('getMacAddressSync')).toEqual({
+      supported: false,
+      reason: 'platform',
+    });
+  });
+
+  it('maps sentinels on supported platforms to a reason', () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+
+    expect(getSafe('serialNumber')).toEqual({
+      supported: false,
+      reason: 'permission',
+    });
+    expect(getSafe('securityPatch')).toEqual({
+      supported: false,
+      reason: 'unavailable',
+    });
+    expect(getSafe('apiLevel')).toEqual({
+      supported: false,
+      reason: 'unavailable',
+    });
+  });
+
+  it('reports a cold user agent cache as unavailable', () => {
+    withFakeValue('userAgent', '', () => {
+      expect(getSafe('userAgent')).toEqual({
+        supported: false,
+        reason: 'unavailable',
+      });
+    });
+  });
+
+  it('keeps values that only look like sentinels on other properties', () => {
+    jest.replaceProperty(Platform, 'OS', 'android');
+
+    expect(getSafe('previewSdkInt')).toEqual({ supported: true, value: 0 });
+    expect(getSafe('baseOs')).toEqual({ supported: true, value: '' });
+  });
+
+  it('detects per-property sentinel types', () => {
+    withFakeValue(
+      'getBatteryLevel',
+      () => -1,
+      () => {
+        expect(getSafe('getBatteryLevel')).toEqual({
+          supported: false,
+          reason: 'unavailable',
+        });
+      }
+    );
+    withFakeValue('supportedAbis', [], () => {
+      expect(getSafe('supportedAbis').supported).toBe(false);
+    });
+    withFakeValue('deviceName', 'unknown', () => {
+      expect(getSafe('deviceName').supported).toBe(false);
+    });
+  });
+});
+
+describe('safe: getOrUndefined', () => {
+  it('returns the value or undefined', () => {
+    expect(getOrUndefined('getCarrierSync')).toBe('Verizon');
+    expect(getOrUndefined('apiLevel')).toBeUndefined();
+    expect(getOrUndefined('hostNames')).toBeUndefined();
+  });
+});
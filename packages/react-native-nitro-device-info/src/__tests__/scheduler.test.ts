@@ -0,0 +1,279 @@
+/**
+ * Shared polling scheduler tests.
+ *
+ * Uses fake timers to assert that consumers of the same getter share a single
+ * timer and a single read per tick. The preset runs as iOS.
+ */
+
+import { AppState, Platform } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import { scheduleFallbackPoll, schedulePoll } from '../hooks/scheduler';
+
+const addEventListener = AppState.addEventListener as unknown as jest.Mock;
+
+function changeAppState(state: AppStateStatus): void {
+  const calls = addEventListener.mock.calls;
+  const handler = calls[calls.length - 1]?.[1] as (
+    next: AppStateStatus
+  ) => void;
+  handler(state);
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('scheduler: schedulePoll', () => {
+  it('reads a shared key once per tick and fans the value out', () => {
+    const read = jest.fn(() => 0.42);
+    const first = jest.fn();
+    const second = jest.fn();
+    const third = jest.fn();
+
+    const cancels = [
+      schedulePoll('getBatteryLevel', read, 1000, first),
+      schedulePoll('getBatteryLevel', read, 1000, second),
+      schedulePoll('getBatteryLevel', read, 1000, third),
+    ];
+
+    jest.advanceTimersByTime(1000);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(0.42);
+    expect(second).toHaveBeenCalledWith(0.42);
+    expect(third).toHaveBeenCalledWith(0.42);
+
+    jest.advanceTimersByTime(2000);
+    expect(read).toHaveBeenCalledTimes(3);
+
+    cancels.forEach((cancel) => cancel());
+  });
+
+  it('uses one timer per distinct interval', () => {
+    const cancels = [
+      schedulePoll(
+        'getBatteryLevel',
+        () => 1,
+        1000,
+        () => {}
+      ),
+      schedulePoll(
+        'getPowerState',
+        () => 2,
+        1000,
+        () => {}
+      ),
+      schedulePoll(
+        'getBrightness',
+        () => 3,
+        500,
+        () => {}
+      ),
+    ];
+
+    expect(jest.getTimerCount()).toBe(2);
+
+    cancels.forEach((cancel) => cancel());
+  });
+
+  it('keeps different intervals for the same key independent', () => {
+    const fast = jest.fn();
+    const slow = jest.fn();
+    const cancelFast = schedulePoll('getBrightness', () => 0.5, 500, fast);
+    const cancelSlow = schedulePoll('getBrightness', () => 0.5, 2000, slow);
+
+    jest.advanceTimersByTime(2000);
+
+    expect(fast).toHaveBeenCalledTimes(4);
+    expect(slow).toHaveBeenCalledTimes(1);
+
+    cancelFast();
+    cancelSlow();
+  });
+
+  it('stops the timer once its last registration is cancelled', () => {
+    const read = jest.fn(() => true);
+    const cancelFirst = schedulePoll(
+      'getIsHeadphonesConnected',
+      read,
+      1000,
+      () => {}
+    );
+    const cancelSecond = schedulePoll(
+      'getIsHeadphonesConnected',
+      read,
+      1000,
+      () => {}
+    );
+
+    cancelFirst();
+    expect(jest.getTimerCount()).toBe(1);
+
+    cancelSecond();
+    expect(jest.getTimerCount()).toBe(0);
+
+    jest.advanceTimersByTime(5000);
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it('treats repeated cancel calls as a no-op', () => {
+    const listener = jest.fn();
+    const cancelKept = schedulePoll('getPowerState', () => 1, 1000, listener);
+    const cancelDropped = schedulePoll(
+      'getPowerState',
+      () => 1,
+      1000,
+      () => {}
+    );
+
+    cancelDropped();
+    cancelDropped();
+    jest.advanceTimersByTime(1000);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    cancelKept();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('scheduler: scheduleFallbackPoll', () => {
+  it('does not poll channels the platform reports events for', () => {
+    const read = jest.fn(() => 0.5);
+    const cancel = scheduleFallbackPoll(
+      'battery',
+      'getBatteryLevel',
+      read,
+      1000,
+      () => {}
+    );
+
+    expect(jest.getTimerCount()).toBe(0);
+    jest.advanceTimersByTime(5000);
+    expect(read).not.toHaveBeenCalled();
+
+    cancel();
+  });
+
+  it('polls channels that never fire on the platform', () => {
+    // Airplane mode changes are not reported on iOS
+    const read = jest.fn(() => false);
+    const listener = jest.fn();
+    const cancel = scheduleFallbackPoll(
+      'network',
+      'getIsAirplaneMode',
+      read,
+      1000,
+      listener
+    );
+
+    jest.advanceTimersByTime(2000);
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith(false);
+
+    cancel();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('leaves battery and network to the web fallback events', () => {
+    const os = Platform.OS;
+    Platform.OS = 'web';
+    try {
+      const read = jest.fn(() => 1);
+      const cancelBattery = scheduleFallbackPoll(
+        'battery',
+        'getPowerState',
+        read,
+        1000,
+        () => {}
+      );
+      const cancelNetwork = scheduleFallbackPoll(
+        'network',
+        'getIsAirplaneMode',
+        read,
+        1000,
+        () => {}
+      );
+
+      expect(jest.getTimerCount()).toBe(0);
+
+      cancelBattery();
+      cancelNetwork();
+    } finally {
+      Platform.OS = os;
+    }
+  });
+});
+
+describe('scheduler: AppState', () => {
+  it('suspends polling in the background and re-reads on return', () => {
+    const read = jest.fn(() => 0.3);
+    const listener = jest.fn();
+    const cancel = schedulePoll('getBrightness', read, 500, listener);
+
+    changeAppState('background');
+    expect(jest.getTimerCount()).toBe(0);
+    jest.advanceTimersByTime(5000);
+    expect(read).not.toHaveBeenCalled();
+
+    changeAppState('active');
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(0.3);
+
+    jest.advanceTimersByTime(500);
+    expect(read).toHaveBeenCalledTimes(2);
+
+    cancel();
+  });
+
+  it('ignores the transient inactive state', () => {
+    const read = jest.fn(() => 1);
+    const cancel = schedulePoll('getPowerState', read, 1000, () => {});
+
+    changeAppState('inactive');
+    jest.advanceTimersByTime(1000);
+    expect(read).toHaveBeenCalledTimes(1);
+
+    cancel();
+  });
+
+  it('keeps polling in the background when opted out', () => {
+    const read = jest.fn(() => false);
+    const cancel = schedulePoll(
+      'getIsHeadphonesConnected',
+      read,
+      1000,
+      () => {},
+      false
+    );
+
+    changeAppState('background');
+    jest.advanceTimersByTime(3000);
+    expect(read).toHaveBeenCalledTimes(3);
+
+    changeAppState('active');
+    expect(read).toHaveBeenCalledTimes(3);
+
+    cancel();
+  });
+
+  it('releases the AppState listener with the last registration', () => {
+    const cancel = schedulePoll(
+      'getBatteryLevel',
+      () => 1,
+      1000,
+      () => {}
+    );
+    const calls = addEventListener.mock.calls;
+    const subscription = addEventListener.mock.results[calls.length - 1]
+      ?.value as { remove: jest.Mock };
+
+    cancel();
+    expect(subscription.remove).toHaveBeenCalledTimes(1);
+  });
+});
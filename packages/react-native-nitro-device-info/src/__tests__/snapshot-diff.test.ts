@@ -0,0 +1,167 @@
+/**
+ * Device snapshot diffing tests.
+ *
+ * Snapshots are built from the `jest.setup.js` fake and then edited to
+ * simulate what a later launch would report.
+ */
+
+import { getDeviceSnapshot, type DeviceSnapshot } from '../snapshot';
+import {
+  diffDeviceSnapshots,
+  diffSinceLastLaunch,
+  type SnapshotStorage,
+} from '../snapshot-diff';
+
+function cloneSnapshot(snapshot: DeviceSnapshot): DeviceSnapshot {
+  return JSON.parse(JSON.stringify(snapshot)) as DeviceSnapshot;
+}
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  const storage: SnapshotStorage = {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+  return { storage, items };
+}
+
+describe('snapshot-diff: diffDeviceSnapshots', () => {
+  it('reports no changes for identical snapshots', () => {
+    const snapshot = getDeviceSnapshot();
+    expect(diffDeviceSnapshots(snapshot, cloneSnapshot(snapshot))).toEqual({
+      changes: [],
+      kinds: [],
+    });
+  });
+
+  it('classifies OS, app, identity and hardware changes', () => {
+    const prev = getDeviceSnapshot();
+    const next = cloneSnapshot(prev);
+    next.core.systemVersion.value = '18.0';
+    next.androidBuild.securityPatch.value = '2026-09-01';
+    next.application.version.value = '1.3.0';
+    next.core.uniqueId.value = 'NEW-ID';
+    next.core.model.value = 'iPhone 16 Pro';
+
+    const diff = diffDeviceSnapshots(prev, next);
+
+    expect(diff.changes).toEqual(
+      expect.arrayContaining([
+        {
+          path: 'core.systemVersion',
+          kind: 'osUpgrade',
+          previous: '17.0',
+          next: '18.0',
+        },
+        expect.objectContaining({
+          path: 'androidBuild.securityPatch',
+          kind: 'osUpgrade',
+        }),
+        expect.objectContaining({
+          path: 'application.version',
+          kind: 'appUpdate',
+        }),
+        expect.objectContaining({
+          path: 'core.uniqueId',
+          kind: 'identityChange',
+        }),
+        expect.objectContaining({ path: 'core.model', kind: 'hardwareChange' }),
+      ])
+    );
+    expect(diff.changes).toHaveLength(5);
+    expect(diff.kinds.sort()).toEqual(
+      ['appUpdate', 'hardwareChange', 'identityChange', 'osUpgrade'].sort()
+    );
+  });
+
+  it('reports unclassified fields as other and compares arrays by value', () => {
+    const prev = getDeviceSnapshot();
+    const next = cloneSnapshot(prev);
+    next.core.systemLanguage.value = 'ko-KR';
+    next.core.supportedAbis.value = ['arm64'];
+
+    const diff = diffDeviceSnapshots(prev, next);
+
+    expect(diff.changes).toEqual([
+      {
+        path: 'core.systemLanguage',
+        kind: 'other',
+        previous: 'en-US',
+        next: 'ko-KR',
+      },
+    ]);
+  });
+
+  it('ignores volatile fields by default and honors a custom ignore list', () => {
+    const prev = getDeviceSnapshot();
+    const next = cloneSnapshot(prev);
+    next.battery.batteryLevel.value = 0.1;
+    next.memory.usedMemory.value = 1;
+    next.application.buildNumber.value = '43';
+
+    expect(diffDeviceSnapshots(prev, next).changes).toHaveLength(1);
+    expect(
+      diffDeviceSnapshots(prev, next, { ignore: ['application'] }).changes
+    ).toEqual([
+      expect.objectContaining({ path: 'memory.usedMemory' }),
+      expect.objectContaining({ path: 'battery.batteryLevel' }),
+    ]);
+  });
+
+  it('only compares fields present in both snapshots', () => {
+    const prev = getDeviceSnapshot({ include: ['core.model'] });
+    const next = getDeviceSnapshot({ include: ['core', 'application'] });
+    next.core!.model!.value = 'Pixel 9';
+
+    expect(diffDeviceSnapshots(prev, next).changes).toEqual([
+      expect.objectContaining({ path: 'core.model' }),
+    ]);
+  });
+});
+
+describe('snapshot-diff: diffSinceLastLaunch', () => {
+  it('returns no diff on first launch and persists the snapshot', async () => {
+    const { storage, items } = memoryStorage();
+
+    const result = await diffSinceLastLaunch(storage);
+
+    expect(result.previous).toBeNull();
+    expect(result.diff).toBeNull();
+    expect(
+      JSON.parse(items.get('@react-native-nitro-device-info/snapshot')!)
+    ).toEqual(result.current);
+  });
+
+  it('diffs against the snapshot stored by the previous launch', async () => {
+    const previous = cloneSnapshot(getDeviceSnapshot());
+    previous.application.version.value = '1.0.0';
+    const { storage } = memoryStorage({ last: JSON.stringify(previous) });
+
+    const result = await diffSinceLastLaunch(storage, { key: 'last' });
+
+    expect(result.previous).toEqual(previous);
+    expect(result.diff?.kinds).toEqual(['appUpdate']);
+  });
+
+  it('treats a corrupt stored value as a first launch', async () => {
+    const { storage, items } = memoryStorage({ last: '{not json' });
+
+    const result = await diffSinceLastLaunch(storage, { key: 'last' });
+
+    expect(result.diff).toBeNull();
+    expect(items.get('last')).toBe(JSON.stringify(result.current));
+  });
+
+  it('persists only what the snapshot options collect', async () => {
+    const { storage, items } = memoryStorage();
+
+    await diffSinceLastLaunch(storage, {
+      key: 'last',
+      snapshotOptions: { exclude: ['core.uniqueId'] },
+    });
+
+    expect(items.get('last')).not.toContain('uniqueId');
+  });
+});
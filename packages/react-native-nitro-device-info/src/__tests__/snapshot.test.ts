@@ -0,0 +1,108 @@
+/**
+ * Device snapshot tests.
+ *
+ * Runs against the `jest.setup.js` fake, which reports iOS-like values: the
+ * Android build fields are `'unknown'` and `apiLevel` / `maxMemory` are `-1`.
+ */
+
+import { getDeviceSnapshot, isPlaceholderValue } from '../snapshot';
+
+const fake = (
+  global as unknown as { __FAKE_DEVICE_INFO__: Record<string, unknown> }
+).__FAKE_DEVICE_INFO__;
+
+describe('snapshot: getDeviceSnapshot', () => {
+  it('groups every category and wraps values with a placeholder flag', () => {
+    const snapshot = getDeviceSnapshot();
+
+    expect(Object.keys(snapshot).sort()).toEqual(
+      [
+        'androidBuild',
+        'application',
+        'battery',
+        'capturedAt',
+        'carrier',
+        'core',
+        'display',
+        'memory',
+        'network',
+      ].sort()
+    );
+    expect(snapshot.core.model).toEqual({
+      value: 'iPhone 13 Pro',
+      isPlaceholder: false,
+    });
+    expect(snapshot.display.hasNotch.value).toBe(true);
+    expect(snapshot.battery.batteryState.value).toBe('charging');
+    expect(snapshot.network.ipAddress.value).toBe('192.168.1.100');
+    expect(snapshot.carrier.carrier.value).toBe('Verizon');
+    expect(typeof snapshot.capturedAt).toBe('number');
+  });
+
+  it('flags platform placeholders', () => {
+    const snapshot = getDeviceSnapshot();
+
+    expect(snapshot.androidBuild.serialNumber).toEqual({
+      value: 'unknown',
+      isPlaceholder: true,
+    });
+    expect(snapshot.androidBuild.apiLevel.isPlaceholder).toBe(true);
+    expect(snapshot.memory.maxMemory.isPlaceholder).toBe(true);
+    expect(snapshot.memory.totalMemory.isPlaceholder).toBe(false);
+    // An empty string is a legitimate value, not a sentinel
+    expect(snapshot.androidBuild.baseOs.isPlaceholder).toBe(false);
+  });
+
+  it('survives a JSON round trip unchanged', () => {
+    const snapshot = getDeviceSnapshot();
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it('collects only included categories and fields', () => {
+    const snapshot = getDeviceSnapshot({
+      include: ['application', 'core.uniqueId'],
+    });
+
+    expect(snapshot.application?.version?.value).toBe('1.2.3');
+    expect(Object.keys(snapshot.core ?? {})).toEqual(['uniqueId']);
+    expect(snapshot.memory).toBeUndefined();
+    expect(snapshot.androidBuild).toBeUndefined();
+  });
+
+  it('drops excluded categories and fields', () => {
+    const snapshot = getDeviceSnapshot({
+      exclude: ['androidBuild', 'core.uniqueId'],
+    });
+
+    expect(snapshot.androidBuild).toBeUndefined();
+    expect(snapshot.core?.uniqueId).toBeUndefined();
+    expect(snapshot.core?.deviceId?.value).toBe('iPhone14,2');
+  });
+
+  it('does not read filtered-out fields', () => {
+    const originalGetUsedMemory = fake.getUsedMemory;
+    const getUsedMemory = jest.fn(() => 1);
+    fake.getUsedMemory = getUsedMemory;
+
+    try {
+      getDeviceSnapshot({ exclude: ['memory'] });
+      expect(getUsedMemory).not.toHaveBeenCalled();
+
+      getDeviceSnapshot({ include: ['memory.usedMemory'] });
+      expect(getUsedMemory).toHaveBeenCalledTimes(1);
+    } finally {
+      fake.getUsedMemory = originalGetUsedMemory;
+    }
+  });
+});
+
+describe('snapshot: isPlaceholderValue', () => {
+  it('recognizes the spec sentinels only', () => {
+    expect(isPlaceholderValue('unknown')).toBe(true);
+    expect(isPlaceholderValue(-1)).toBe(true);
+    expect(isPlaceholderValue('')).toBe(false);
+    expect(isPlaceholderValue(0)).toBe(false);
+    expect(isPlaceholderValue(false)).toBe(false);
+    expect(isPlaceholderValue([])).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Server render tests.
+ *
+ * Renders the native entry's hooks with `react-dom/server` the way a Next.js
+ * server does: there is no native runtime, so any device read throws.
+ */
+
+import { renderToString } from 'react-dom/server';
+import {
+  DeviceInfoProvider,
+  getServerDeviceSnapshot,
+  useDeviceInfo,
+  useDisplayState,
+  useUserAgent,
+} from '../index';
+
+jest.mock('react-native-nitro-modules', () => ({
+  NitroModules: {
+    createHybridObject: () => {
+      throw new Error('No native runtime');
+    },
+  },
+}));
+
+const SAFARI_HEADERS = {
+  'user-agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 ' +
+    '(KHTML, like Gecko) Version/17.5 Safari/605.1.15',
+  'accept-language': 'de-DE,de;q=0.9',
+};
+
+function DeviceSummary() {
+  const systemName = useDeviceInfo('systemName');
+  const systemLanguage = useDeviceInfo('systemLanguage');
+  const model = useDeviceInfo('model');
+  const fontScale = useDeviceInfo('getFontScale');
+  const { isLandscape, brightness } = useDisplayState();
+
+  return (
+    <p>
+      {[
+        systemName,
+        systemLanguage,
+        model,
+        fontScale,
+        isLandscape ? 'landscape' : 'portrait',
+        brightness,
+      ].join('|')}
+    </p>
+  );
+}
+
+describe('ssr: server render', () => {
+  it('renders an incomplete snapshot without reading the device', () => {
+    const snapshot = getServerDeviceSnapshot(SAFARI_HEADERS);
+    expect(snapshot.core?.model).toBeUndefined();
+
+    const html = renderToString(
+      <DeviceInfoProvider initialSnapshot={snapshot}>
+        <DeviceSummary />
+      </DeviceInfoProvider>
+    );
+
+    expect(html).toBe('<p>macOS|de-DE|unknown|1|portrait|-1</p>');
+  });
+
+  it('renders the user agent placeholder without reading the device', () => {
+    function UserAgentFooter() {
+      return <p>{useUserAgent() || 'Loading'}</p>;
+    }
+
+    const html = renderToString(
+      <DeviceInfoProvider
+        initialSnapshot={getServerDeviceSnapshot(SAFARI_HEADERS)}
+      >
+        <UserAgentFooter />
+      </DeviceInfoProvider>
+    );
+
+    expect(html).toBe('<p>Loading</p>');
+  });
+
+  it('renders placeholders without a snapshot', () => {
+    const html = renderToString(
+      <DeviceInfoProvider>
+        <DeviceSummary />
+      </DeviceInfoProvider>
+    );
+
+    expect(html).toBe('<p>unknown|unknown|unknown|1|portrait|-1</p>');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Server snapshot tests.
+ *
+ * `getServerDeviceSnapshot` reads request headers only, in both the Fetch
+ * (`Headers`-like) and Node (plain object) shapes. The hydration lookup maps
+ * hook keys to the snapshot fields it produces.
+ */
+
+import { getServerDeviceSnapshot } from '../ssr';
+import { findSnapshotField } from '../hooks/DeviceInfoProvider';
+
+const CHROME_ANDROID_TABLET = {
+  'user-agent':
+    'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/127.0.0.0 Safari/537.36',
+  'sec-ch-ua':
+    '"Not)A;Brand";v="99", "Google Chrome";v="127", "Chromium";v="127"',
+  'sec-ch-ua-mobile': '?0',
+  'sec-ch-ua-platform': '"Android"',
+  'sec-ch-ua-platform-version': '"14.0.0"',
+  'sec-ch-ua-model': '"Pixel Tablet"',
+  'sec-ch-ua-arch': '"arm"',
+  'sec-ch-ua-bitness': '"64"',
+  'sec-ch-ua-form-factors': '"Tablet"',
+  'accept-language': 'de-CH,de;q=0.9,en;q=0.8',
+};
+
+describe('getServerDeviceSnapshot', () => {
+  it('derives core fields from Client Hints and Accept-Language', () => {
+    const { core } = getServerDeviceSnapshot(CHROME_ANDROID_TABLET);
+
+    expect(core).toEqual({
+      model: { value: 'Pixel Tablet', isPlaceholder: false },
+      systemName: { value: 'Android', isPlaceholder: false },
+      systemVersion: { value: '14.0.0', isPlaceholder: false },
+      deviceType: { value: 'Tablet', isPlaceholder: false },
+      isTablet: { value: true, isPlaceholder: false },
+      systemLanguage: { value: 'de-CH', isPlaceholder: false },
+      supportedAbis: { value: ['arm64'], isPlaceholder: false },
+      supported32BitAbis: { value: [], isPlaceholder: false },
+      supported64BitAbis: { value: ['arm64'], isPlaceholder: false },
+    });
+  });
+
+  it('reads Fetch-style headers through get()', () => {
+    const headers = new Map(Object.entries(CHROME_ANDROID_TABLET));
+    const snapshot = getServerDeviceSnapshot({
+      get: name => headers.get(name.toLowerCase()) ?? null,
+    });
+
+    expect(snapshot.core?.model?.value).toBe('Pixel Tablet');
+  });
+
+  it('falls back to the User-Agent without Client Hints', () => {
+    const { core } = getServerDeviceSnapshot({
+      'user-agent':
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15',
+      'accept-language': 'en-US',
+    });
+
+    expect(core).toEqual({
+      systemName: { value: 'iOS', isPlaceholder: false },
+      brand: { value: 'Apple', isPlaceholder: false },
+      systemLanguage: { value: 'en-US', isPlaceholder: false },
+    });
+  });
+
+  it('leaves out fields the headers do not determine', () => {
+    const snapshot = getServerDeviceSnapshot({
+      'sec-ch-ua-mobile': '?0',
+      'sec-ch-ua-platform': '"Android"',
+      'sec-ch-ua-model': '""',
+      'accept-language': '*',
+    });
+
+    expect(snapshot.core).toEqual({
+      systemName: { value: 'Android', isPlaceholder: false },
+    });
+    expect(getServerDeviceSnapshot({})).toEqual({
+      capturedAt: expect.any(Number),
+    });
+  });
+});
+
+describe('findSnapshotField', () => {
+  const snapshot = {
+    capturedAt: 0,
+    core: { model: { value: 'Pixel Tablet', isPlaceholder: false } },
+    display: { isLandscape: { value: true, isPlaceholder: false } },
+  };
+
+  it('matches properties by name and getters without their prefix', () => {
+    expect(findSnapshotField(snapshot, 'model')?.value).toBe('Pixel Tablet');
+    expect(findSnapshotField(snapshot, 'getIsLandscape')?.value).toBe(true);
+    expect(findSnapshotField(snapshot, 'getFontScale')).toBeUndefined();
+  });
+});
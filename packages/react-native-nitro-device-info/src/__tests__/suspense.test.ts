@@ -0,0 +1,95 @@
+/**
+ * Suspense resource tests.
+ *
+ * Reads resources outside a component, the way Suspense does: a pending read
+ * throws the shared promise, a settled one returns or throws its result.
+ */
+
+import {
+  invalidateDeviceInfo,
+  loadDeviceInfo,
+  preloadDeviceInfo,
+  readDeviceInfo,
+} from '../hooks/resources';
+
+const fake = (
+  global as unknown as { __FAKE_DEVICE_INFO__: Record<string, unknown> }
+).__FAKE_DEVICE_INFO__;
+
+function thrownBy(read: () => unknown): unknown {
+  try {
+    read();
+  } catch (thrown) {
+    return thrown;
+  }
+  throw new Error('expected the read to throw');
+}
+
+afterEach(() => {
+  invalidateDeviceInfo();
+  jest.restoreAllMocks();
+});
+
+describe('suspense resources', () => {
+  it('suspends on the first read, then returns the value', async () => {
+    const pending = thrownBy(() => readDeviceInfo('installReferrer'));
+    expect(pending).toBeInstanceOf(Promise);
+
+    await pending;
+    expect(readDeviceInfo('installReferrer')).toBe('utm_source=test');
+  });
+
+  it('shares one native call between readers', async () => {
+    const getCarrier = jest.spyOn(
+      fake as { getCarrier: () => Promise<string> },
+      'getCarrier'
+    );
+
+    const first = preloadDeviceInfo('carrier');
+    expect(thrownBy(() => readDeviceInfo('carrier'))).toBe(first);
+    await expect(first).resolves.toBe('Verizon');
+    expect(readDeviceInfo('carrier')).toBe('Verizon');
+    expect(getCarrier).toHaveBeenCalledTimes(1);
+  });
+
+  it('annotates the promise for use()', async () => {
+    const resource = loadDeviceInfo('firstInstallTime');
+    expect(resource.status).toBe('pending');
+
+    await resource;
+    expect(resource).toMatchObject({
+      status: 'fulfilled',
+      value: 1698249600000,
+    });
+  });
+
+  it('rethrows a rejection until invalidated', async () => {
+    const error = new Error('DeviceCheck unavailable');
+    const getDeviceToken = jest
+      .spyOn(
+        fake as { getDeviceToken: () => Promise<string> },
+        'getDeviceToken'
+      )
+      .mockRejectedValueOnce(error);
+
+    await expect(preloadDeviceInfo('deviceToken')).rejects.toBe(error);
+    expect(thrownBy(() => readDeviceInfo('deviceToken'))).toBe(error);
+    expect(thrownBy(() => readDeviceInfo('deviceToken'))).toBe(error);
+
+    invalidateDeviceInfo('deviceToken');
+    await expect(preloadDeviceInfo('deviceToken')).resolves.toBe(
+      'device-token'
+    );
+    expect(getDeviceToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('turns a synchronous native throw into a rejection', async () => {
+    jest
+      .spyOn(fake as { getIpAddress: () => Promise<string> }, 'getIpAddress')
+      .mockImplementationOnce(() => {
+        throw new Error('no network');
+      });
+
+    await expect(preloadDeviceInfo('ipAddress')).rejects.toThrow('no network');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Test double tests.
+ *
+ * The test device replaces the `jest.setup.js` fake for this file, so the
+ * simulated changes are observed through the real `DeviceInfoModule` and
+ * `subscribe()` path the hooks use.
+ */
+
+import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import { webDeviceInfo } from '../DeviceInfo.web';
+import {
+  createTestDeviceInfo,
+  TEST_DEVICE_PRESETS,
+  type TestDevicePreset,
+} from '../testing';
+
+const device = createTestDeviceInfo('pixel8');
+(global as unknown as { __FAKE_DEVICE_INFO__: unknown }).__FAKE_DEVICE_INFO__ =
+  device;
+
+afterEach(() => {
+  device.setValues('pixel8');
+});
+
+describe('testing: presets', () => {
+  it.each(Object.keys(TEST_DEVICE_PRESETS) as TestDevicePreset[])(
+    '%s implements every DeviceInfo member',
+    preset => {
+      const instance = createTestDeviceInfo(preset);
+      for (const member of Object.keys(webDeviceInfo)) {
+        expect(instance).toHaveProperty(member);
+      }
+    }
+  );
+
+  it('applies overrides on top of a preset', () => {
+    const instance = createTestDeviceInfo('ipadLandscape', {
+      systemLanguage: 'ja-JP',
+    });
+
+    expect(instance.isTablet).toBe(true);
+    expect(instance.getIsLandscape()).toBe(true);
+    expect(instance.systemLanguage).toBe('ja-JP');
+  });
+
+  it('derives async methods from the stored values', async () => {
+    await expect(DeviceInfoModule.getCarrier()).resolves.toBe('T-Mobile');
+    await expect(DeviceInfoModule.getDeviceToken()).rejects.toThrow(
+      'not available'
+    );
+    await expect(
+      createTestDeviceInfo('iphone15Pro').getDeviceToken()
+    ).resolves.toBe('test-device-token');
+  });
+});
+
+describe('testing: simulated changes', () => {
+  it('drains the battery and notifies battery subscribers', () => {
+    const onBattery = jest.fn();
+    const unsubscribe = subscribe('battery', onBattery);
+
+    device.setBatteryLevel(0.04);
+
+    expect(DeviceInfoModule.getBatteryLevel()).toBe(0.04);
+    expect(DeviceInfoModule.isLowBatteryLevel(0.2)).toBe(true);
+    expect(onBattery).toHaveBeenCalledWith({
+      batteryLevel: 0.04,
+      batteryState: 'unplugged',
+      lowPowerMode: false,
+    });
+    unsubscribe();
+  });
+
+  it('plugs in headphones', () => {
+    const onHeadphones = jest.fn();
+    const unsubscribe = subscribe('headphones', onHeadphones);
+
+    device.setHeadphones({ wired: true });
+
+    expect(DeviceInfoModule.getIsHeadphonesConnected()).toBe(true);
+    expect(onHeadphones).toHaveBeenCalledWith({
+      wired: true,
+      bluetooth: false,
+    });
+    unsubscribe();
+  });
+
+  it('toggles airplane mode without touching other channels', () => {
+    const onNetwork = jest.fn();
+    const onBattery = jest.fn();
+    const unsubscribeNetwork = subscribe('network', onNetwork);
+    const unsubscribeBattery = subscribe('battery', onBattery);
+
+    device.setAirplaneMode(true);
+
+    expect(onNetwork).toHaveBeenCalledWith({ airplaneMode: true });
+    expect(onBattery).not.toHaveBeenCalled();
+    unsubscribeNetwork();
+    unsubscribeBattery();
+  });
+
+  it('switches presets and notifies every channel', () => {
+    const onBattery = jest.fn();
+    const unsubscribe = subscribe('battery', onBattery);
+
+    device.setValues('emulator');
+
+    expect(DeviceInfoModule.isEmulator).toBe(true);
+    expect(DeviceInfoModule.getIsBatteryCharging()).toBe(true);
+    expect(onBattery).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+});
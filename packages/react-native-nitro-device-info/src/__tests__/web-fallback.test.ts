@@ -70,6 +70,18 @@ describe('web fallback: DeviceInfo.web', () => {
       expect(webDeviceInfo.getIsLandscape()).toBe(false);
     });
 
+    it('reads orientation from screen.orientation, then the screen size', () => {
+      (globalThis as { screen?: unknown }).screen = {
+        width: 390,
+        height: 844,
+        orientation: { type: 'landscape-primary' },
+      };
+      expect(webDeviceInfo.getIsLandscape()).toBe(true);
+
+      (globalThis as { screen?: unknown }).screen = { width: 844, height: 390 };
+      expect(webDeviceInfo.getIsLandscape()).toBe(true);
+    });
+
     it('battery getters fall back when the Battery Status API is unavailable', () => {
       // No getBattery() in the test environment, so the cache stays empty.
       expect(webDeviceInfo.getBatteryLevel()).toBe(-1);
@@ -77,6 +89,275 @@ describe('web fallback: DeviceInfo.web', () => {
       expect(webDeviceInfo.getPowerState().batteryState).toBe('unknown');
     });
   });
+
+  describe('getFreeDiskStorageFor (StorageManager estimate)', () => {
+    const original = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+
+    function stubNavigator(value: unknown): void {
+      Object.defineProperty(globalThis, 'navigator', {
+        value,
+        configurable: true,
+        writable: true,
+      });
+    }
+
+    afterEach(() => {
+      if (original) {
+        Object.defineProperty(globalThis, 'navigator', original);
+      } else {
+        delete (globalThis as { navigator?: unknown }).navigator;
+      }
+    });
+
+    it('resolves quota minus usage for every kind', async () => {
+      stubNavigator({
+        storage: {
+          estimate: () => Promise.resolve({ quota: 1000, usage: 400 }),
+        },
+      });
+      await expect(
+        webDeviceInfo.getFreeDiskStorageFor('important')
+      ).resolves.toBe(600);
+      await expect(
+        webDeviceInfo.getFreeDiskStorageFor('total')
+      ).resolves.toBe(600);
+    });
+
+    it('resolves -1 when the estimate is unavailable or rejects', async () => {
+      stubNavigator({});
+      await expect(
+        webDeviceInfo.getFreeDiskStorageFor('total')
+      ).resolves.toBe(-1);
+
+      stubNavigator({
+        storage: { estimate: () => Promise.reject(new Error('denied')) },
+      });
+      await expect(
+        webDeviceInfo.getFreeDiskStorageFor('important')
+      ).resolves.toBe(-1);
+    });
+  });
+});
+
+describe('web fallback: User-Agent Client Hints', () => {
+  const original = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+
+  // The high-entropy cache is primed at module load, so each case loads a
+  // fresh copy of the module against its own navigator
+  async function loadWith(
+    userAgentData: unknown
+  ): Promise<typeof webDeviceInfo> {
+    Object.defineProperty(globalThis, 'navigator', {
+      value: { userAgent: 'Mozilla/5.0', vendor: 'Google Inc.', userAgentData },
+      configurable: true,
+      writable: true,
+    });
+    let instance: typeof webDeviceInfo | undefined;
+    jest.isolateModules(() => {
+      instance = (
+        require('../DeviceInfo.web') as typeof import('../DeviceInfo.web')
+      ).webDeviceInfo;
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return instance!;
+  }
+
+  afterEach(() => {
+    if (original) {
+      Object.defineProperty(globalThis, 'navigator', original);
+    } else {
+      delete (globalThis as { navigator?: unknown }).navigator;
+    }
+  });
+
+  it('fills identity fields from high-entropy hints', async () => {
+    const info = await loadWith({
+      brands: [
+        { brand: 'Not)A;Brand', version: '99' },
+        { brand: 'Chromium', version: '127' },
+        { brand: 'Google Chrome', version: '127' },
+      ],
+      mobile: false,
+      platform: 'Android',
+      getHighEntropyValues: () =>
+        Promise.resolve({
+          architecture: 'arm',
+          bitness: '64',
+          model: 'Pixel Tablet',
+          platformVersion: '14.0.0',
+          formFactors: ['Tablet'],
+        }),
+    });
+
+    // The browser brand is not the device maker
+    expect(info.brand).toBe('unknown');
+    expect(info.model).toBe('Pixel Tablet');
+    expect(info.systemName).toBe('Android');
+    expect(info.systemVersion).toBe('14.0.0');
+    expect(info.deviceType).toBe('Tablet');
+    expect(info.isTablet).toBe(true);
+    expect(info.supportedAbis).toEqual(['arm64']);
+    expect(info.supported64BitAbis).toEqual(['arm64']);
+    expect(info.supported32BitAbis).toEqual([]);
+  });
+
+  it('uses low-entropy hints alone when high-entropy ones are refused', async () => {
+    const info = await loadWith({
+      brands: [{ brand: 'Chromium', version: '127' }],
+      mobile: true,
+      platform: 'Android',
+      getHighEntropyValues: () => Promise.reject(new Error('NotAllowedError')),
+    });
+
+    expect(info.deviceType).toBe('Handset');
+    expect(info.model).toBe('unknown');
+    expect(info.systemVersion).toBe('unknown');
+    expect(info.supportedAbis).toEqual([]);
+  });
+
+  it('names Apple as the brand on Apple platforms', async () => {
+    const info = await loadWith({
+      brands: [{ brand: 'Google Chrome', version: '127' }],
+      mobile: false,
+      platform: 'macOS',
+    });
+
+    expect(info.brand).toBe('Apple');
+    expect(info.deviceType).toBe('Desktop');
+  });
+
+  it('does not guess the device type from mobile: false on Android', async () => {
+    const info = await loadWith({ mobile: false, platform: 'Android' });
+
+    expect(info.deviceType).toBe('unknown');
+    expect(info.isTablet).toBe(false);
+  });
+
+  it('keeps the constants on browsers without Client Hints', async () => {
+    const info = await loadWith(undefined);
+
+    expect(info.brand).toBe('unknown');
+    expect(info.model).toBe('unknown');
+    expect(info.deviceType).toBe('unknown');
+    expect(info.supportedAbis).toEqual([]);
+  });
+});
+
+describe('web fallback: live battery and network events', () => {
+  const originalNavigator = Object.getOwnPropertyDescriptor(
+    globalThis,
+    'navigator'
+  );
+  const originalWindow = Object.getOwnPropertyDescriptor(globalThis, 'window');
+
+  /** Minimal EventTarget whose listeners can be fired by hand */
+  function eventTarget<T extends object>(
+    fields: T
+  ): T & { fire: (type: string) => void } {
+    const listeners = new Map<string, (() => void)[]>();
+    return Object.assign(fields, {
+      addEventListener: (type: string, listener: () => void) => {
+        listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+      },
+      fire: (type: string) => {
+        for (const listener of listeners.get(type) ?? []) {
+          listener();
+        }
+      },
+    });
+  }
+
+  function define(name: string, value: unknown): void {
+    Object.defineProperty(globalThis, name, {
+      value,
+      configurable: true,
+      writable: true,
+    });
+  }
+
+  function restore(
+    name: string,
+    descriptor: PropertyDescriptor | undefined
+  ): void {
+    if (descriptor) {
+      Object.defineProperty(globalThis, name, descriptor);
+    } else {
+      delete (globalThis as Record<string, unknown>)[name];
+    }
+  }
+
+  // Listeners are attached at module load, so each case loads a fresh copy
+  async function load(): Promise<typeof webDeviceInfo> {
+    let instance: typeof webDeviceInfo | undefined;
+    jest.isolateModules(() => {
+      instance = (
+        require('../DeviceInfo.web') as typeof import('../DeviceInfo.web')
+      ).webDeviceInfo;
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return instance!;
+  }
+
+  afterEach(() => {
+    restore('navigator', originalNavigator);
+    restore('window', originalWindow);
+  });
+
+  it('updates the battery cache and notifies on BatteryManager events', async () => {
+    const battery = eventTarget({ level: 0.5, charging: false });
+    define('navigator', { getBattery: () => Promise.resolve(battery) });
+    const info = await load();
+    const onChange = jest.fn();
+    info.addListener('battery', onChange);
+
+    expect(info.getBatteryLevel()).toBe(0.5);
+
+    battery.level = 0.45;
+    battery.fire('levelchange');
+    expect(info.getBatteryLevel()).toBe(0.45);
+
+    battery.charging = true;
+    battery.fire('chargingchange');
+    expect(info.getIsBatteryCharging()).toBe(true);
+    expect(info.getPowerState().batteryState).toBe('charging');
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('notifies the network channel on connectivity changes', async () => {
+    const win = eventTarget({});
+    const connection = eventTarget({});
+    const nav = { onLine: true, connection };
+    define('window', win);
+    define('navigator', nav);
+    const info = await load();
+    const onNetwork = jest.fn();
+    const onBattery = jest.fn();
+    info.addListener('network', onNetwork);
+    info.addListener('battery', onBattery);
+
+    nav.onLine = false;
+    win.fire('offline');
+    expect(info.getIsAirplaneMode()).toBe(true);
+
+    nav.onLine = true;
+    win.fire('online');
+    connection.fire('change');
+    expect(info.getIsAirplaneMode()).toBe(false);
+    expect(onNetwork).toHaveBeenCalledTimes(3);
+    expect(onBattery).not.toHaveBeenCalled();
+  });
+
+  it('stops notifying a removed listener', async () => {
+    const win = eventTarget({});
+    define('window', win);
+    const info = await load();
+    const onNetwork = jest.fn();
+    const listenerId = info.addListener('network', onNetwork);
+
+    info.removeListener(listenerId);
+    win.fire('offline');
+    expect(onNetwork).not.toHaveBeenCalled();
+  });
 });
 
 describe('native entry: lazy instantiation (SSR import-safety)', () => {
@@ -0,0 +1,98 @@
+/**
+ * User-Agent Client Hints interpretation
+ *
+ * Pure helpers that turn Client Hints into `DeviceInfo` values. The web
+ * fallback feeds them `navigator.userAgentData`, and the server snapshot feeds
+ * them the matching `Sec-CH-UA-*` request headers, so both sides derive the
+ * same values and server-rendered markup matches the first client render.
+ *
+ * @module react-native-nitro-device-info/clientHints
+ */
+
+import type { DeviceType } from './DeviceInfo.nitro';
+
+/**
+ * Client hints read from either `navigator.userAgentData` or request headers.
+ * Every field is optional: browsers send low-entropy hints by default and
+ * high-entropy ones only when asked.
+ */
+export interface ClientHints {
+  readonly mobile?: boolean;
+  readonly platform?: string;
+  readonly architecture?: string;
+  readonly bitness?: string;
+  readonly model?: string;
+  readonly platformVersion?: string;
+  readonly formFactors?: readonly string[];
+}
+
+/** A non-empty client hint, or `undefined` for missing and redacted ones */
+export function hint(value: string | undefined): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Device brand implied by the OS name. Only Apple platforms pin down who made
+ * the hardware; the browser brand says nothing about it, so it is not used.
+ */
+export function brandFromSystemName(systemName: string): string | undefined {
+  return systemName === 'iOS' || systemName === 'macOS' ? 'Apple' : undefined;
+}
+
+const DESKTOP_PLATFORMS = ['Windows', 'macOS', 'Linux', 'Chrome OS'];
+
+/**
+ * Device type: `formFactors` when reported, else the low-entropy `mobile`
+ * flag. `mobile: false` only means "Desktop" on a desktop OS; an Android
+ * tablet also reports it, so that case stays unknown.
+ */
+export function deviceTypeFromHints(hints: ClientHints): DeviceType {
+  const formFactors = hints.formFactors ?? [];
+  if (formFactors.includes('Tablet')) return 'Tablet';
+  if (formFactors.includes('Mobile')) return 'Handset';
+  if (formFactors.includes('Desktop')) return 'Desktop';
+
+  if (hints.mobile === true) return 'Handset';
+  if (
+    hints.mobile === false &&
+    DESKTOP_PLATFORMS.includes(hints.platform ?? '')
+  ) {
+    return 'Desktop';
+  }
+  return 'unknown';
+}
+
+/**
+ * CPU architecture (`x86` / `arm` plus bitness) in the ABI naming used
+ * elsewhere; empty until both hints are known.
+ */
+export function abisFromHints(hints: ClientHints): string[] {
+  const architecture = hint(hints.architecture);
+  const bitness = hint(hints.bitness);
+  if (architecture === undefined || bitness === undefined) {
+    return [];
+  }
+  if (architecture === 'x86') {
+    return [bitness === '64' ? 'x86_64' : 'x86'];
+  }
+  if (architecture === 'arm') {
+    return [bitness === '64' ? 'arm64' : 'arm'];
+  }
+  return [];
+}
+
+/**
+ * Derive an OS name from a user agent string. Best-effort only; falls back to
+ * "web".
+ */
+export function systemNameFromUserAgent(ua: string | undefined): string {
+  if (ua === undefined) {
+    return 'web';
+  }
+  if (/android/i.test(ua)) return 'Android';
+  if (/iphone|ipad|ipod/i.test(ua)) return 'iOS';
+  if (/windows/i.test(ua)) return 'Windows';
+  if (/mac os x|macintosh/i.test(ua)) return 'macOS';
+  if (/linux/i.test(ua)) return 'Linux';
+  return 'web';
+}
@@ -0,0 +1,361 @@
+/**
+ * Migration audit: where will behavior change after switching to the compat
+ * layer?
+ *
+ * Lists every `react-native-device-info` API a source file uses, with its
+ * line, and classifies each use against `react-native-nitro-device-info/compat`.
+ * Driven by `npx react-native-nitro-device-info migrate --report=json|markdown`.
+ * Read-only: nothing is rewritten.
+ *
+ * @module react-native-nitro-device-info/codemod
+ */
+
+import type { JSCodeshift } from 'jscodeshift';
+import {
+  COMPAT_MODULE,
+  CORE_HOOKS,
+  NATIVE_TARGETS,
+  UNCONVERTIBLE,
+} from './rewrite-call-sites';
+
+const SOURCE_MODULE = 'react-native-device-info';
+
+/**
+ * How a use of an RNDI API behaves on the compat layer
+ *
+ * - `supported`: same value and shape as RNDI
+ * - `stubbed`: always returns a placeholder
+ * - `differs`: returns a real value, but part of the RNDI contract is not
+ *   honored
+ * - `missing`: not exported by the compat layer; the build will fail
+ */
+export type CompatSupport = 'supported' | 'stubbed' | 'differs' | 'missing';
+
+/** Compat exports that always return a placeholder, with what they return */
+export const STUBBED_APIS: Readonly<Record<string, string>> = {
+  getInstanceId: "Always resolves to 'unknown' (no Firebase Instance ID).",
+  getInstanceIdSync: "Always returns 'unknown' (no Firebase Instance ID).",
+  getAppSetId:
+    "Always resolves to { id: 'unknown', scope: -1 } (no App Set ID).",
+  getInstallReferrerSync:
+    "Always returns 'unknown'; use the async getInstallReferrer().",
+};
+
+interface SemanticsDifference {
+  note: string;
+  /** Only uses that pass arguments are affected */
+  withArguments?: boolean;
+}
+
+/** Compat exports whose behavior departs from RNDI */
+export const SEMANTICS_DIFFER: Readonly<Record<string, SemanticsDifference>> = {
+  getFreeDiskStorageSync: {
+    note: 'The storageType argument is ignored; use the async getFreeDiskStorage(storageType).',
+    withArguments: true,
+  },
+  getUserAgentSync: {
+    note: "Returns '' until the load started at module init finishes; await getUserAgent() when the value must be there.",
+  },
+};
+
+// RNDI's functions and hooks are camelCase; its PascalCase exports are types
+const isApiName = (name: string) => /^[a-z]/.test(name);
+
+// Compat-layer controls with no RNDI counterpart; not part of the audit
+const COMPAT_ONLY = new Set([
+  'enableCompatTelemetry',
+  'disableCompatTelemetry',
+  'resetCompatTelemetry',
+  'getCompatUsageReport',
+  'formatCompatUsageReport',
+]);
+
+const COMPAT_EXPORTS = new Set([
+  ...Object.keys(NATIVE_TARGETS),
+  ...Object.keys(UNCONVERTIBLE),
+  ...CORE_HOOKS,
+]);
+
+/**
+ * One use of an RNDI API
+ */
+export interface AuditEntry {
+  api: string;
+  file: string;
+  line: number;
+  support: CompatSupport;
+  note?: string;
+}
+
+/**
+ * Classify a use of an RNDI API against the compat layer.
+ *
+ * @param api RNDI export name
+ * @param argumentCount Arguments passed at the call site (0 for references)
+ */
+export function classifyApi(
+  api: string,
+  argumentCount = 0
+): Pick<AuditEntry, 'support' | 'note'> {
+  if (!COMPAT_EXPORTS.has(api)) {
+    return {
+      support: 'missing',
+      note: 'Not exported by react-native-nitro-device-info/compat.',
+    };
+  }
+  const stub = STUBBED_APIS[api];
+  if (stub) {
+    return { support: 'stubbed', note: stub };
+  }
+  const difference = SEMANTICS_DIFFER[api];
+  if (difference && (!difference.withArguments || argumentCount > 0)) {
+    return { support: 'differs', note: difference.note };
+  }
+  return { support: 'supported' };
+}
+
+/**
+ * Find every RNDI API used in a file, through named imports, default or
+ * namespace objects, and `require(...)`. Files already migrated to the compat
+ * entry point are audited the same way.
+ *
+ * @param j jscodeshift instance with a parser that understands the file
+ * @param source File contents
+ * @param file Path reported in each entry
+ * @returns Entries in source order
+ */
+export function auditSource(
+  j: JSCodeshift,
+  source: string,
+  file: string
+): AuditEntry[] {
+  const root = j(source);
+  const namedLocals = new Map<string, string>();
+  const objectLocals = new Set<string>();
+
+  const isTracked = (value: unknown) =>
+    value === SOURCE_MODULE || value === COMPAT_MODULE;
+
+  root.find(j.ImportDeclaration).forEach(path => {
+    if (!isTracked(path.node.source.value) || path.node.importKind === 'type') {
+      return;
+    }
+    for (const specifier of path.node.specifiers ?? []) {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        continue;
+      }
+      if (specifier.type !== 'ImportSpecifier') {
+        objectLocals.add(local);
+        continue;
+      }
+      const imported = specifier.imported.name;
+      if (imported === 'DeviceInfo') {
+        // Named alias of the default object
+        objectLocals.add(local);
+      } else if (typeof imported === 'string' && isApiName(imported)) {
+        namedLocals.set(local, imported);
+      }
+    }
+  });
+
+  root.find(j.VariableDeclarator).forEach(path => {
+    const { id, init } = path.node;
+    if (
+      init?.type !== 'CallExpression' ||
+      init.callee.type !== 'Identifier' ||
+      init.callee.name !== 'require'
+    ) {
+      return;
+    }
+    const [arg] = init.arguments;
+    if (
+      !arg ||
+      (arg.type !== 'StringLiteral' && arg.type !== 'Literal') ||
+      !isTracked(arg.value)
+    ) {
+      return;
+    }
+    if (id.type === 'Identifier') {
+      objectLocals.add(id.name);
+    } else if (id.type === 'ObjectPattern') {
+      for (const property of id.properties) {
+        if (
+          (property.type === 'Property' ||
+            property.type === 'ObjectProperty') &&
+          property.key.type === 'Identifier' &&
+          property.value.type === 'Identifier' &&
+          isApiName(property.key.name)
+        ) {
+          namedLocals.set(property.value.name, property.key.name);
+        }
+      }
+    }
+  });
+
+  const entries: AuditEntry[] = [];
+  const seen = new Set<unknown>();
+
+  const record = (api: string, node: { loc?: unknown }, args: number) => {
+    if (seen.has(node) || COMPAT_ONLY.has(api)) {
+      return;
+    }
+    seen.add(node);
+    const loc = node.loc as { start: { line: number } } | null | undefined;
+    entries.push({
+      api,
+      file,
+      line: loc?.start.line ?? 0,
+      ...classifyApi(api, args),
+    });
+  };
+
+  const argumentsOf = (path: { parent?: { node: unknown } }, node: unknown) => {
+    const parent = path.parent?.node as
+      | { type: string; callee?: unknown; arguments?: unknown[] }
+      | undefined;
+    return parent?.type === 'CallExpression' && parent.callee === node
+      ? (parent.arguments?.length ?? 0)
+      : 0;
+  };
+
+  // `getModel()` / `.then(getModel)` through a named binding
+  root.find(j.Identifier).forEach(path => {
+    const api = namedLocals.get(path.node.name);
+    if (!api) {
+      return;
+    }
+    const parent = path.parent?.node;
+    switch (parent?.type) {
+      case 'ImportSpecifier':
+        return;
+      case 'Property':
+      case 'ObjectProperty':
+        // Skip `{ getModel: x }` keys and `const { getModel } = require(...)`
+        if (
+          parent.value !== path.node ||
+          path.parent.parent?.node.type === 'ObjectPattern'
+        ) {
+          return;
+        }
+        break;
+      case 'MemberExpression':
+      case 'OptionalMemberExpression':
+        if (parent.property === path.node && !parent.computed) {
+          return;
+        }
+        break;
+    }
+    record(api, path.node, argumentsOf(path, path.node));
+  });
+
+  // `DeviceInfo.getModel()` through a default, namespace or require object
+  root.find(j.MemberExpression).forEach(path => {
+    const { object, property, computed } = path.node;
+    if (
+      computed ||
+      object.type !== 'Identifier' ||
+      !objectLocals.has(object.name) ||
+      property.type !== 'Identifier'
+    ) {
+      return;
+    }
+    record(property.name, path.node, argumentsOf(path, path.node));
+  });
+
+  return entries.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Audit entries with per-class counts
+ */
+export interface AuditReport {
+  entries: AuditEntry[];
+  summary: Record<CompatSupport, number> & {
+    total: number;
+    /**
+     * Share of uses that behave exactly as on RNDI, 0–100 (100 when nothing
+     * is used)
+     */
+    score: number;
+  };
+}
+
+/**
+ * Summarize audit entries from one or more files.
+ */
+export function buildAuditReport(entries: readonly AuditEntry[]): AuditReport {
+  const sorted = [...entries].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+  );
+  const count = (support: CompatSupport) =>
+    sorted.filter(entry => entry.support === support).length;
+
+  const supported = count('supported');
+  return {
+    entries: sorted,
+    summary: {
+      total: sorted.length,
+      supported,
+      stubbed: count('stubbed'),
+      differs: count('differs'),
+      missing: count('missing'),
+      score:
+        sorted.length === 0
+          ? 100
+          : Math.round((supported / sorted.length) * 100),
+    },
+  };
+}
+
+const SECTION_TITLES: ReadonlyArray<[CompatSupport, string]> = [
+  ['missing', 'Missing from the compat layer'],
+  ['stubbed', 'Stubbed'],
+  ['differs', 'Semantics differ'],
+  ['supported', 'Fully supported'],
+];
+
+/**
+ * Render an audit report as Markdown: one table per class, worst first, then
+ * the summary score.
+ */
+export function formatAuditMarkdown(report: AuditReport): string {
+  const lines = ['# react-native-device-info migration audit', ''];
+
+  for (const [support, title] of SECTION_TITLES) {
+    const entries = report.entries.filter(entry => entry.support === support);
+    if (entries.length === 0) {
+      continue;
+    }
+    lines.push(`## ${title} (${entries.length})`, '');
+    if (support === 'supported') {
+      lines.push('| API | Location |', '| --- | --- |');
+      for (const entry of entries) {
+        lines.push(`| \`${entry.api}\` | ${entry.file}:${entry.line} |`);
+      }
+    } else {
+      lines.push('| API | Location | Note |', '| --- | --- | --- |');
+      for (const entry of entries) {
+        lines.push(
+          `| \`${entry.api}\` | ${entry.file}:${entry.line} | ${entry.note} |`
+        );
+      }
+    }
+    lines.push('');
+  }
+
+  const { summary } = report;
+  lines.push(
+    '## Summary',
+    '',
+    `- Uses found: ${summary.total}`,
+    `- Fully supported: ${summary.supported}`,
+    `- Stubbed: ${summary.stubbed}`,
+    `- Semantics differ: ${summary.differs}`,
+    `- Missing: ${summary.missing}`,
+    '',
+    `**Compat score: ${summary.score}%** of uses behave exactly as on react-native-device-info.`,
+    ''
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,473 @@
+/**
+ * Store privacy declarations derived from source usage.
+ *
+ * Scans app source for reads of `DeviceInfoModule` members, compat getters and
+ * the helpers built on top of them, then drafts the iOS `PrivacyInfo.xcprivacy`
+ * required-reason entries and a Google Play Data Safety summary for the APIs
+ * actually used. Driven by `npx react-native-nitro-device-info privacy-report`.
+ *
+ * The output is a starting point: reasons and data types must still be
+ * checked against what the app does with each value.
+ *
+ * @module react-native-nitro-device-info/codemod
+ */
+
+import type { ASTPath, CallExpression, JSCodeshift } from 'jscodeshift';
+
+const MAIN_MODULE = 'react-native-nitro-device-info';
+const COMPAT_MODULES = [
+  'react-native-nitro-device-info/compat',
+  // Also scan apps that have not been migrated yet
+  'react-native-device-info',
+];
+
+/**
+ * Required-reason API category, as written in `NSPrivacyAccessedAPIType`
+ */
+export type RequiredReasonCategory =
+  | 'NSPrivacyAccessedAPICategorySystemBootTime'
+  | 'NSPrivacyAccessedAPICategoryDiskSpace'
+  | 'NSPrivacyAccessedAPICategoryFileTimestamp';
+
+/**
+ * Google Play Data Safety data type, as labelled in the Play Console form
+ */
+export type DataSafetyType =
+  | 'Device or other IDs'
+  | 'Personal info: Other info'
+  | 'App info and performance: Diagnostics';
+
+interface RequiredReasonInfo {
+  /** Native API behind the category, for the manifest comment */
+  api: string;
+  /** Reason codes, the first of which goes into the draft */
+  reasons: readonly string[];
+}
+
+/**
+ * Required-reason categories, with the reason codes Apple accepts for the way
+ * this package uses each API
+ */
+export const REQUIRED_REASON_CATEGORIES: Readonly<
+  Record<RequiredReasonCategory, RequiredReasonInfo>
+> = {
+  NSPrivacyAccessedAPICategorySystemBootTime: {
+    api: 'ProcessInfo.systemUptime',
+    reasons: ['35F9.1', '8FFB.1', '3D61.1'],
+  },
+  NSPrivacyAccessedAPICategoryDiskSpace: {
+    api: 'FileManager.attributesOfFileSystem',
+    reasons: ['E174.1', '85F4.1', '7D9E.1', 'B728.1'],
+  },
+  NSPrivacyAccessedAPICategoryFileTimestamp: {
+    api: 'FileManager.attributesOfItem (app documents directory)',
+    reasons: ['C617.1'],
+  },
+};
+
+/**
+ * `DeviceInfo` members whose iOS implementation calls a required-reason API
+ */
+export const REQUIRED_REASON_MEMBERS: Readonly<
+  Record<string, RequiredReasonCategory>
+> = {
+  getUptime: 'NSPrivacyAccessedAPICategorySystemBootTime',
+  startupTime: 'NSPrivacyAccessedAPICategorySystemBootTime',
+  totalDiskCapacity: 'NSPrivacyAccessedAPICategoryDiskSpace',
+  totalDiskCapacityOld: 'NSPrivacyAccessedAPICategoryDiskSpace',
+  getFreeDiskStorage: 'NSPrivacyAccessedAPICategoryDiskSpace',
+  getFreeDiskStorageFor: 'NSPrivacyAccessedAPICategoryDiskSpace',
+  getFreeDiskStorageOld: 'NSPrivacyAccessedAPICategoryDiskSpace',
+  getFirstInstallTime: 'NSPrivacyAccessedAPICategoryFileTimestamp',
+  firstInstallTimeSync: 'NSPrivacyAccessedAPICategoryFileTimestamp',
+  getLastUpdateTime: 'NSPrivacyAccessedAPICategoryFileTimestamp',
+  lastUpdateTimeSync: 'NSPrivacyAccessedAPICategoryFileTimestamp',
+};
+
+/**
+ * `DeviceInfo` members that return data covered by a Data Safety type
+ */
+export const DATA_SAFETY_MEMBERS: Readonly<Record<string, DataSafetyType>> = {
+  uniqueId: 'Device or other IDs',
+  syncUniqueId: 'Device or other IDs',
+  androidId: 'Device or other IDs',
+  serialNumber: 'Device or other IDs',
+  getMacAddress: 'Device or other IDs',
+  getMacAddressSync: 'Device or other IDs',
+  getIpAddress: 'Device or other IDs',
+  getIpAddressSync: 'Device or other IDs',
+  // Often the owner's name ("Jane's Pixel")
+  deviceName: 'Personal info: Other info',
+  getUsedMemory: 'App info and performance: Diagnostics',
+  getFreeDiskStorage: 'App info and performance: Diagnostics',
+  getFreeDiskStorageFor: 'App info and performance: Diagnostics',
+  getBatteryLevel: 'App info and performance: Diagnostics',
+  getPowerState: 'App info and performance: Diagnostics',
+  getIsBatteryCharging: 'App info and performance: Diagnostics',
+};
+
+const IP_LOCATION_NOTE =
+  'If location is derived from the IP address, also declare Location: Approximate location.';
+
+const DATA_SAFETY_NOTES: Readonly<Record<string, string>> = {
+  getIpAddress: IP_LOCATION_NOTE,
+  getIpAddressSync: IP_LOCATION_NOTE,
+};
+
+const SNAPSHOT_MEMBERS = [
+  'deviceName',
+  'uniqueId',
+  'serialNumber',
+  'androidId',
+  'getUsedMemory',
+  'totalDiskCapacity',
+  'getFreeDiskStorage',
+  'getUptime',
+  'startupTime',
+  'getBatteryLevel',
+  'getPowerState',
+  'getIsBatteryCharging',
+  'firstInstallTimeSync',
+  'lastUpdateTimeSync',
+  'getIpAddressSync',
+  'getMacAddressSync',
+  'getCarrierSync',
+];
+
+/**
+ * Package exports (core helpers and hooks, and compat getters) mapped to the
+ * `DeviceInfo` members they read. Only privacy-relevant members are listed.
+ */
+export const EXPORT_MEMBERS: Readonly<Record<string, readonly string[]>> = {
+  // Core helpers
+  getDeviceSnapshot: SNAPSHOT_MEMBERS,
+  diffSinceLastLaunch: SNAPSHOT_MEMBERS,
+  buildDeviceFingerprint: ['totalDiskCapacity'],
+  // Hooks (core and compat)
+  useBatteryLevel: ['getBatteryLevel'],
+  useBatteryLevelIsLow: ['getBatteryLevel'],
+  usePowerState: ['getPowerState'],
+  useFirstInstallTime: ['getFirstInstallTime'],
+  useDeviceName: ['deviceName'],
+  // Compat getters
+  getUniqueId: ['uniqueId'],
+  getUniqueIdSync: ['uniqueId'],
+  syncUniqueId: ['syncUniqueId'],
+  getDeviceName: ['deviceName'],
+  getDeviceNameSync: ['deviceName'],
+  getSerialNumber: ['serialNumber'],
+  getSerialNumberSync: ['serialNumber'],
+  getAndroidId: ['androidId'],
+  getAndroidIdSync: ['androidId'],
+  getMacAddress: ['getMacAddress'],
+  getMacAddressSync: ['getMacAddressSync'],
+  getFirstInstallTime: ['getFirstInstallTime'],
+  getFirstInstallTimeSync: ['firstInstallTimeSync'],
+  getLastUpdateTime: ['getLastUpdateTime'],
+  getLastUpdateTimeSync: ['lastUpdateTimeSync'],
+  getStartupTime: ['startupTime'],
+  getStartupTimeSync: ['startupTime'],
+  getTotalDiskCapacity: ['totalDiskCapacity'],
+  getTotalDiskCapacitySync: ['totalDiskCapacity'],
+  getTotalDiskCapacityOld: ['totalDiskCapacityOld'],
+  getTotalDiskCapacityOldSync: ['totalDiskCapacityOld'],
+  getFreeDiskStorage: ['getFreeDiskStorage', 'getFreeDiskStorageFor'],
+  getFreeDiskStorageSync: ['getFreeDiskStorage'],
+  getFreeDiskStorageOld: ['getFreeDiskStorageOld'],
+  getFreeDiskStorageOldSync: ['getFreeDiskStorageOld'],
+  getUsedMemory: ['getUsedMemory'],
+  getUsedMemorySync: ['getUsedMemory'],
+  getBatteryLevel: ['getBatteryLevel'],
+  getBatteryLevelSync: ['getBatteryLevel'],
+  getPowerState: ['getPowerState'],
+  getPowerStateSync: ['getPowerState'],
+  isBatteryCharging: ['getIsBatteryCharging'],
+  isBatteryChargingSync: ['getIsBatteryCharging'],
+  getIpAddress: ['getIpAddress'],
+  getIpAddressSync: ['getIpAddressSync'],
+};
+
+const PLACEHOLDER_ACCESSORS = new Set(['getSafe', 'getOrUndefined']);
+
+/**
+ * Collect the `DeviceInfo` members a source file reads.
+ *
+ * Recognized patterns:
+ * - `DeviceInfoModule.member` (including aliased imports)
+ * - `getSafe('member')` / `getOrUndefined('member')`
+ * - helpers and hooks imported from the package (e.g. `getDeviceSnapshot`)
+ * - compat getters, imported by name, as a default/namespace object, or via
+ *   `require(...)`, from `/compat` or from `react-native-device-info`
+ *
+ * @param j jscodeshift instance with a parser that understands the file
+ * @param fileSource File contents
+ * @returns Member names, in first-seen order
+ */
+export function collectUsedMembers(
+  j: JSCodeshift,
+  fileSource: string
+): string[] {
+  const root = j(fileSource);
+  const used = new Set<string>();
+
+  const moduleObjects = new Set<string>();
+  const compatObjects = new Set<string>();
+  const accessors = new Set<string>();
+
+  const addExport = (name: string) => {
+    for (const member of EXPORT_MEMBERS[name] ?? []) {
+      used.add(member);
+    }
+  };
+
+  const addNamedBinding = (source: string, imported: string, local: string) => {
+    if (source === MAIN_MODULE && imported === 'DeviceInfoModule') {
+      moduleObjects.add(local);
+    } else if (source === MAIN_MODULE && PLACEHOLDER_ACCESSORS.has(imported)) {
+      accessors.add(local);
+    } else {
+      addExport(imported);
+    }
+  };
+
+  const isTracked = (source: unknown): source is string =>
+    source === MAIN_MODULE || COMPAT_MODULES.includes(source as string);
+
+  // ES: import ... from '<package>'
+  root.find(j.ImportDeclaration).forEach(path => {
+    const source = path.node.source.value;
+    if (!isTracked(source)) {
+      return;
+    }
+    for (const specifier of path.node.specifiers ?? []) {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        continue;
+      }
+      if (specifier.type === 'ImportSpecifier') {
+        const imported = specifier.imported.name;
+        if (typeof imported === 'string') {
+          addNamedBinding(source, imported, local);
+        }
+      } else if (source !== MAIN_MODULE) {
+        // Default or namespace import of the compat object
+        compatObjects.add(local);
+      }
+    }
+  });
+
+  // CJS: const X = require('<package>') / const { a, b: c } = require(...)
+  root.find(j.VariableDeclarator).forEach(path => {
+    const { id, init } = path.node;
+    if (
+      init?.type !== 'CallExpression' ||
+      init.callee.type !== 'Identifier' ||
+      init.callee.name !== 'require'
+    ) {
+      return;
+    }
+    const [arg] = init.arguments;
+    const source =
+      arg && (arg.type === 'StringLiteral' || arg.type === 'Literal')
+        ? arg.value
+        : undefined;
+    if (!isTracked(source)) {
+      return;
+    }
+    if (id.type === 'Identifier') {
+      if (source !== MAIN_MODULE) {
+        compatObjects.add(id.name);
+      }
+      return;
+    }
+    if (id.type !== 'ObjectPattern') {
+      return;
+    }
+    for (const property of id.properties) {
+      if (
+        (property.type === 'Property' || property.type === 'ObjectProperty') &&
+        property.key.type === 'Identifier' &&
+        property.value.type === 'Identifier'
+      ) {
+        addNamedBinding(source, property.key.name, property.value.name);
+      }
+    }
+  });
+
+  // X.member on the module or compat objects
+  root.find(j.MemberExpression).forEach(path => {
+    const { object, property, computed } = path.node;
+    if (computed || object.type !== 'Identifier') {
+      return;
+    }
+    if (property.type !== 'Identifier') {
+      return;
+    }
+    if (moduleObjects.has(object.name)) {
+      used.add(property.name);
+    } else if (compatObjects.has(object.name)) {
+      addExport(property.name);
+    }
+  });
+
+  // getSafe('member') / getOrUndefined('member')
+  root
+    .find(j.CallExpression)
+    .filter(
+      (path: ASTPath<CallExpression>) =>
+        path.node.callee.type === 'Identifier' &&
+        accessors.has(path.node.callee.name)
+    )
+    .forEach(path => {
+      const [arg] = path.node.arguments;
+      if (
+        arg &&
+        (arg.type === 'StringLiteral' || arg.type === 'Literal') &&
+        typeof arg.value === 'string'
+      ) {
+        used.add(arg.value);
+      }
+    });
+
+  return [...used];
+}
+
+/**
+ * One `NSPrivacyAccessedAPITypes` entry of a {@link PrivacyReport}
+ */
+export interface RequiredReasonEntry {
+  category: RequiredReasonCategory;
+  /** Native API that triggers the category */
+  api: string;
+  /** Reason codes Apple accepts here; the draft declares the first one */
+  reasons: readonly string[];
+  /** `DeviceInfo` members that need the entry */
+  members: string[];
+}
+
+/**
+ * One Data Safety data type of a {@link PrivacyReport}
+ */
+export interface DataSafetyEntry {
+  dataType: DataSafetyType;
+  /** `DeviceInfo` members that return this kind of data */
+  members: string[];
+  notes: string[];
+}
+
+/**
+ * Privacy declarations needed for a set of used members
+ */
+export interface PrivacyReport {
+  /** Every member found, sorted */
+  members: string[];
+  requiredReasonApis: RequiredReasonEntry[];
+  dataSafety: DataSafetyEntry[];
+}
+
+/**
+ * Map used `DeviceInfo` members to required-reason categories and Data Safety
+ * types. Members with no privacy impact are kept in `members` only.
+ */
+export function buildPrivacyReport(members: Iterable<string>): PrivacyReport {
+  const sorted = [...new Set(members)].sort();
+  const categories = new Map<RequiredReasonCategory, RequiredReasonEntry>();
+  const dataTypes = new Map<DataSafetyType, DataSafetyEntry>();
+
+  for (const member of sorted) {
+    const category = REQUIRED_REASON_MEMBERS[member];
+    if (category) {
+      const entry = categories.get(category) ?? {
+        category,
+        ...REQUIRED_REASON_CATEGORIES[category],
+        members: [],
+      };
+      entry.members.push(member);
+      categories.set(category, entry);
+    }
+
+    const dataType = DATA_SAFETY_MEMBERS[member];
+    if (dataType) {
+      const entry = dataTypes.get(dataType) ?? {
+        dataType,
+        members: [],
+        notes: [],
+      };
+      entry.members.push(member);
+      const note = DATA_SAFETY_NOTES[member];
+      if (note && !entry.notes.includes(note)) {
+        entry.notes.push(note);
+      }
+      dataTypes.set(dataType, entry);
+    }
+  }
+
+  return {
+    members: sorted,
+    requiredReasonApis: [...categories.values()],
+    dataSafety: [...dataTypes.values()],
+  };
+}
+
+/**
+ * Render the required-reason entries as a draft `PrivacyInfo.xcprivacy`.
+ *
+ * Each entry declares its first reason code; a comment lists the members that
+ * need it and the alternative codes.
+ */
+export function formatPrivacyManifest(report: PrivacyReport): string {
+  const entries = report.requiredReasonApis.flatMap(entry => [
+    `\t\t<!-- ${entry.api}: ${entry.members.join(', ')}`,
+    `\t\t     Other accepted reasons: ${
+      entry.reasons.slice(1).join(', ') || 'none'
+    } -->`,
+    '\t\t<dict>',
+    '\t\t\t<key>NSPrivacyAccessedAPIType</key>',
+    `\t\t\t<string>${entry.category}</string>`,
+    '\t\t\t<key>NSPrivacyAccessedAPITypeReasons</key>',
+    '\t\t\t<array>',
+    `\t\t\t\t<string>${entry.reasons[0]}</string>`,
+    '\t\t\t</array>',
+    '\t\t</dict>',
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    '<dict>',
+    '\t<key>NSPrivacyAccessedAPITypes</key>',
+    '\t<array>',
+    ...entries,
+    '\t</array>',
+    '</dict>',
+    '</plist>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render the Data Safety types as a plain-text summary for the Play Console
+ * form.
+ */
+export function formatDataSafety(report: PrivacyReport): string {
+  const lines = ['Google Play Data Safety (draft)', ''];
+
+  if (report.dataSafety.length === 0) {
+    lines.push('No data types detected.');
+  } else {
+    lines.push(
+      'Declare a type as collected only if the app sends it off the device.',
+      ''
+    );
+    for (const entry of report.dataSafety) {
+      lines.push(entry.dataType, `  APIs: ${entry.members.join(', ')}`);
+      for (const note of entry.notes) {
+        lines.push(`  Note: ${note}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,582 @@
+/**
+ * jscodeshift transform: rewrite `react-native-nitro-device-info/compat` call
+ * sites to direct `DeviceInfoModule` access.
+ *
+ * Stage 2 — runs after `rewrite-imports`. Compat getters become the native
+ * property or method they wrap (`await getManufacturer()` →
+ * `DeviceInfoModule.manufacturer`); an `await` on a value that is synchronous
+ * natively is dropped, and un-awaited promises keep their type through
+ * `Promise.resolve(...)`. Hooks that are plain re-exports move to the core
+ * entry point. Calls with no faithful native equivalent are left on the compat
+ * layer with a `// TODO(nitro-migrate)` comment. Only ES imports are handled.
+ *
+ * @module react-native-nitro-device-info/codemod
+ */
+
+import type {
+  API,
+  ASTPath,
+  CallExpression,
+  Collection,
+  FileInfo,
+  ImportDeclaration,
+  ImportSpecifier,
+  JSCodeshift,
+  Options,
+  Transform,
+} from 'jscodeshift';
+
+const COMPAT_MODULE = 'react-native-nitro-device-info/compat';
+const CORE_MODULE = 'react-native-nitro-device-info';
+const MODULE_EXPORT = 'DeviceInfoModule';
+const TODO_TAG = 'TODO(nitro-migrate)';
+
+/**
+ * Native access that replaces a compat getter
+ */
+interface NativeTarget {
+  /** `DeviceInfoModule` member */
+  member: string;
+  /** The member is a method (`getUsedMemory()`) rather than a property */
+  call?: boolean;
+  /** Forward the call arguments (otherwise they are ignored by the compat shim) */
+  args?: boolean;
+  /** The compat getter wraps a synchronous native value in a Promise */
+  promise?: boolean;
+  /** The native method itself returns a Promise */
+  async?: boolean;
+  /** Target to use instead when the call passes arguments */
+  withArgs?: NativeTarget;
+}
+
+const NATIVE_TARGETS: Readonly<Record<string, NativeTarget>> = {
+  getUniqueId: { member: 'uniqueId', promise: true },
+  getUniqueIdSync: { member: 'uniqueId' },
+  syncUniqueId: { member: 'syncUniqueId', call: true, async: true },
+  getDeviceId: { member: 'deviceId' },
+  getModel: { member: 'model' },
+  getBrand: { member: 'brand' },
+  getManufacturer: { member: 'manufacturer', promise: true },
+  getManufacturerSync: { member: 'manufacturer' },
+  getDeviceName: { member: 'deviceName', promise: true },
+  getDeviceNameSync: { member: 'deviceName' },
+  getDeviceType: { member: 'deviceType' },
+  getDeviceTypeSync: { member: 'deviceType' },
+  getSerialNumber: { member: 'serialNumber', promise: true },
+  getSerialNumberSync: { member: 'serialNumber' },
+  getAndroidId: { member: 'androidId', promise: true },
+  getAndroidIdSync: { member: 'androidId' },
+  getMacAddress: { member: 'getMacAddress', call: true, async: true },
+  getMacAddressSync: { member: 'getMacAddressSync', call: true },
+  getSystemName: { member: 'systemName' },
+  getSystemVersion: { member: 'systemVersion' },
+  getApiLevel: { member: 'apiLevel', promise: true },
+  getApiLevelSync: { member: 'apiLevel' },
+  getBuildId: { member: 'buildId', promise: true },
+  getBuildIdSync: { member: 'buildId' },
+  getBaseOs: { member: 'baseOs', promise: true },
+  getBaseOsSync: { member: 'baseOs' },
+  getBootloader: { member: 'bootloader', promise: true },
+  getBootloaderSync: { member: 'bootloader' },
+  getCodename: { member: 'codename', promise: true },
+  getCodenameSync: { member: 'codename' },
+  getDevice: { member: 'device', promise: true },
+  getDeviceSync: { member: 'device' },
+  getDisplay: { member: 'display', promise: true },
+  getDisplaySync: { member: 'display' },
+  getFingerprint: { member: 'fingerprint', promise: true },
+  getFingerprintSync: { member: 'fingerprint' },
+  getHardware: { member: 'hardware', promise: true },
+  getHardwareSync: { member: 'hardware' },
+  getHost: { member: 'host', promise: true },
+  getHostSync: { member: 'host' },
+  getProduct: { member: 'product', promise: true },
+  getProductSync: { member: 'product' },
+  getTags: { member: 'tags', promise: true },
+  getTagsSync: { member: 'tags' },
+  getType: { member: 'type', promise: true },
+  getTypeSync: { member: 'type' },
+  getIncremental: { member: 'incremental', promise: true },
+  getIncrementalSync: { member: 'incremental' },
+  getSecurityPatch: { member: 'securityPatch', promise: true },
+  getSecurityPatchSync: { member: 'securityPatch' },
+  getPreviewSdkInt: { member: 'previewSdkInt', promise: true },
+  getPreviewSdkIntSync: { member: 'previewSdkInt' },
+  getHostNames: { member: 'hostNames', promise: true },
+  getHostNamesSync: { member: 'hostNames' },
+  getVersion: { member: 'version' },
+  getBuildNumber: { member: 'buildNumber' },
+  getBundleId: { member: 'bundleId' },
+  getApplicationName: { member: 'applicationName' },
+  getReadableVersion: { member: 'readableVersion' },
+  getInstallerPackageName: { member: 'installerPackageName', promise: true },
+  getInstallerPackageNameSync: { member: 'installerPackageName' },
+  getInstallReferrer: { member: 'getInstallReferrer', call: true, async: true },
+  getFirstInstallTime: { member: 'getFirstInstallTime', call: true, async: true },
+  getFirstInstallTimeSync: { member: 'firstInstallTimeSync' },
+  getLastUpdateTime: { member: 'getLastUpdateTime', call: true, async: true },
+  getLastUpdateTimeSync: { member: 'lastUpdateTimeSync' },
+  getStartupTime: { member: 'startupTime', promise: true },
+  getStartupTimeSync: { member: 'startupTime' },
+  isEmulator: { member: 'isEmulator', promise: true },
+  isEmulatorSync: { member: 'isEmulator' },
+  isTablet: { member: 'isTablet' },
+  isLowRamDevice: { member: 'isLowRamDevice' },
+  isDisplayZoomed: { member: 'isDisplayZoomed' },
+  isPinOrFingerprintSet: { member: 'isPinOrFingerprintSet', promise: true },
+  isPinOrFingerprintSetSync: { member: 'isPinOrFingerprintSet' },
+  isCameraPresent: { member: 'isCameraPresent', promise: true },
+  isCameraPresentSync: { member: 'isCameraPresent' },
+  hasNotch: { member: 'getHasNotch', call: true },
+  hasDynamicIsland: { member: 'getHasDynamicIsland', call: true },
+  hasGms: { member: 'getHasGms', call: true, promise: true },
+  hasGmsSync: { member: 'getHasGms', call: true },
+  hasHms: { member: 'getHasHms', call: true, promise: true },
+  hasHmsSync: { member: 'getHasHms', call: true },
+  hasSystemFeature: {
+    member: 'hasSystemFeature',
+    call: true,
+    args: true,
+    promise: true,
+  },
+  hasSystemFeatureSync: { member: 'hasSystemFeature', call: true, args: true },
+  getSystemAvailableFeatures: {
+    member: 'systemAvailableFeatures',
+    promise: true,
+  },
+  getSystemAvailableFeaturesSync: { member: 'systemAvailableFeatures' },
+  getSupportedMediaTypeList: {
+    member: 'supportedMediaTypeList',
+    promise: true,
+  },
+  getSupportedMediaTypeListSync: { member: 'supportedMediaTypeList' },
+  isLandscape: { member: 'getIsLandscape', call: true, promise: true },
+  isLandscapeSync: { member: 'getIsLandscape', call: true },
+  isTabletMode: { member: 'isTabletMode', promise: true },
+  isMouseConnected: { member: 'isMouseConnected', promise: true },
+  isMouseConnectedSync: { member: 'isMouseConnected' },
+  isKeyboardConnected: { member: 'isKeyboardConnected', promise: true },
+  isKeyboardConnectedSync: { member: 'isKeyboardConnected' },
+  supportedAbis: { member: 'supportedAbis', promise: true },
+  supportedAbisSync: { member: 'supportedAbis' },
+  supported32BitAbis: { member: 'supported32BitAbis', promise: true },
+  supported32BitAbisSync: { member: 'supported32BitAbis' },
+  supported64BitAbis: { member: 'supported64BitAbis', promise: true },
+  supported64BitAbisSync: { member: 'supported64BitAbis' },
+  getTotalMemory: { member: 'totalMemory', promise: true },
+  getTotalMemorySync: { member: 'totalMemory' },
+  getUsedMemory: { member: 'getUsedMemory', call: true, promise: true },
+  getUsedMemorySync: { member: 'getUsedMemory', call: true },
+  getMaxMemory: { member: 'maxMemory', promise: true },
+  getMaxMemorySync: { member: 'maxMemory' },
+  getTotalDiskCapacity: { member: 'totalDiskCapacity', promise: true },
+  getTotalDiskCapacitySync: { member: 'totalDiskCapacity' },
+  getTotalDiskCapacityOld: { member: 'totalDiskCapacityOld', promise: true },
+  getTotalDiskCapacityOldSync: { member: 'totalDiskCapacityOld' },
+  getFreeDiskStorage: {
+    member: 'getFreeDiskStorage',
+    call: true,
+    promise: true,
+    withArgs: {
+      member: 'getFreeDiskStorageFor',
+      call: true,
+      args: true,
+      async: true,
+    },
+  },
+  getFreeDiskStorageSync: { member: 'getFreeDiskStorage', call: true },
+  getFreeDiskStorageOld: {
+    member: 'getFreeDiskStorageOld',
+    call: true,
+    promise: true,
+  },
+  getFreeDiskStorageOldSync: { member: 'getFreeDiskStorageOld', call: true },
+  getBatteryLevel: { member: 'getBatteryLevel', call: true, promise: true },
+  getBatteryLevelSync: { member: 'getBatteryLevel', call: true },
+  getPowerState: { member: 'getPowerState', call: true, promise: true },
+  getPowerStateSync: { member: 'getPowerState', call: true },
+  isBatteryCharging: {
+    member: 'getIsBatteryCharging',
+    call: true,
+    promise: true,
+  },
+  isBatteryChargingSync: { member: 'getIsBatteryCharging', call: true },
+  isLowBatteryLevel: { member: 'isLowBatteryLevel', call: true, args: true },
+  getIpAddress: { member: 'getIpAddress', call: true, async: true },
+  getIpAddressSync: { member: 'getIpAddressSync', call: true },
+  getCarrier: { member: 'getCarrier', call: true, async: true },
+  getCarrierSync: { member: 'getCarrierSync', call: true },
+  isAirplaneMode: { member: 'getIsAirplaneMode', call: true, promise: true },
+  isAirplaneModeSync: { member: 'getIsAirplaneMode', call: true },
+  getUserAgent: { member: 'getUserAgent', call: true, async: true },
+  getUserAgentSync: { member: 'userAgent' },
+  isHeadphonesConnected: { member: 'isHeadphonesConnected', call: true, async: true },
+  isHeadphonesConnectedSync: { member: 'getIsHeadphonesConnected', call: true },
+  isWiredHeadphonesConnected: {
+    member: 'getIsWiredHeadphonesConnected',
+    call: true,
+    promise: true,
+  },
+  isWiredHeadphonesConnectedSync: {
+    member: 'getIsWiredHeadphonesConnected',
+    call: true,
+  },
+  isBluetoothHeadphonesConnected: {
+    member: 'getIsBluetoothHeadphonesConnected',
+    call: true,
+    promise: true,
+  },
+  isBluetoothHeadphonesConnectedSync: {
+    member: 'getIsBluetoothHeadphonesConnected',
+    call: true,
+  },
+  isLocationEnabled: { member: 'isLocationEnabled', call: true, async: true },
+  isLocationEnabledSync: { member: 'getIsLocationEnabled', call: true },
+  getFontScale: { member: 'getFontScale', call: true, promise: true },
+  getFontScaleSync: { member: 'getFontScale', call: true },
+  getBrightness: { member: 'getBrightness', call: true, promise: true },
+  getBrightnessSync: { member: 'getBrightness', call: true },
+  getDeviceToken: { member: 'getDeviceToken', call: true, async: true },
+};
+
+const UNCONVERTIBLE: Readonly<Record<string, string>> = {
+  getInstanceId: 'no native equivalent; the compat layer returns a placeholder',
+  getInstanceIdSync:
+    'no native equivalent; the compat layer returns a placeholder',
+  getAppSetId: 'no native equivalent; the compat layer returns a placeholder',
+  getInstallReferrerSync:
+    'the install referrer is only available asynchronously; use DeviceInfoModule.getInstallReferrer()',
+  getAvailableLocationProviders:
+    'DeviceInfoModule.getAvailableLocationProviders() returns enabled provider names, not a map',
+  getAvailableLocationProvidersSync:
+    'DeviceInfoModule.getAvailableLocationProviders() returns enabled provider names, not a map',
+  useIsHeadphonesConnected:
+    'the core hook returns a boolean instead of { loading, result }',
+  useIsWiredHeadphonesConnected:
+    'the core hook returns a boolean instead of { loading, result }',
+  useIsBluetoothHeadphonesConnected:
+    'the core hook returns a boolean instead of { loading, result }',
+  useFirstInstallTime:
+    'no core hook; read DeviceInfoModule.getFirstInstallTime() in an effect',
+  useDeviceName: 'no core hook; read DeviceInfoModule.deviceName directly',
+  useHasSystemFeature:
+    'no core hook; call DeviceInfoModule.hasSystemFeature() directly',
+  useIsEmulator: 'no core hook; read DeviceInfoModule.isEmulator directly',
+  useManufacturer: 'no core hook; read DeviceInfoModule.manufacturer directly',
+};
+
+/** Compat hooks that are re-exports of the core hooks */
+const CORE_HOOKS = new Set([
+  'useBatteryLevel',
+  'useBatteryLevelIsLow',
+  'usePowerState',
+  'useBrightness',
+]);
+
+function isCompatImport(path: ASTPath<ImportDeclaration>): boolean {
+  return path.node.source.value === COMPAT_MODULE;
+}
+
+/**
+ * Whether `name` is still read anywhere outside import specifiers, property
+ * keys and non-computed member properties.
+ */
+function isReferenced(j: JSCodeshift, root: Collection, name: string): boolean {
+  return (
+    root.find(j.Identifier, { name }).filter(path => {
+      const parent = path.parent?.node;
+      if (!parent) {
+        return true;
+      }
+      switch (parent.type) {
+        case 'ImportSpecifier':
+        case 'ImportDefaultSpecifier':
+        case 'ImportNamespaceSpecifier':
+          return false;
+        case 'MemberExpression':
+        case 'OptionalMemberExpression':
+          return parent.object === path.node || parent.computed;
+        case 'Property':
+        case 'ObjectProperty':
+          return parent.value === path.node || parent.computed;
+        default:
+          return true;
+      }
+    }).length > 0
+  );
+}
+
+/**
+ * Attach `// TODO(nitro-migrate): <exportName> — <reason>` to the statement
+ * that contains `path`, once per statement.
+ */
+function addTodo(
+  j: JSCodeshift,
+  path: ASTPath,
+  exportName: string,
+  reason: string
+): void {
+  let statement = j(path).closest(j.Statement).paths()[0];
+  if (!statement) {
+    return;
+  }
+  const parentType = statement.parent?.node.type;
+  if (
+    parentType === 'ExportNamedDeclaration' ||
+    parentType === 'ExportDefaultDeclaration'
+  ) {
+    statement = statement.parent;
+  }
+
+  const node = statement!.node as { comments?: unknown[] };
+  const text = ` ${TODO_TAG}: ${exportName} — ${reason}`;
+  const comments = (node.comments ?? []) as Array<{ value: string }>;
+  if (!comments.some(comment => comment.value === text)) {
+    node.comments = [...comments, j.commentLine(text, true, false)];
+  }
+}
+
+/**
+ * Add `specifiers` to the value import from the core entry point, creating it
+ * after the last import when there is none.
+ */
+function addCoreSpecifiers(
+  j: JSCodeshift,
+  root: Collection,
+  specifiers: ImportSpecifier[]
+): void {
+  if (specifiers.length === 0) {
+    return;
+  }
+  const coreImport = root
+    .find(j.ImportDeclaration, { source: { value: CORE_MODULE } })
+    .filter(path => path.node.importKind !== 'type')
+    .paths()[0];
+  if (coreImport) {
+    coreImport.node.specifiers = [
+      ...(coreImport.node.specifiers ?? []),
+      ...specifiers,
+    ];
+  } else {
+    const declaration = j.importDeclaration(
+      specifiers,
+      j.literal(CORE_MODULE)
+    );
+    const imports = root.find(j.ImportDeclaration).paths();
+    const last = imports[imports.length - 1];
+    if (last) {
+      last.insertAfter(declaration);
+    } else {
+      root.get().node.program.body.unshift(declaration);
+    }
+  }
+}
+
+const transform: Transform = (
+  file: FileInfo,
+  api: API,
+  _options: Options
+): string | undefined => {
+  const j = api.jscodeshift;
+  const root = j(file.source);
+
+  const compatImports = root.find(j.ImportDeclaration).filter(isCompatImport);
+  if (compatImports.length === 0) {
+    return undefined;
+  }
+
+  // Local binding → compat export name
+  const namedLocals = new Map<string, string>();
+  const objectLocals = new Set<string>();
+  // Core hook export name → local name to import it under
+  const coreHooks = new Map<string, string>();
+  let converted = 0;
+  let todos = 0;
+  compatImports.forEach(path => {
+    for (const specifier of path.node.specifiers ?? []) {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        continue;
+      }
+      if (specifier.type === 'ImportSpecifier') {
+        const imported = specifier.imported.name;
+        if (typeof imported !== 'string') {
+          continue;
+        }
+        if (CORE_HOOKS.has(imported)) {
+          // Same function either way; move the binding as a whole
+          coreHooks.set(imported, local);
+          converted += 1;
+        } else {
+          namedLocals.set(local, imported);
+        }
+      } else {
+        objectLocals.add(local);
+      }
+    }
+  });
+
+  // Reuse an existing `DeviceInfoModule` binding from the core entry point
+  let moduleLocal = MODULE_EXPORT;
+  root
+    .find(j.ImportDeclaration, { source: { value: CORE_MODULE } })
+    .forEach(path => {
+      for (const specifier of path.node.specifiers ?? []) {
+        if (
+          specifier.type === 'ImportSpecifier' &&
+          specifier.imported.name === MODULE_EXPORT &&
+          typeof specifier.local?.name === 'string'
+        ) {
+          moduleLocal = specifier.local.name;
+        }
+      }
+    });
+
+  let needsModule = false;
+  const exportNameOf = (node: CallExpression): string | undefined => {
+    const { callee } = node;
+    if (callee.type === 'Identifier') {
+      return namedLocals.get(callee.name);
+    }
+    if (
+      callee.type === 'MemberExpression' &&
+      !callee.computed &&
+      callee.object.type === 'Identifier' &&
+      objectLocals.has(callee.object.name) &&
+      callee.property.type === 'Identifier'
+    ) {
+      return callee.property.name;
+    }
+    return undefined;
+  };
+
+  // Innermost calls first, so nested compat calls are rewritten before the
+  // arguments of their parent are reused
+  const calls = root.find(j.CallExpression).paths().reverse();
+
+  for (const path of calls) {
+    const exportName = exportNameOf(path.node);
+    if (!exportName) {
+      continue;
+    }
+
+    const target =
+      path.node.arguments.length > 0
+        ? (NATIVE_TARGETS[exportName]?.withArgs ?? NATIVE_TARGETS[exportName])
+        : NATIVE_TARGETS[exportName];
+    if (target) {
+      const access = j.memberExpression(
+        j.identifier(moduleLocal),
+        j.identifier(target.member)
+      );
+      const native = target.call
+        ? j.callExpression(access, target.args ? path.node.arguments : [])
+        : access;
+
+      const parent = path.parent?.node;
+      if (
+        !target.async &&
+        parent?.type === 'AwaitExpression' &&
+        parent.argument === path.node
+      ) {
+        // The value is synchronous now; the await is redundant
+        path.parent.replace(native);
+      } else if (target.promise) {
+        path.replace(
+          j.callExpression(
+            j.memberExpression(
+              j.identifier('Promise'),
+              j.identifier('resolve')
+            ),
+            [native]
+          )
+        );
+      } else {
+        path.replace(native);
+      }
+      needsModule = true;
+      converted += 1;
+      continue;
+    }
+
+    if (CORE_HOOKS.has(exportName)) {
+      // `DeviceInfo.useBatteryLevel()` → `useBatteryLevel()`
+      coreHooks.set(exportName, coreHooks.get(exportName) ?? exportName);
+      path.node.callee = j.identifier(coreHooks.get(exportName)!);
+      converted += 1;
+      continue;
+    }
+
+    const reason = UNCONVERTIBLE[exportName];
+    if (reason) {
+      addTodo(j, path, exportName, reason);
+      todos += 1;
+    }
+  }
+
+  if (converted === 0 && todos === 0) {
+    return undefined;
+  }
+
+  // Drop compat bindings that are no longer used
+  compatImports.forEach(path => {
+    path.node.specifiers = (path.node.specifiers ?? []).filter(specifier => {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        return true;
+      }
+      if (
+        specifier.type === 'ImportSpecifier' &&
+        coreHooks.has(String(specifier.imported.name))
+      ) {
+        return false;
+      }
+      return isReferenced(j, root, local);
+    });
+    if (path.node.specifiers.length === 0) {
+      j(path).remove();
+    }
+  });
+
+  // Import what the rewritten call sites need from the core entry point
+  const coreSpecifiers = [...coreHooks].map(([imported, local]) =>
+    j.importSpecifier(
+      j.identifier(imported),
+      local === imported ? null : j.identifier(local)
+    )
+  );
+  if (needsModule && moduleLocal === MODULE_EXPORT) {
+    const hasModuleImport = root
+      .find(j.ImportSpecifier, { imported: { name: MODULE_EXPORT } })
+      .some(path => {
+        const declaration = j(path).closest(j.ImportDeclaration).get().node;
+        return declaration.source.value === CORE_MODULE;
+      });
+    if (!hasModuleImport) {
+      coreSpecifiers.unshift(j.importSpecifier(j.identifier(MODULE_EXPORT)));
+    }
+  }
+
+  addCoreSpecifiers(j, root, coreSpecifiers);
+
+  if (typeof api.stats === 'function') {
+    api.stats('converted', converted);
+    api.stats('todos', todos);
+  }
+
+  return root.toSource({ quote: 'single' });
+};
+
+export default transform;
+export {
+  addCoreSpecifiers,
+  addTodo,
+  isReferenced,
+  COMPAT_MODULE,
+  CORE_HOOKS,
+  CORE_MODULE,
+  NATIVE_TARGETS,
+  TODO_TAG,
+  UNCONVERTIBLE,
+};
+export type { NativeTarget };
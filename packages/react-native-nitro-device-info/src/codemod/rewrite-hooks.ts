@@ -0,0 +1,351 @@
+/**
+ * jscodeshift transform: rewrite compat hook calls to the core hooks in
+ * `src/hooks`.
+ *
+ * Runs after `rewrite-imports` and before `rewrite-call-sites`. Hooks that the
+ * compat layer re-exports unchanged move to the core import. Hooks that wrap a
+ * core hook's bare value in RNDI's `{ loading, result }` shape are unwrapped:
+ * `const { result: connected } = useIsHeadphonesConnected()` becomes
+ * `const connected = useIsHeadphonesConnected()`, and `state.result` reads
+ * become `state`. The core hooks have no loading state, so a `loading` read is
+ * replaced with `false` and marked with `// TODO(nitro-migrate)`. Usages that
+ * cannot be unwrapped safely, and hooks without a core equivalent, stay on the
+ * compat layer with the same marker.
+ *
+ * @module react-native-nitro-device-info/codemod
+ */
+
+import type {
+  API,
+  ASTPath,
+  CallExpression,
+  Collection,
+  FileInfo,
+  Identifier,
+  ImportSpecifier,
+  JSCodeshift,
+  MemberExpression,
+  Options,
+  Transform,
+} from 'jscodeshift';
+import {
+  addCoreSpecifiers,
+  addTodo,
+  COMPAT_MODULE,
+  CORE_HOOKS,
+  isReferenced,
+  UNCONVERTIBLE,
+} from './rewrite-call-sites';
+
+/** Compat hooks that wrap a core hook's bare value in `{ loading, result }` */
+const WRAPPED_HOOKS = new Set([
+  'useIsHeadphonesConnected',
+  'useIsWiredHeadphonesConnected',
+  'useIsBluetoothHeadphonesConnected',
+]);
+
+const LOADING_REASON =
+  'the core hook has no loading state; `loading` is now always false';
+
+/**
+ * How to rewrite one wrapped hook call once the callee is the core hook
+ */
+interface Unwrap {
+  apply: () => void;
+  readsLoading: boolean;
+}
+
+const isNamed = (node: { type: string }, name: string): boolean =>
+  node.type === 'Identifier' && (node as Identifier).name === name;
+
+/** `x.result` / `x.loading` with a non-computed property, or `undefined` */
+function resultField(
+  parent: { type: string } | undefined,
+  object: unknown
+): 'result' | 'loading' | undefined {
+  if (parent?.type !== 'MemberExpression') {
+    return undefined;
+  }
+  const member = parent as MemberExpression;
+  if (member.object !== object || member.computed) {
+    return undefined;
+  }
+  if (isNamed(member.property, 'result')) {
+    return 'result';
+  }
+  return isNamed(member.property, 'loading') ? 'loading' : undefined;
+}
+
+/**
+ * Work out how to unwrap `{ loading, result }` around one hook call. Returns
+ * `undefined` when the value escapes in a way that cannot be rewritten safely
+ * (passed along whole, spread, destructured with defaults, ...).
+ */
+function planUnwrap(
+  j: JSCodeshift,
+  path: ASTPath<CallExpression>
+): Unwrap | undefined {
+  const parent = path.parent?.node;
+
+  // useIsHeadphonesConnected().result
+  if (resultField(parent, path.node) === 'result') {
+    return {
+      apply: () => path.parent.replace(path.node),
+      readsLoading: false,
+    };
+  }
+
+  if (parent?.type !== 'VariableDeclarator' || parent.init !== path.node) {
+    return undefined;
+  }
+  const declaration = path.parent.parent;
+  const statementList = declaration?.parent?.node.type;
+  if (
+    declaration?.node.type !== 'VariableDeclaration' ||
+    (statementList !== 'BlockStatement' && statementList !== 'Program')
+  ) {
+    return undefined;
+  }
+
+  // const { loading, result: connected } = useIsHeadphonesConnected();
+  if (parent.id.type === 'ObjectPattern') {
+    const bindings: Partial<Record<'result' | 'loading', string>> = {};
+    for (const property of parent.id.properties) {
+      if (
+        (property.type !== 'Property' && property.type !== 'ObjectProperty') ||
+        property.computed ||
+        property.key.type !== 'Identifier' ||
+        property.value.type !== 'Identifier'
+      ) {
+        return undefined;
+      }
+      const key: string = property.key.name;
+      if (key !== 'result' && key !== 'loading') {
+        return undefined;
+      }
+      bindings[key] = property.value.name;
+    }
+    const { result, loading } = bindings;
+    if (!result) {
+      return undefined;
+    }
+    return {
+      apply: () => {
+        parent.id = j.identifier(result);
+        if (loading) {
+          declaration.insertAfter(
+            j.variableDeclaration(declaration.node.kind, [
+              j.variableDeclarator(j.identifier(loading), j.literal(false)),
+            ])
+          );
+        }
+      },
+      readsLoading: loading !== undefined,
+    };
+  }
+
+  // const state = useIsHeadphonesConnected(); ... state.result / state.loading
+  if (parent.id.type === 'Identifier') {
+    const name = parent.id.name;
+    const scope = j(path).closest(j.Function);
+    const reads = (scope.length > 0 ? scope : j(path).closest(j.Program))
+      .find(j.Identifier, { name })
+      .filter(read => read.node !== parent.id);
+    const fields = reads.paths().map(read => ({
+      read,
+      field: resultField(read.parent?.node, read.node),
+    }));
+    if (fields.length === 0 || fields.some(({ field }) => !field)) {
+      return undefined;
+    }
+    return {
+      apply: () => {
+        for (const { read, field } of fields) {
+          read.parent.replace(
+            field === 'result' ? j.identifier(name) : j.literal(false)
+          );
+        }
+      },
+      readsLoading: fields.some(({ field }) => field === 'loading'),
+    };
+  }
+
+  return undefined;
+}
+
+const transform: Transform = (
+  file: FileInfo,
+  api: API,
+  _options: Options
+): string | undefined => {
+  const j = api.jscodeshift;
+  const root: Collection = j(file.source);
+
+  const compatImports = root.find(j.ImportDeclaration, {
+    source: { value: COMPAT_MODULE },
+  });
+  if (compatImports.length === 0) {
+    return undefined;
+  }
+
+  // Local binding → compat hook name
+  const hookLocals = new Map<string, string>();
+  const objectLocals = new Set<string>();
+  compatImports.forEach(path => {
+    for (const specifier of path.node.specifiers ?? []) {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        continue;
+      }
+      if (specifier.type !== 'ImportSpecifier') {
+        objectLocals.add(local);
+      } else if (
+        typeof specifier.imported.name === 'string' &&
+        specifier.imported.name.startsWith('use')
+      ) {
+        hookLocals.set(local, specifier.imported.name);
+      }
+    }
+  });
+
+  const hookNameOf = (node: CallExpression): string | undefined => {
+    const { callee } = node;
+    if (callee.type === 'Identifier') {
+      return hookLocals.get(callee.name);
+    }
+    if (
+      callee.type === 'MemberExpression' &&
+      !callee.computed &&
+      callee.object.type === 'Identifier' &&
+      objectLocals.has(callee.object.name) &&
+      callee.property.type === 'Identifier' &&
+      callee.property.name.startsWith('use')
+    ) {
+      return callee.property.name;
+    }
+    return undefined;
+  };
+
+  // Hook name → its calls, in source order
+  const callsByHook = new Map<string, Array<ASTPath<CallExpression>>>();
+  root.find(j.CallExpression).forEach(path => {
+    const hook = hookNameOf(path.node);
+    if (hook) {
+      callsByHook.set(hook, [...(callsByHook.get(hook) ?? []), path]);
+    }
+  });
+
+  // Core hook name → local name to import it under
+  const coreHooks = new Map<string, string>();
+  const localFor = (hook: string) => {
+    for (const [local, imported] of hookLocals) {
+      if (imported === hook) {
+        return local;
+      }
+    }
+    return hook;
+  };
+  // A named binding that is also read as a value cannot be swapped wholesale
+  const onlyCalled = (hook: string) => {
+    const local = localFor(hook);
+    return (
+      !hookLocals.has(local) ||
+      root
+        .find(j.Identifier, { name: local })
+        .filter(path => path.parent?.node.type !== 'ImportSpecifier')
+        .every(path => {
+          const parent = path.parent?.node;
+          return (
+            parent?.type === 'CallExpression' && parent.callee === path.node
+          );
+        })
+    );
+  };
+
+  let converted = 0;
+  let todos = 0;
+
+  for (const [hook, calls] of callsByHook) {
+    if (CORE_HOOKS.has(hook)) {
+      // Same function either way
+      const local = localFor(hook);
+      coreHooks.set(hook, local);
+      for (const path of calls) {
+        path.node.callee = j.identifier(local);
+      }
+      converted += calls.length;
+      continue;
+    }
+
+    if (WRAPPED_HOOKS.has(hook)) {
+      const plans = calls.map(path => planUnwrap(j, path));
+      if (onlyCalled(hook) && plans.every(plan => plan !== undefined)) {
+        const local = localFor(hook);
+        coreHooks.set(hook, local);
+        calls.forEach((path, index) => {
+          const plan = plans[index]!;
+          if (plan.readsLoading) {
+            addTodo(j, path, hook, LOADING_REASON);
+            todos += 1;
+          }
+          path.node.callee = j.identifier(local);
+          plan.apply();
+        });
+        converted += calls.length;
+        continue;
+      }
+    }
+
+    // Same marker as rewrite-call-sites, so running both adds it once
+    const reason = UNCONVERTIBLE[hook];
+    if (reason) {
+      for (const path of calls) {
+        addTodo(j, path, hook, reason);
+      }
+      todos += calls.length;
+    }
+  }
+
+  if (converted === 0 && todos === 0) {
+    return undefined;
+  }
+
+  // Drop compat bindings that are no longer used
+  compatImports.forEach(path => {
+    path.node.specifiers = (path.node.specifiers ?? []).filter(specifier => {
+      const local = specifier.local?.name;
+      if (typeof local !== 'string') {
+        return true;
+      }
+      if (
+        specifier.type === 'ImportSpecifier' &&
+        coreHooks.has(String(specifier.imported.name))
+      ) {
+        return false;
+      }
+      return isReferenced(j, root, local);
+    });
+    if (path.node.specifiers.length === 0) {
+      j(path).remove();
+    }
+  });
+
+  const coreSpecifiers: ImportSpecifier[] = [...coreHooks].map(
+    ([imported, local]) =>
+      j.importSpecifier(
+        j.identifier(imported),
+        local === imported ? null : j.identifier(local)
+      )
+  );
+  addCoreSpecifiers(j, root, coreSpecifiers);
+
+  if (typeof api.stats === 'function') {
+    api.stats('converted', converted);
+    api.stats('todos', todos);
+  }
+
+  return root.toSource({ quote: 'single' });
+};
+
+export default transform;
+export { WRAPPED_HOOKS };
@@ -4,7 +4,8 @@
  *
  * Stage 1 — import-rewrite only. ES imports (default, named, namespace),
  * re-exports, and CommonJS `require(...)` are retargeted. Call sites
- * (e.g. `DeviceInfo.getModel()`) are intentionally left untouched.
+ * (e.g. `DeviceInfo.getModel()`) are intentionally left untouched; Stage 2
+ * (`rewrite-call-sites`) rewrites them.
  *
  * @module react-native-nitro-device-info/codemod
  */
@@ -31,6 +31,7 @@ import {
   providersArrayToMap,
   toAsyncHookResult,
 } from './transforms';
+import { registerCompatExports } from './telemetry';
 import type {
   AsyncHookResult,
   AppSetIdInfo,
@@ -45,12 +46,13 @@ import type {
 
 export const getUniqueId = asyncProp(() => DeviceInfoModule.uniqueId);
 export const getUniqueIdSync = syncProp(() => DeviceInfoModule.uniqueId);
-export const syncUniqueId = (): Promise<string> =>
-  DeviceInfoModule.syncUniqueId();
+export const syncUniqueId = syncProp(
+  (): Promise<string> => DeviceInfoModule.syncUniqueId()
+);
 
-export const getDeviceId = (): string => DeviceInfoModule.deviceId;
-export const getModel = (): string => DeviceInfoModule.model;
-export const getBrand = (): string => DeviceInfoModule.brand;
+export const getDeviceId = syncProp((): string => DeviceInfoModule.deviceId);
+export const getModel = syncProp((): string => DeviceInfoModule.model);
+export const getBrand = syncProp((): string => DeviceInfoModule.brand);
 
 export const getManufacturer = asyncProp(() => DeviceInfoModule.manufacturer);
 export const getManufacturerSync = syncProp(
@@ -60,8 +62,12 @@ export const getManufacturerSync = syncProp(
 export const getDeviceName = asyncProp(() => DeviceInfoModule.deviceName);
 export const getDeviceNameSync = syncProp(() => DeviceInfoModule.deviceName);
 
-export const getDeviceType = (): string => DeviceInfoModule.deviceType;
-export const getDeviceTypeSync = (): string => DeviceInfoModule.deviceType;
+export const getDeviceType = syncProp(
+  (): string => DeviceInfoModule.deviceType
+);
+export const getDeviceTypeSync = syncProp(
+  (): string => DeviceInfoModule.deviceType
+);
 
 export const getSerialNumber = asyncProp(() => DeviceInfoModule.serialNumber);
 export const getSerialNumberSync = syncProp(
@@ -71,10 +77,12 @@ export const getSerialNumberSync = syncProp(
 export const getAndroidId = asyncProp(() => DeviceInfoModule.androidId);
 export const getAndroidIdSync = syncProp(() => DeviceInfoModule.androidId);
 
-export const getMacAddress = (): Promise<string> =>
-  DeviceInfoModule.getMacAddress();
-export const getMacAddressSync = (): string =>
-  DeviceInfoModule.getMacAddressSync();
+export const getMacAddress = syncProp(
+  (): Promise<string> => DeviceInfoModule.getMacAddress()
+);
+export const getMacAddressSync = syncProp((): string =>
+  DeviceInfoModule.getMacAddressSync()
+);
 
 /**
  * @remarks
@@ -95,15 +103,20 @@ export const getInstanceIdSync = syncProp((): string => 'unknown');
  * `{ id: 'unknown', scope: -1 }`, identical to RNDI's value when the optional
  * Play Services App Set dependency is absent.
  */
-export const getAppSetId = (): Promise<AppSetIdInfo> =>
-  Promise.resolve({ id: 'unknown', scope: -1 });
+export const getAppSetId = syncProp(
+  (): Promise<AppSetIdInfo> => Promise.resolve({ id: 'unknown', scope: -1 })
+);
 
 // ============================================================================
 // 2. OS / system
 // ============================================================================
 
-export const getSystemName = (): string => DeviceInfoModule.systemName;
-export const getSystemVersion = (): string => DeviceInfoModule.systemVersion;
+export const getSystemName = syncProp(
+  (): string => DeviceInfoModule.systemName
+);
+export const getSystemVersion = syncProp(
+  (): string => DeviceInfoModule.systemVersion
+);
 
 export const getApiLevel = asyncProp(() => DeviceInfoModule.apiLevel);
 export const getApiLevelSync = syncProp(() => DeviceInfoModule.apiLevel);
@@ -164,13 +177,17 @@ export const getHostNamesSync = syncProp(() => DeviceInfoModule.hostNames);
 // 3. App metadata
 // ============================================================================
 
-export const getVersion = (): string => DeviceInfoModule.version;
-export const getBuildNumber = (): string => DeviceInfoModule.buildNumber;
-export const getBundleId = (): string => DeviceInfoModule.bundleId;
-export const getApplicationName = (): string =>
-  DeviceInfoModule.applicationName;
-export const getReadableVersion = (): string =>
-  DeviceInfoModule.readableVersion;
+export const getVersion = syncProp((): string => DeviceInfoModule.version);
+export const getBuildNumber = syncProp(
+  (): string => DeviceInfoModule.buildNumber
+);
+export const getBundleId = syncProp((): string => DeviceInfoModule.bundleId);
+export const getApplicationName = syncProp(
+  (): string => DeviceInfoModule.applicationName
+);
+export const getReadableVersion = syncProp(
+  (): string => DeviceInfoModule.readableVersion
+);
 
 export const getInstallerPackageName = asyncProp(
   () => DeviceInfoModule.installerPackageName
@@ -179,8 +196,9 @@ export const getInstallerPackageNameSync = syncProp(
   () => DeviceInfoModule.installerPackageName
 );
 
-export const getInstallReferrer = (): Promise<string> =>
-  DeviceInfoModule.getInstallReferrer();
+export const getInstallReferrer = syncProp(
+  (): Promise<string> => DeviceInfoModule.getInstallReferrer()
+);
 
 /**
  * @remarks
@@ -190,14 +208,16 @@ export const getInstallReferrer = (): Promise<string> =>
  */
 export const getInstallReferrerSync = syncProp((): string => 'unknown');
 
-export const getFirstInstallTime = (): Promise<number> =>
-  DeviceInfoModule.getFirstInstallTime();
+export const getFirstInstallTime = syncProp(
+  (): Promise<number> => DeviceInfoModule.getFirstInstallTime()
+);
 export const getFirstInstallTimeSync = syncProp(
   () => DeviceInfoModule.firstInstallTimeSync
 );
 
-export const getLastUpdateTime = (): Promise<number> =>
-  DeviceInfoModule.getLastUpdateTime();
+export const getLastUpdateTime = syncProp(
+  (): Promise<number> => DeviceInfoModule.getLastUpdateTime()
+);
 export const getLastUpdateTimeSync = syncProp(
   () => DeviceInfoModule.lastUpdateTimeSync
 );
@@ -212,9 +232,13 @@ export const getStartupTimeSync = syncProp(() => DeviceInfoModule.startupTime);
 export const isEmulator = asyncProp(() => DeviceInfoModule.isEmulator);
 export const isEmulatorSync = syncProp(() => DeviceInfoModule.isEmulator);
 
-export const isTablet = (): boolean => DeviceInfoModule.isTablet;
-export const isLowRamDevice = (): boolean => DeviceInfoModule.isLowRamDevice;
-export const isDisplayZoomed = (): boolean => DeviceInfoModule.isDisplayZoomed;
+export const isTablet = syncProp((): boolean => DeviceInfoModule.isTablet);
+export const isLowRamDevice = syncProp(
+  (): boolean => DeviceInfoModule.isLowRamDevice
+);
+export const isDisplayZoomed = syncProp(
+  (): boolean => DeviceInfoModule.isDisplayZoomed
+);
 
 export const isPinOrFingerprintSet = asyncProp(
   () => DeviceInfoModule.isPinOrFingerprintSet
@@ -230,9 +254,10 @@ export const isCameraPresentSync = syncProp(
   () => DeviceInfoModule.isCameraPresent
 );
 
-export const hasNotch = (): boolean => DeviceInfoModule.getHasNotch();
-export const hasDynamicIsland = (): boolean =>
-  DeviceInfoModule.getHasDynamicIsland();
+export const hasNotch = syncProp((): boolean => DeviceInfoModule.getHasNotch());
+export const hasDynamicIsland = syncProp((): boolean =>
+  DeviceInfoModule.getHasDynamicIsland()
+);
 
 export const hasGms = asyncProp(() => DeviceInfoModule.getHasGms());
 export const hasGmsSync = syncProp(() => DeviceInfoModule.getHasGms());
@@ -240,10 +265,13 @@ export const hasGmsSync = syncProp(() => DeviceInfoModule.getHasGms());
 export const hasHms = asyncProp(() => DeviceInfoModule.getHasHms());
 export const hasHmsSync = syncProp(() => DeviceInfoModule.getHasHms());
 
-export const hasSystemFeature = (feature: string): Promise<boolean> =>
-  Promise.resolve(DeviceInfoModule.hasSystemFeature(feature));
-export const hasSystemFeatureSync = (feature: string): boolean =>
-  DeviceInfoModule.hasSystemFeature(feature);
+export const hasSystemFeature = syncProp(
+  (feature: string): Promise<boolean> =>
+    Promise.resolve(DeviceInfoModule.hasSystemFeature(feature))
+);
+export const hasSystemFeatureSync = syncProp((feature: string): boolean =>
+  DeviceInfoModule.hasSystemFeature(feature)
+);
 
 export const getSystemAvailableFeatures = asyncProp(
   () => DeviceInfoModule.systemAvailableFeatures
@@ -334,20 +362,25 @@ export const getTotalDiskCapacityOldSync = syncProp(
 
 /**
  * @remarks
- * The `storageType` argument is accepted for RNDI signature parity but ignored;
- * this package has no per-bucket (iOS) storage query.
+ * With a `storageType`, reads that bucket through `getFreeDiskStorageFor()`.
+ * Without one, returns the plain free byte count like RNDI's default.
  */
-export const getFreeDiskStorage = (
-  _storageType?: AvailableCapacityType
-): Promise<number> => Promise.resolve(DeviceInfoModule.getFreeDiskStorage());
+export const getFreeDiskStorage = syncProp(
+  (storageType?: AvailableCapacityType): Promise<number> =>
+    storageType === undefined
+      ? Promise.resolve(DeviceInfoModule.getFreeDiskStorage())
+      : DeviceInfoModule.getFreeDiskStorageFor(storageType)
+);
 
 /**
  * @remarks
- * See {@link getFreeDiskStorage}: `storageType` is accepted and ignored.
+ * `storageType` is accepted and ignored: the per-bucket query is async only.
+ * Use {@link getFreeDiskStorage} with a `storageType` instead.
  */
-export const getFreeDiskStorageSync = (
-  _storageType?: AvailableCapacityType
-): number => DeviceInfoModule.getFreeDiskStorage();
+export const getFreeDiskStorageSync = syncProp(
+  (_storageType?: AvailableCapacityType): number =>
+    DeviceInfoModule.getFreeDiskStorage()
+);
 
 export const getFreeDiskStorageOld = asyncProp(() =>
   DeviceInfoModule.getFreeDiskStorageOld()
@@ -381,20 +414,27 @@ export const isBatteryChargingSync = syncProp(() =>
   DeviceInfoModule.getIsBatteryCharging()
 );
 
-export const isLowBatteryLevel = (level: number): boolean =>
-  DeviceInfoModule.isLowBatteryLevel(level);
+export const isLowBatteryLevel = syncProp((level: number): boolean =>
+  DeviceInfoModule.isLowBatteryLevel(level)
+);
 
 // ============================================================================
 // 8. Network & carrier
 // ============================================================================
 
-export const getIpAddress = (): Promise<string> =>
-  DeviceInfoModule.getIpAddress();
-export const getIpAddressSync = (): string =>
-  DeviceInfoModule.getIpAddressSync();
+export const getIpAddress = syncProp(
+  (): Promise<string> => DeviceInfoModule.getIpAddress()
+);
+export const getIpAddressSync = syncProp((): string =>
+  DeviceInfoModule.getIpAddressSync()
+);
 
-export const getCarrier = (): Promise<string> => DeviceInfoModule.getCarrier();
-export const getCarrierSync = (): string => DeviceInfoModule.getCarrierSync();
+export const getCarrier = syncProp(
+  (): Promise<string> => DeviceInfoModule.getCarrier()
+);
+export const getCarrierSync = syncProp((): string =>
+  DeviceInfoModule.getCarrierSync()
+);
 
 export const isAirplaneMode = asyncProp(() =>
   DeviceInfoModule.getIsAirplaneMode()
@@ -403,22 +443,28 @@ export const isAirplaneModeSync = syncProp(() =>
   DeviceInfoModule.getIsAirplaneMode()
 );
 
-export const getUserAgent = (): Promise<string> =>
-  DeviceInfoModule.getUserAgent();
+export const getUserAgent = syncProp(
+  (): Promise<string> => DeviceInfoModule.getUserAgent()
+);
 
 /**
  * @remarks
- * The user agent is only available asynchronously on this package (iOS WebView
- * init). The sync variant returns `''`; use {@link getUserAgent} for the real value.
+ * Reads the cached `DeviceInfoModule.userAgent`. The native module starts
+ * loading it off the JS thread when it is created, and this returns `''` until
+ * that load finishes (100-500ms); await {@link getUserAgent} where the value
+ * must be there.
  */
-export const getUserAgentSync = syncProp((): string => '');
+export const getUserAgentSync = syncProp(
+  (): string => DeviceInfoModule.userAgent
+);
 
 // ============================================================================
 // 9. Audio accessories
 // ============================================================================
 
-export const isHeadphonesConnected = (): Promise<boolean> =>
-  DeviceInfoModule.isHeadphonesConnected();
+export const isHeadphonesConnected = syncProp(
+  (): Promise<boolean> => DeviceInfoModule.isHeadphonesConnected()
+);
 export const isHeadphonesConnectedSync = syncProp(() =>
   DeviceInfoModule.getIsHeadphonesConnected()
 );
@@ -441,23 +487,26 @@ export const isBluetoothHeadphonesConnectedSync = syncProp(() =>
 // 10. Location & display
 // ============================================================================
 
-export const isLocationEnabled = (): Promise<boolean> =>
-  DeviceInfoModule.isLocationEnabled();
+export const isLocationEnabled = syncProp(
+  (): Promise<boolean> => DeviceInfoModule.isLocationEnabled()
+);
 export const isLocationEnabledSync = syncProp(() =>
   DeviceInfoModule.getIsLocationEnabled()
 );
 
-export const getAvailableLocationProviders = (): Promise<LocationProviderInfo> =>
-  Promise.resolve(
+export const getAvailableLocationProviders = syncProp(
+  (): Promise<LocationProviderInfo> =>
+    Promise.resolve(
+      providersArrayToMap(DeviceInfoModule.getAvailableLocationProviders())
+    )
+);
+export const getAvailableLocationProvidersSync = syncProp(
+  (): LocationProviderInfo =>
     providersArrayToMap(DeviceInfoModule.getAvailableLocationProviders())
-  );
-export const getAvailableLocationProvidersSync = (): LocationProviderInfo =>
-  providersArrayToMap(DeviceInfoModule.getAvailableLocationProviders());
+);
 
 export const getFontScale = asyncProp(() => DeviceInfoModule.getFontScale());
-export const getFontScaleSync = syncProp(() =>
-  DeviceInfoModule.getFontScale()
-);
+export const getFontScaleSync = syncProp(() => DeviceInfoModule.getFontScale());
 
 export const getBrightness = asyncProp(() => DeviceInfoModule.getBrightness());
 export const getBrightnessSync = syncProp(() =>
@@ -468,8 +517,9 @@ export const getBrightnessSync = syncProp(() =>
 // 11. iOS-specific
 // ============================================================================
 
-export const getDeviceToken = (): Promise<string> =>
-  DeviceInfoModule.getDeviceToken();
+export const getDeviceToken = syncProp(
+  (): Promise<string> => DeviceInfoModule.getDeviceToken()
+);
 
 // ============================================================================
 // 12. Hooks
@@ -776,6 +826,17 @@ const DeviceInfo = {
   useManufacturer,
 };
 
+registerCompatExports(DeviceInfo);
+
+export {
+  enableCompatTelemetry,
+  disableCompatTelemetry,
+  resetCompatTelemetry,
+  getCompatUsageReport,
+  formatCompatUsageReport,
+} from './telemetry';
+export type { CompatUsageEntry, CompatUsageReport } from './telemetry';
+
 export type {
   AsyncHookResult,
   AppSetIdInfo,
@@ -0,0 +1,155 @@
+/**
+ * Compat usage telemetry
+ *
+ * Opt-in, in-memory counter of the compat getters an app calls at runtime.
+ * Turn it on in development or QA builds after running the codemod, exercise
+ * the app, then read the report: any export still listed is a legacy call
+ * that keeps the compat import alive. Nothing is sent anywhere.
+ *
+ * Counting happens in the `asyncProp` / `syncProp` wrappers, so every getter
+ * is covered. Hooks are not counted: they run on every render, so the numbers
+ * would measure renders rather than call sites. `migrate --report` lists them.
+ *
+ * @module react-native-nitro-device-info/compat
+ */
+
+/**
+ * Calls to one compat export since telemetry was enabled or reset
+ */
+export interface CompatUsageEntry {
+  name: string;
+  calls: number;
+  /** `Date.now()` of the first and latest call */
+  firstCalledAt: number;
+  lastCalledAt: number;
+}
+
+/**
+ * Snapshot returned by {@link getCompatUsageReport}
+ */
+export interface CompatUsageReport {
+  enabled: boolean;
+  /** When counting started (`Date.now()`), or `null` if it never has */
+  since: number | null;
+  totalCalls: number;
+  /** Most-called first */
+  exports: CompatUsageEntry[];
+}
+
+let enabled = false;
+let since: number | null = null;
+const usage = new Map<string, CompatUsageEntry>();
+const exportNames = new WeakMap<object, string>();
+
+/**
+ * Start counting compat calls. Counts from an earlier session are kept; call
+ * {@link resetCompatTelemetry} to start over.
+ *
+ * @example
+ * ```typescript
+ * import { enableCompatTelemetry } from 'react-native-nitro-device-info/compat';
+ *
+ * if (__DEV__ || Config.QA_BUILD) {
+ *   enableCompatTelemetry();
+ * }
+ * ```
+ */
+export function enableCompatTelemetry(): void {
+  if (!enabled) {
+    enabled = true;
+    since ??= Date.now();
+  }
+}
+
+/**
+ * Stop counting. Recorded calls stay available to {@link getCompatUsageReport}.
+ */
+export function disableCompatTelemetry(): void {
+  enabled = false;
+}
+
+/**
+ * Drop every recorded call.
+ */
+export function resetCompatTelemetry(): void {
+  usage.clear();
+  since = enabled ? Date.now() : null;
+}
+
+/**
+ * @returns Calls per compat export, most-called first
+ */
+export function getCompatUsageReport(): CompatUsageReport {
+  const exports = [...usage.values()]
+    .map(entry => ({ ...entry }))
+    .sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name));
+  return {
+    enabled,
+    since,
+    totalCalls: exports.reduce((total, entry) => total + entry.calls, 0),
+    exports,
+  };
+}
+
+/**
+ * Render a usage report as a plain-text table for the console or a QA log.
+ *
+ * @example
+ * ```typescript
+ * console.log(formatCompatUsageReport(getCompatUsageReport()));
+ * ```
+ */
+export function formatCompatUsageReport(report: CompatUsageReport): string {
+  if (report.exports.length === 0) {
+    return report.since === null
+      ? 'Compat telemetry was never enabled.'
+      : 'No compat exports were called. The compat import can be removed.';
+  }
+
+  const width = Math.max(...report.exports.map(entry => entry.name.length));
+  const lines = [
+    `${report.exports.length} compat export(s) still called ` +
+      `(${report.totalCalls} call(s) since ${new Date(report.since ?? 0).toISOString()}):`,
+  ];
+  for (const entry of report.exports) {
+    lines.push(`  ${entry.name.padEnd(width)}  ${entry.calls}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Name the compat wrappers after the exports they are published as. Called
+ * once with the aggregate `DeviceInfo` object.
+ *
+ * @internal
+ */
+export function registerCompatExports(exports: Record<string, unknown>): void {
+  for (const [name, value] of Object.entries(exports)) {
+    if (typeof value === 'function') {
+      exportNames.set(value, name);
+    }
+  }
+}
+
+/**
+ * Count one call of a compat wrapper. No-op while telemetry is off.
+ *
+ * @internal
+ */
+export function recordCompatCall(wrapper: object): void {
+  if (!enabled) {
+    return;
+  }
+  const name = exportNames.get(wrapper);
+  if (name === undefined) {
+    return;
+  }
+  const now = Date.now();
+  const entry = usage.get(name);
+  if (entry) {
+    entry.calls += 1;
+    entry.lastCalledAt = now;
+  } else {
+    usage.set(name, { name, calls: 1, firstCalledAt: now, lastCalledAt: now });
+  }
+}
@@ -7,7 +7,8 @@
  * @module react-native-nitro-device-info/compat
  */
 
-import type { PowerState } from '../DeviceInfo.nitro';
+import type { DiskCapacityKind, PowerState } from '../DeviceInfo.nitro';
+import { recordCompatCall } from './telemetry';
 
 /**
  * Map describing which location providers are currently enabled.
@@ -31,10 +32,10 @@ export interface AsyncHookResult<T> {
 /**
  * Disk capacity buckets used by iOS when querying storage information.
  *
- * Mirrors RNDI's `AvailableCapacityType`. Accepted for signature parity; the
- * core has no per-bucket query, so the argument is ignored.
+ * Mirrors RNDI's `AvailableCapacityType`; same values as the core
+ * `DiskCapacityKind`.
  */
-export type AvailableCapacityType = 'total' | 'important' | 'opportunistic';
+export type AvailableCapacityType = DiskCapacityKind;
 
 /**
  * Google Play Services App Set ID payload describing identifier and scope.
@@ -55,14 +56,25 @@ export interface AppSetIdInfo {
  * rather than a synchronous throw, honoring the async contract.
  */
 export function asyncProp<T>(read: () => T): () => Promise<T> {
-  return () => Promise.resolve().then(read);
+  const getter = (): Promise<T> => {
+    recordCompatCall(getter);
+    return Promise.resolve().then(read);
+  };
+  return getter;
 }
 
 /**
- * Wrap a synchronous core accessor as an RNDI sync getter.
+ * Wrap a core accessor as an RNDI getter that returns its value unchanged.
+ * Arguments are forwarded. Both wrappers report calls to the compat telemetry.
  */
-export function syncProp<T>(read: () => T): () => T {
-  return () => read();
+export function syncProp<A extends unknown[], T>(
+  read: (...args: A) => T
+): (...args: A) => T {
+  const getter = (...args: A): T => {
+    recordCompatCall(getter);
+    return read(...args);
+  };
+  return getter;
 }
 
 /**
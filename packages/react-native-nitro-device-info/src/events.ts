@@ -0,0 +1,263 @@
+/**
+ * Device state change subscriptions
+ *
+ * JS-side fan-out over the native `addListener` / `removeListener` callbacks.
+ * However many components subscribe to a channel, exactly one native listener
+ * is registered for it: it is added with the first subscriber and removed with
+ * the last, or while the app is in the background if every subscriber pauses
+ * there. Each native event is read once and the same value is delivered to
+ * every subscriber.
+ *
+ * @module react-native-nitro-device-info/events
+ */
+
+import { AppState, Platform } from 'react-native';
+import type { AppStateStatus, NativeEventSubscription } from 'react-native';
+import { DeviceInfoModule } from './index';
+import type { DeviceEventChannel, PowerState } from './DeviceInfo.nitro';
+
+/**
+ * Headphone connection state delivered on the `headphones` channel
+ */
+export interface HeadphoneState {
+  /** Wired headphones (3.5mm jack or Lightning/USB-C adapter) are connected */
+  wired: boolean;
+  /** Bluetooth audio devices are connected */
+  bluetooth: boolean;
+}
+
+/**
+ * Connectivity state delivered on the `network` channel
+ */
+export interface NetworkState {
+  /** Airplane mode is on (Android), or the browser is offline (web) */
+  airplaneMode: boolean;
+}
+
+/**
+ * Options for {@link subscribe}
+ */
+export interface SubscribeOptions {
+  /**
+   * Skip this listener while the app is in the background and call it with a
+   * fresh value as soon as it returns to `active`. A channel's native listener
+   * is removed while every one of its listeners is paused.
+   * @default false
+   */
+  pauseInBackground?: boolean;
+}
+
+/**
+ * Value delivered to subscribers of each channel
+ */
+export interface DeviceEventMap {
+  battery: PowerState;
+  brightness: number;
+  headphones: HeadphoneState;
+  network: NetworkState;
+}
+
+/**
+ * Listener invoked with the current value of a channel after every change
+ */
+export type DeviceEventListener<C extends DeviceEventChannel> = (
+  value: DeviceEventMap[C]
+) => void;
+
+/**
+ * Read the current value of a channel through its sync getters
+ */
+const readers: { [C in DeviceEventChannel]: () => DeviceEventMap[C] } = {
+  battery: () => DeviceInfoModule.getPowerState(),
+  brightness: () => DeviceInfoModule.getBrightness(),
+  headphones: () => ({
+    wired: DeviceInfoModule.getIsWiredHeadphonesConnected(),
+    bluetooth: DeviceInfoModule.getIsBluetoothHeadphonesConnected(),
+  }),
+  network: () => ({
+    airplaneMode: DeviceInfoModule.getIsAirplaneMode(),
+  }),
+};
+
+/**
+ * Platforms that report changes on each channel. Elsewhere the channel never
+ * fires, and the hooks fall back to polling.
+ */
+const EVENT_SOURCES: { [C in DeviceEventChannel]: readonly string[] } = {
+  battery: ['ios', 'android', 'web'],
+  brightness: ['ios'],
+  headphones: ['ios', 'android'],
+  network: ['web'],
+};
+
+interface ChannelState<C extends DeviceEventChannel> {
+  /** `null` while every listener is paused in the background */
+  nativeListenerId: number | null;
+  /** Each listener and whether it pauses in the background */
+  listeners: Map<DeviceEventListener<C>, boolean>;
+}
+
+const channels: { [C in DeviceEventChannel]?: ChannelState<C> } = {};
+
+let inBackground = false;
+let appStateSubscription: NativeEventSubscription | null = null;
+
+function notify<C extends DeviceEventChannel>(
+  state: ChannelState<C>,
+  value: DeviceEventMap[C],
+  pausedOnly = false
+): void {
+  // Copy first: a listener may unsubscribe (itself or others) while we iterate.
+  for (const [listener, pauseInBackground] of Array.from(state.listeners)) {
+    if (pausedOnly ? pauseInBackground : !(inBackground && pauseInBackground)) {
+      listener(value);
+    }
+  }
+}
+
+/**
+ * Add or remove the channel's native listener to match its subscribers: it is
+ * kept while any listener is not paused.
+ */
+function syncNativeListener<C extends DeviceEventChannel>(
+  channel: C,
+  state: ChannelState<C>
+): void {
+  const needed = Array.from(state.listeners.values()).some(
+    pauseInBackground => !(inBackground && pauseInBackground)
+  );
+  if (needed && state.nativeListenerId === null) {
+    state.nativeListenerId = DeviceInfoModule.addListener(channel, () =>
+      notify(state, readChannel(channel))
+    );
+  } else if (!needed && state.nativeListenerId !== null) {
+    DeviceInfoModule.removeListener(state.nativeListenerId);
+    state.nativeListenerId = null;
+  }
+}
+
+function forEachChannel(
+  run: <C extends DeviceEventChannel>(
+    channel: C,
+    state: ChannelState<C>
+  ) => void
+): void {
+  for (const channel of Object.keys(channels) as DeviceEventChannel[]) {
+    const state = channels[channel];
+    if (state !== undefined) {
+      run(channel, state as ChannelState<typeof channel>);
+    }
+  }
+}
+
+function handleAppStateChange(next: AppStateStatus): void {
+  // Like the polling scheduler, ignore the transient iOS `inactive` state
+  if (next === 'background' && !inBackground) {
+    inBackground = true;
+    forEachChannel(syncNativeListener);
+  } else if (next === 'active' && inBackground) {
+    inBackground = false;
+    forEachChannel((channel, state) => {
+      syncNativeListener(channel, state);
+      // Paused listeners missed any change made in the background
+      notify(state, readChannel(channel), true);
+    });
+  }
+}
+
+/**
+ * Read the current value of a channel without subscribing to it.
+ *
+ * @param channel Device state channel
+ * @returns The value subscribers of `channel` would receive right now
+ */
+export function readChannel<C extends DeviceEventChannel>(
+  channel: C
+): DeviceEventMap[C] {
+  return readers[channel]();
+}
+
+/**
+ * Whether the current platform reports changes on a channel.
+ *
+ * @internal
+ */
+export function hasEventSource(channel: DeviceEventChannel): boolean {
+  return EVENT_SOURCES[channel].includes(Platform.OS);
+}
+
+/**
+ * Subscribe to changes on a device state channel.
+ *
+ * The listener is called with the channel's current value every time the
+ * platform reports a change. It is not called with the initial value; use
+ * {@link readChannel} (or the matching getter) for that.
+ *
+ * @param channel Device state channel to observe
+ * @param listener Invoked with the new value after every change
+ * @param options Background behavior
+ * @returns Function that removes the subscription (safe to call more than once)
+ *
+ * @example
+ * ```typescript
+ * import { subscribe } from 'react-native-nitro-device-info';
+ *
+ * const unsubscribe = subscribe('battery', (powerState) => {
+ *   console.log(powerState.batteryLevel, powerState.batteryState);
+ * });
+ *
+ * // Later
+ * unsubscribe();
+ * ```
+ *
+ * @platform iOS, Android, Web
+ */
+export function subscribe<C extends DeviceEventChannel>(
+  channel: C,
+  listener: DeviceEventListener<C>,
+  options: SubscribeOptions = {}
+): () => void {
+  const { pauseInBackground = false } = options;
+  let state: ChannelState<C> | undefined = channels[channel];
+
+  if (state === undefined) {
+    state = { nativeListenerId: null, listeners: new Map() };
+    channels[channel] = state as (typeof channels)[C];
+  }
+
+  if (pauseInBackground && appStateSubscription === null) {
+    inBackground = AppState.currentState === 'background';
+    appStateSubscription = AppState.addEventListener(
+      'change',
+      handleAppStateChange
+    );
+  }
+
+  const owner = state;
+  owner.listeners.set(listener, pauseInBackground);
+  syncNativeListener(channel, owner);
+
+  let subscribed = true;
+  return () => {
+    if (!subscribed) {
+      return;
+    }
+    subscribed = false;
+    owner.listeners.delete(listener);
+    syncNativeListener(channel, owner);
+
+    if (owner.listeners.size === 0) {
+      delete channels[channel];
+    }
+    if (
+      appStateSubscription !== null &&
+      !Object.values(channels).some(other =>
+        Array.from(other.listeners.values()).some(Boolean)
+      )
+    ) {
+      appStateSubscription.remove();
+      appStateSubscription = null;
+      inBackground = false;
+    }
+  };
+}
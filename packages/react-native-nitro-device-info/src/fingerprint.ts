@@ -0,0 +1,196 @@
+/**
+ * Device fingerprint builder
+ *
+ * Combines a chosen set of stable device signals into a salted hash. Every
+ * signal carries a volatility score (0 = never changes, 1 = changes all the
+ * time) so callers can trade uniqueness against how often the fingerprint
+ * drifts. Hashing is delegated to the caller; this package ships no crypto.
+ *
+ * @module react-native-nitro-device-info/fingerprint
+ */
+
+import { DeviceInfoModule } from './index';
+import { getOrUndefined } from './safe';
+
+/**
+ * Signals that can contribute to a fingerprint
+ */
+export type FingerprintSignal =
+  | 'deviceId'
+  | 'model'
+  | 'systemVersion'
+  | 'totalMemory'
+  | 'totalDiskCapacity'
+  | 'supportedAbis'
+  | 'systemLanguage'
+  | 'fontScale'
+  | 'hostNames';
+
+/**
+ * Rough likelihood that a signal changes on the same device over a few months
+ */
+export const SIGNAL_VOLATILITY: Readonly<Record<FingerprintSignal, number>> = {
+  // Hardware identity; only a new device changes these
+  deviceId: 0,
+  model: 0,
+  totalMemory: 0,
+  supportedAbis: 0.05,
+  // Reported capacity can shift slightly with OS updates and formatting
+  totalDiskCapacity: 0.1,
+  // User settings
+  systemLanguage: 0.2,
+  fontScale: 0.3,
+  hostNames: 0.4,
+  // Every OS update changes it
+  systemVersion: 0.7,
+};
+
+/**
+ * Options for {@link buildDeviceFingerprint}
+ */
+export interface DeviceFingerprintOptions {
+  /**
+   * Signals to combine. Defaults to every {@link FingerprintSignal}.
+   */
+  signals?: readonly FingerprintSignal[];
+
+  /**
+   * Hash function applied to the salted, canonical signal string, e.g. a
+   * SHA-256 from `react-native-quick-crypto` or `expo-crypto`
+   */
+  hash: (input: string) => string | Promise<string>;
+
+  /**
+   * App-specific salt prepended to the input so fingerprints cannot be
+   * correlated across apps.
+   * @default ''
+   */
+  salt?: string;
+
+  /**
+   * Signals the developer classifies as PII. They are never read or hashed,
+   * even when listed in `signals`.
+   */
+  pii?: readonly FingerprintSignal[];
+
+  /**
+   * Drop signals whose volatility is above this value.
+   * @default 1 (keep everything)
+   */
+  maxVolatility?: number;
+}
+
+/**
+ * Per-signal entry of a {@link DeviceFingerprint}
+ */
+export interface FingerprintSignalResult {
+  signal: FingerprintSignal;
+  volatility: number;
+  /**
+   * `false` when the platform returned a placeholder; the signal is then left
+   * out of the hash
+   */
+  available: boolean;
+}
+
+/**
+ * Result of {@link buildDeviceFingerprint}
+ */
+export interface DeviceFingerprint {
+  /** Output of the `hash` option */
+  hash: string;
+  /** Signals that contributed to `hash` or were unavailable, in input order */
+  signals: FingerprintSignalResult[];
+  /**
+   * Likelihood that at least one hashed signal changes, i.e. that the
+   * fingerprint drifts: `1 - Π(1 - volatility)`
+   */
+  volatility: number;
+  /** Requested signals left out because of `pii` or `maxVolatility` */
+  excluded: FingerprintSignal[];
+}
+
+const ALL_SIGNALS = Object.keys(SIGNAL_VOLATILITY) as FingerprintSignal[];
+
+const readers: Record<FingerprintSignal, () => unknown> = {
+  deviceId: () => getOrUndefined('deviceId'),
+  model: () => getOrUndefined('model'),
+  systemVersion: () => getOrUndefined('systemVersion'),
+  totalMemory: () => getOrUndefined('totalMemory'),
+  totalDiskCapacity: () => getOrUndefined('totalDiskCapacity'),
+  supportedAbis: () => getOrUndefined('supportedAbis'),
+  systemLanguage: () => getOrUndefined('systemLanguage'),
+  fontScale: () => DeviceInfoModule.getFontScale(),
+  hostNames: () => getOrUndefined('hostNames'),
+};
+
+/**
+ * Build a salted device fingerprint from stable signals.
+ *
+ * Signals are read through the placeholder-aware accessors, so a signal the
+ * platform does not support is skipped instead of hashing `'unknown'`.
+ *
+ * @param options Signals, hash function, salt, PII exclusions and drift tolerance
+ * @returns The hash together with per-signal and overall volatility
+ *
+ * @example
+ * ```typescript
+ * import { buildDeviceFingerprint } from 'react-native-nitro-device-info';
+ * import * as Crypto from 'expo-crypto';
+ *
+ * const fingerprint = await buildDeviceFingerprint({
+ *   hash: (input) =>
+ *     Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, input),
+ *   salt: 'com.example.app',
+ *   maxVolatility: 0.3, // leave out systemVersion and hostNames
+ * });
+ *
+ * console.log(fingerprint.hash, fingerprint.volatility);
+ * ```
+ */
+export async function buildDeviceFingerprint(
+  options: DeviceFingerprintOptions
+): Promise<DeviceFingerprint> {
+  const {
+    signals = ALL_SIGNALS,
+    hash,
+    salt = '',
+    pii = [],
+    maxVolatility = 1,
+  } = options;
+
+  const results: FingerprintSignalResult[] = [];
+  const excluded: FingerprintSignal[] = [];
+  const values: Array<[FingerprintSignal, unknown]> = [];
+
+  for (const signal of new Set(signals)) {
+    const volatility = SIGNAL_VOLATILITY[signal];
+    if (pii.includes(signal) || volatility > maxVolatility) {
+      excluded.push(signal);
+      continue;
+    }
+
+    const value = readers[signal]();
+    const available = value !== undefined;
+    results.push({ signal, volatility, available });
+    if (available) {
+      values.push([signal, value]);
+    }
+  }
+
+  // Sort so the hash does not depend on the order signals were listed in
+  values.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const input = `${salt}\u0000${JSON.stringify(values)}`;
+
+  const stability = values.reduce(
+    (product, [signal]) => product * (1 - SIGNAL_VOLATILITY[signal]),
+    1
+  );
+
+  return {
+    hash: await hash(input),
+    signals: results,
+    volatility: 1 - stability,
+    excluded,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * DeviceInfoProvider
+ *
+ * Hydrate the hooks with the snapshot the server rendered with.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  type ReactNode,
+} from 'react';
+import type { PartialDeviceSnapshot, SnapshotField } from '../snapshot';
+
+/** Hydrating without a server snapshot: every hook renders its placeholder */
+const EMPTY_SNAPSHOT: PartialDeviceSnapshot = { capturedAt: 0 };
+
+/** Set only while the provider's subtree is being hydrated */
+const HydrationContext = createContext<PartialDeviceSnapshot | undefined>(
+  undefined
+);
+
+/**
+ * Props of {@link DeviceInfoProvider}
+ */
+export interface DeviceInfoProviderProps {
+  /**
+   * Snapshot the server rendered with, usually from `getServerDeviceSnapshot()`
+   * serialized into the page props. Without one, hooks render placeholders
+   * until hydration completes.
+   */
+  initialSnapshot?: PartialDeviceSnapshot;
+  children?: ReactNode;
+}
+
+/**
+ * Render `useDeviceInfo`, `useDisplayState` and `useUserAgent` from a server
+ * snapshot until hydration completes, so server and client markup match.
+ *
+ * During the server render and the hydration render, hooks never read the
+ * device: they return their field from `initialSnapshot`, or a placeholder
+ * (`'unknown'`, `-1`, `false`, `[]`; portrait and font scale 1 for
+ * `useDisplayState`, `''` for `useUserAgent`) when the snapshot lacks it. Their mount effects then read
+ * the live value, keeping a server value while the live read is still a
+ * placeholder. Hooks mounted after hydration read the device directly.
+ *
+ * @example
+ * ```tsx
+ * // pages/_app.tsx (Next.js)
+ * import { DeviceInfoProvider } from 'react-native-nitro-device-info';
+ *
+ * export default function App({ Component, pageProps }: AppProps) {
+ *   return (
+ *     <DeviceInfoProvider initialSnapshot={pageProps.deviceSnapshot}>
+ *       <Component {...pageProps} />
+ *     </DeviceInfoProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @platform Web
+ */
+export function DeviceInfoProvider({
+  initialSnapshot,
+  children,
+}: DeviceInfoProviderProps) {
+  // Effects never run on the server, so this stays true there
+  const [hydrating, setHydrating] = useState(true);
+
+  useEffect(() => {
+    setHydrating(false);
+  }, []);
+
+  return (
+    <HydrationContext.Provider
+      value={hydrating ? (initialSnapshot ?? EMPTY_SNAPSHOT) : undefined}
+    >
+      {children}
+    </HydrationContext.Provider>
+  );
+}
+
+/**
+ * The server snapshot while hydrating, otherwise `undefined`.
+ *
+ * @internal
+ */
+export function useHydrationSnapshot(): PartialDeviceSnapshot | undefined {
+  return useContext(HydrationContext);
+}
+
+/**
+ * The snapshot field behind a `DeviceInfo` member: properties match by name
+ * and getters without their `get` prefix (`getIsLandscape` → `isLandscape`).
+ *
+ * @internal
+ */
+export function findSnapshotField(
+  snapshot: PartialDeviceSnapshot,
+  member: string
+): SnapshotField<unknown> | undefined {
+  const name = /^get[A-Z]/.test(member)
+    ? member.charAt(3).toLowerCase() + member.slice(4)
+    : member;
+  for (const category of Object.values(snapshot)) {
+    if (typeof category === 'object' && category !== null && name in category) {
+      return (category as Record<string, SnapshotField<unknown>>)[name];
+    }
+  }
+  return undefined;
+}
@@ -7,6 +7,8 @@
  * @module react-native-nitro-device-info/hooks
  */
 
+export type { PollingOptions } from './scheduler';
+
 // Battery Hooks
 export { useBatteryLevel } from './useBatteryLevel';
 export { useBatteryLevelIsLow } from './useBatteryLevelIsLow';
@@ -19,3 +21,26 @@ export { useIsBluetoothHeadphonesConnected } from './useIsBluetoothHeadphonesCon
 
 // Display Hooks
 export { useBrightness } from './useBrightness';
+export { useDisplayState } from './useDisplayState';
+export type { DisplayState } from './useDisplayState';
+
+// Network Hooks
+export { useUserAgent } from './useUserAgent';
+
+// Generic
+export { useDeviceInfo } from './useDeviceInfo';
+export type {
+  DeviceInfoKey,
+  DeviceInfoKeyValue,
+  DeviceInfoRefreshOptions,
+  UseDeviceInfoOptions,
+} from './useDeviceInfo';
+
+// Server-side rendering
+export { DeviceInfoProvider } from './DeviceInfoProvider';
+export type { DeviceInfoProviderProps } from './DeviceInfoProvider';
+
+// Suspense
+export { useDeviceInfoSuspense } from './useDeviceInfoSuspense';
+export { preloadDeviceInfo, invalidateDeviceInfo } from './resources';
+export type { DeviceInfoResource, DeviceInfoResourceValue } from './resources';
@@ -0,0 +1,121 @@
+/**
+ * Hydration placeholders
+ *
+ * What the hooks render under a hydrating `DeviceInfoProvider` for values the
+ * server snapshot does not hold. There is no device to read on the server, so
+ * the server render and the hydration render both use these and the mount
+ * effects read the live values afterwards.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import type { DeviceInfoKey, DeviceInfoKeyValue } from './useDeviceInfo';
+
+/**
+ * The spec's "not available" value for every {@link DeviceInfoKey}
+ * (`'unknown'`, `-1`, `false`, `[]`), except `getFontScale`, which renders at
+ * the default scale
+ *
+ * @internal
+ */
+export const HYDRATION_PLACEHOLDERS: {
+  [K in DeviceInfoKey]: DeviceInfoKeyValue<K>;
+} = {
+  androidId: 'unknown',
+  apiLevel: -1,
+  applicationName: 'unknown',
+  baseOs: 'unknown',
+  board: 'unknown',
+  bootloader: 'unknown',
+  brand: 'unknown',
+  buildId: 'unknown',
+  buildNumber: 'unknown',
+  bundleId: 'unknown',
+  carrierAllowsVOIP: false,
+  carrierIsoCountryCode: 'unknown',
+  codename: 'unknown',
+  device: 'unknown',
+  deviceId: 'unknown',
+  deviceName: 'unknown',
+  deviceType: 'unknown',
+  deviceYearClass: -1,
+  display: 'unknown',
+  fingerprint: 'unknown',
+  firstInstallTimeSync: -1,
+  getAvailableLocationProviders: [],
+  getBatteryLevel: -1,
+  getBrightness: -1,
+  getCarrierSync: 'unknown',
+  getFontScale: 1,
+  getFreeDiskStorage: -1,
+  getFreeDiskStorageOld: -1,
+  getHasDynamicIsland: false,
+  getHasGms: false,
+  getHasHms: false,
+  getHasNotch: false,
+  getIpAddressSync: 'unknown',
+  getIsAirplaneMode: false,
+  getIsBatteryCharging: false,
+  getIsBluetoothHeadphonesConnected: false,
+  getIsHeadphonesConnected: false,
+  getIsLandscape: false,
+  getIsLocationEnabled: false,
+  getIsWiredHeadphonesConnected: false,
+  getMacAddressSync: 'unknown',
+  getPowerState: {
+    batteryLevel: -1,
+    batteryState: 'unknown',
+    lowPowerMode: false,
+  },
+  getUptime: -1,
+  getUsedMemory: -1,
+  hardware: 'unknown',
+  host: 'unknown',
+  hostNames: [],
+  incremental: 'unknown',
+  installerPackageName: 'unknown',
+  isCameraPresent: false,
+  isDeviceCompromised: false,
+  isDisplayZoomed: false,
+  isEmulator: false,
+  isHardwareKeyStoreAvailable: false,
+  isKeyboardConnected: false,
+  isLiquidGlassAvailable: false,
+  isLowRamDevice: false,
+  isMouseConnected: false,
+  isPinOrFingerprintSet: false,
+  isSideLoadingEnabled: false,
+  isTablet: false,
+  isTabletMode: false,
+  lastUpdateTimeSync: -1,
+  manufacturer: 'unknown',
+  maxMemory: -1,
+  mobileCountryCode: 'unknown',
+  mobileNetworkCode: 'unknown',
+  mobileNetworkOperator: 'unknown',
+  model: 'unknown',
+  navigationMode: 'unknown',
+  previewSdkInt: -1,
+  product: 'unknown',
+  radioVersion: 'unknown',
+  readableVersion: 'unknown',
+  securityPatch: 'unknown',
+  serialNumber: 'unknown',
+  startupTime: -1,
+  supported32BitAbis: [],
+  supported64BitAbis: [],
+  supportedAbis: [],
+  supportedMediaTypeList: [],
+  systemAvailableFeatures: [],
+  systemLanguage: 'unknown',
+  systemName: 'unknown',
+  systemVersion: 'unknown',
+  tags: 'unknown',
+  totalDiskCapacity: -1,
+  totalDiskCapacityOld: -1,
+  totalMemory: -1,
+  type: 'unknown',
+  uniqueId: 'unknown',
+  userAgent: 'unknown',
+  version: 'unknown',
+};
@@ -0,0 +1,147 @@
+/**
+ * Suspense resources for async DeviceInfo methods
+ *
+ * Each resource wraps one async `DeviceInfoModule` method in a single cached
+ * promise. Every component reading the same resource shares that promise, so
+ * the native method runs once per app session until the resource is
+ * invalidated. The promise carries React's `status` / `value` / `reason`
+ * fields, which lets `use()` return a settled value without suspending again.
+ *
+ * A rejected resource stays cached so an error boundary can render its
+ * fallback instead of retrying forever. Call {@link invalidateDeviceInfo} from
+ * the boundary's reset handler to try again.
+ *
+ * @module react-native-nitro-device-info/hooks/resources
+ */
+
+import { DeviceInfoModule } from '../index';
+import type { DeviceInfo } from '../DeviceInfo.nitro';
+
+const RESOURCE_METHODS = {
+  firstInstallTime: 'getFirstInstallTime',
+  lastUpdateTime: 'getLastUpdateTime',
+  installReferrer: 'getInstallReferrer',
+  deviceToken: 'getDeviceToken',
+  carrier: 'getCarrier',
+  ipAddress: 'getIpAddress',
+  userAgent: 'getUserAgent',
+} as const satisfies Record<string, keyof DeviceInfo>;
+
+/**
+ * Async values that can be read with `useDeviceInfoSuspense()`
+ */
+export type DeviceInfoResource = keyof typeof RESOURCE_METHODS;
+
+/**
+ * Resolved value of a {@link DeviceInfoResource}
+ */
+export type DeviceInfoResourceValue<K extends DeviceInfoResource> = Awaited<
+  ReturnType<DeviceInfo[(typeof RESOURCE_METHODS)[K]]>
+>;
+
+/** A promise annotated the way React's `use()` expects */
+export type TrackedPromise<T> = Promise<T> &
+  (
+    | { status: 'pending' }
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; reason: unknown }
+  );
+
+const resources = new Map<DeviceInfoResource, TrackedPromise<unknown>>();
+
+function track<T>(promise: Promise<T>): TrackedPromise<T> {
+  const tracked = Object.assign(promise, {
+    status: 'pending',
+  }) as TrackedPromise<T>;
+  promise.then(
+    value => {
+      Object.assign(tracked, { status: 'fulfilled', value });
+    },
+    (reason: unknown) => {
+      Object.assign(tracked, { status: 'rejected', reason });
+    }
+  );
+  return tracked;
+}
+
+/**
+ * The cached promise of a resource, starting the native call on first use.
+ *
+ * @internal
+ */
+export function loadDeviceInfo<K extends DeviceInfoResource>(
+  key: K
+): TrackedPromise<DeviceInfoResourceValue<K>> {
+  let resource = resources.get(key);
+  if (resource === undefined) {
+    const method = RESOURCE_METHODS[key];
+    // Deferred so a synchronous native throw becomes a rejection
+    resource = track(
+      Promise.resolve().then((): Promise<unknown> => DeviceInfoModule[method]())
+    );
+    resources.set(key, resource);
+  }
+  return resource as TrackedPromise<DeviceInfoResourceValue<K>>;
+}
+
+/**
+ * Start loading a resource ahead of the first component that reads it, e.g.
+ * at app startup or on navigation.
+ *
+ * @returns The shared promise the Suspense hook reads
+ *
+ * @example
+ * ```typescript
+ * import { preloadDeviceInfo } from 'react-native-nitro-device-info';
+ *
+ * preloadDeviceInfo('installReferrer');
+ * ```
+ */
+export function preloadDeviceInfo<K extends DeviceInfoResource>(
+  key: K
+): Promise<DeviceInfoResourceValue<K>> {
+  return loadDeviceInfo(key);
+}
+
+/**
+ * Drop a cached resource, or all of them, so the next read calls the native
+ * method again. Use it to retry after an error boundary caught a rejection,
+ * or to refresh values that change (`carrier`, `ipAddress`).
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary
+ *   fallback={<Text>Referrer unavailable</Text>}
+ *   onReset={() => invalidateDeviceInfo('installReferrer')}
+ * >
+ *   <Referrer />
+ * </ErrorBoundary>
+ * ```
+ */
+export function invalidateDeviceInfo(key?: DeviceInfoResource): void {
+  if (key === undefined) {
+    resources.clear();
+  } else {
+    resources.delete(key);
+  }
+}
+
+/**
+ * Read a resource the pre-`use()` way: return the value once settled, throw
+ * the rejection reason, or throw the pending promise so Suspense waits on it.
+ *
+ * @internal
+ */
+export function readDeviceInfo<K extends DeviceInfoResource>(
+  key: K
+): DeviceInfoResourceValue<K> {
+  const resource = loadDeviceInfo(key);
+  switch (resource.status) {
+    case 'fulfilled':
+      return resource.value;
+    case 'rejected':
+      throw resource.reason;
+    default:
+      throw resource;
+  }
+}
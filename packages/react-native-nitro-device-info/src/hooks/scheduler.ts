@@ -0,0 +1,204 @@
+/**
+ * Shared polling scheduler for React hooks
+ *
+ * Hooks register the getter they want re-read instead of starting their own
+ * `setInterval`. There is one timer per distinct interval, and on every tick
+ * each registered getter is read once and the value is delivered to all of its
+ * consumers, no matter how many components mounted the hook.
+ *
+ * The device state hooks only poll where the platform reports no change
+ * events for their channel. Timers stop while the app is in the background
+ * and, on returning to `active`, tick once immediately before resuming their
+ * interval.
+ *
+ * @module react-native-nitro-device-info/hooks/scheduler
+ */
+
+import { AppState } from 'react-native';
+import type { AppStateStatus, NativeEventSubscription } from 'react-native';
+import { hasEventSource } from '../events';
+import type { DeviceEventChannel } from '../DeviceInfo.nitro';
+
+/**
+ * Polling options accepted by every device state hook
+ */
+export interface PollingOptions {
+  /**
+   * How often to re-read the value where the platform reports no change
+   * events for it, in milliseconds. Ignored where events are delivered.
+   * @default 5000
+   */
+  intervalMs?: number;
+
+  /**
+   * Stop updating while `true`. The hook keeps returning its last value.
+   * @default false
+   */
+  paused?: boolean;
+
+  /**
+   * Stop polling and ignore change events while the app is in the background,
+   * and re-read as soon as it returns to the foreground. Set to `false` for
+   * headless JS tasks or other work that needs values while backgrounded.
+   * @default true
+   */
+  pauseInBackground?: boolean;
+}
+
+/**
+ * Fallback polling interval of the device state hooks
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+type PollListener = (value: unknown) => void;
+
+interface PollEntry {
+  read: () => unknown;
+  listeners: Set<PollListener>;
+}
+
+interface PollTimer {
+  /** `null` while suspended in the background */
+  id: ReturnType<typeof setInterval> | null;
+  intervalMs: number;
+  pauseInBackground: boolean;
+  entries: Map<string, PollEntry>;
+}
+
+const timers = new Map<string, PollTimer>();
+
+let appStateSubscription: NativeEventSubscription | null = null;
+
+function tick(entries: Map<string, PollEntry>): void {
+  // Copy first: a listener may unregister (itself or others) while we iterate.
+  for (const entry of Array.from(entries.values())) {
+    const value = entry.read();
+    for (const listener of Array.from(entry.listeners)) {
+      listener(value);
+    }
+  }
+}
+
+function start(timer: PollTimer): void {
+  timer.id = setInterval(() => tick(timer.entries), timer.intervalMs);
+}
+
+function stop(timer: PollTimer): void {
+  if (timer.id !== null) {
+    clearInterval(timer.id);
+    timer.id = null;
+  }
+}
+
+function handleAppStateChange(state: AppStateStatus): void {
+  // `inactive` is a transient iOS state (app switcher, incoming call); only
+  // a real trip to the background suspends polling.
+  for (const timer of Array.from(timers.values())) {
+    if (state === 'background' && timer.pauseInBackground) {
+      stop(timer);
+    } else if (state === 'active' && timer.id === null) {
+      tick(timer.entries);
+      // A listener may have cancelled the last registration during the tick
+      if (timer.entries.size > 0) {
+        start(timer);
+      }
+    }
+  }
+}
+
+function timerKey(intervalMs: number, pauseInBackground: boolean): string {
+  return `${intervalMs}:${pauseInBackground ? 'foreground' : 'always'}`;
+}
+
+/**
+ * Re-read a value on a shared timer.
+ *
+ * Registrations with the same `key` and `intervalMs` share a single read per
+ * tick; `read` from the first registration of a key is the one used.
+ *
+ * @param key Identifies the value being read, e.g. the getter name
+ * @param read Reads the current value
+ * @param intervalMs Tick interval in milliseconds
+ * @param listener Invoked with the value on every tick
+ * @param pauseInBackground Suspend the timer while the app is backgrounded
+ * @returns Function that cancels the registration (safe to call more than once)
+ */
+export function schedulePoll<T>(
+  key: string,
+  read: () => T,
+  intervalMs: number,
+  listener: (value: T) => void,
+  pauseInBackground = true
+): () => void {
+  const keyForTimer = timerKey(intervalMs, pauseInBackground);
+  let timer = timers.get(keyForTimer);
+  if (timer === undefined) {
+    timer = { id: null, intervalMs, pauseInBackground, entries: new Map() };
+    if (!(pauseInBackground && AppState.currentState === 'background')) {
+      start(timer);
+    }
+    timers.set(keyForTimer, timer);
+  }
+
+  if (appStateSubscription === null) {
+    appStateSubscription = AppState.addEventListener(
+      'change',
+      handleAppStateChange
+    );
+  }
+
+  let entry = timer.entries.get(key);
+  if (entry === undefined) {
+    entry = { read, listeners: new Set() };
+    timer.entries.set(key, entry);
+  }
+
+  const owner = timer;
+  const { entries } = owner;
+  const { listeners } = entry;
+  const pollListener = listener as PollListener;
+  listeners.add(pollListener);
+
+  let scheduled = true;
+  return () => {
+    if (!scheduled) {
+      return;
+    }
+    scheduled = false;
+    listeners.delete(pollListener);
+
+    if (listeners.size === 0) {
+      entries.delete(key);
+    }
+    if (entries.size === 0) {
+      stop(owner);
+      timers.delete(keyForTimer);
+    }
+    if (timers.size === 0 && appStateSubscription !== null) {
+      appStateSubscription.remove();
+      appStateSubscription = null;
+    }
+  };
+}
+
+/**
+ * Re-read a value on a shared timer only if the current platform reports no
+ * change events on `channel`; otherwise the hook's subscription covers it and
+ * nothing is scheduled.
+ *
+ * @param channel Event channel that would report changes to the value
+ * @returns Function that cancels the registration, if any
+ */
+export function scheduleFallbackPoll<T>(
+  channel: DeviceEventChannel,
+  key: string,
+  read: () => T,
+  intervalMs: number,
+  listener: (value: T) => void,
+  pauseInBackground = true
+): () => void {
+  if (hasEventSource(channel)) {
+    return () => {};
+  }
+  return schedulePoll(key, read, intervalMs, listener, pauseInBackground);
+}
@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 
 /**
  * Monitor battery level changes in real-time.
@@ -15,6 +21,7 @@ import { DeviceInfoModule } from '../index';
  * Returns the current battery level as a number between 0.0 and 1.0.
  * The value updates automatically when the battery level changes.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns Battery level (0.0 to 1.0), or null during initial load
  *
  * @example
@@ -34,25 +41,46 @@ import { DeviceInfoModule } from '../index';
  *
  * @platform iOS, Android
  */
-export function useBatteryLevel(): number | null {
+export function useBatteryLevel(options: PollingOptions = {}): number | null {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [batteryLevel, setBatteryLevel] = useState<number | null>(null);
 
   useEffect(() => {
-    const updateBatteryLevel = () => {
-      const currentLevel = DeviceInfoModule.getBatteryLevel();
+    if (paused) {
+      return;
+    }
+
+    const updateBatteryLevel = (currentLevel: number) => {
       setBatteryLevel(prev => prev === currentLevel ? prev : currentLevel);
     };
 
     // Set initial value
-    updateBatteryLevel();
+    updateBatteryLevel(DeviceInfoModule.getBatteryLevel());
 
-    // Poll every 5 seconds for reactive updates
-    const intervalId = setInterval(updateBatteryLevel, 5000);
+    // Battery events update immediately; polled only where there are none
+    const unsubscribe = subscribe(
+      'battery',
+      state => updateBatteryLevel(state.batteryLevel),
+      { pauseInBackground }
+    );
+    const cancelPoll = scheduleFallbackPoll(
+      'battery',
+      'getBatteryLevel',
+      () => DeviceInfoModule.getBatteryLevel(),
+      intervalMs,
+      updateBatteryLevel,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return batteryLevel;
 }
@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 import { isLowBatteryLevel } from './utils';
 
 /**
@@ -19,6 +25,7 @@ import { isLowBatteryLevel } from './utils';
  *
  * When the battery is above the threshold, returns null.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns Battery level when low (0.0 to threshold), or null if battery is not low
  *
  * @example
@@ -42,29 +49,52 @@ import { isLowBatteryLevel } from './utils';
  *
  * @platform iOS, Android
  */
-export function useBatteryLevelIsLow(): number | null {
+export function useBatteryLevelIsLow(
+  options: PollingOptions = {}
+): number | null {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [batteryLevelIsLow, setBatteryLevelIsLow] = useState<number | null>(
     null
   );
 
   useEffect(() => {
-    // Check initial value
-    const checkBatteryLevel = () => {
-      const level = DeviceInfoModule.getBatteryLevel();
+    if (paused) {
+      return;
+    }
+
+    const checkBatteryLevel = (level: number) => {
       const newValue = isLowBatteryLevel(level) ? level : null;
       setBatteryLevelIsLow(prev => prev === newValue ? prev : newValue);
     };
 
     // Set initial state
-    checkBatteryLevel();
+    checkBatteryLevel(DeviceInfoModule.getBatteryLevel());
 
-    // Poll for changes (no throttle for low battery alerts - important to detect quickly)
-    const intervalId = setInterval(checkBatteryLevel, 2000);
+    // React to every battery event so a low battery is detected quickly;
+    // polled only where the platform has none
+    const unsubscribe = subscribe(
+      'battery',
+      state => checkBatteryLevel(state.batteryLevel),
+      { pauseInBackground }
+    );
+    const cancelPoll = scheduleFallbackPoll(
+      'battery',
+      'getBatteryLevel',
+      () => DeviceInfoModule.getBatteryLevel(),
+      intervalMs,
+      checkBatteryLevel,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return batteryLevelIsLow;
 }
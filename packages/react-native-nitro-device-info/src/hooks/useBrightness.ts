@@ -9,6 +9,12 @@
 import { useState, useEffect } from 'react';
 import { Platform } from 'react-native';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 
 /**
  * Monitor screen brightness changes (iOS only).
@@ -16,6 +22,7 @@ import { DeviceInfoModule } from '../index';
  * Returns the current screen brightness as a number between 0.0 and 1.0 on iOS.
  * On Android, returns -1 as brightness monitoring is not supported.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns Brightness level (0.0-1.0) on iOS, -1 on Android, or null during initial load
  *
  * @platform iOS only (returns -1 on Android)
@@ -40,31 +47,50 @@ import { DeviceInfoModule } from '../index';
  * }
  * ```
  */
-export function useBrightness(): number | null {
+export function useBrightness(options: PollingOptions = {}): number | null {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [brightness, setBrightness] = useState<number | null>(null);
 
   useEffect(() => {
+    if (paused) {
+      return;
+    }
+
     // Skip entirely on Android since brightness monitoring is not supported
     if (Platform.OS === 'android') {
       setBrightness(-1);
       return;
     }
 
-    const updateBrightness = () => {
-      const currentBrightness = DeviceInfoModule.getBrightness();
+    const updateBrightness = (currentBrightness: number) => {
       setBrightness(currentBrightness);
     };
 
     // Get initial state
-    updateBrightness();
+    updateBrightness(DeviceInfoModule.getBrightness());
 
-    // Poll for changes (brightness changes can be frequent with auto-brightness)
-    const intervalId = setInterval(updateBrightness, 500);
+    // Brightness events, polled only where the platform has none
+    const unsubscribe = subscribe('brightness', updateBrightness, {
+      pauseInBackground,
+    });
+    const cancelPoll = scheduleFallbackPoll(
+      'brightness',
+      'getBrightness',
+      () => DeviceInfoModule.getBrightness(),
+      intervalMs,
+      updateBrightness,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return brightness;
 }
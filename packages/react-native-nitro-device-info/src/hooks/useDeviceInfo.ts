@@ -0,0 +1,191 @@
+/**
+ * useDeviceInfo Hook
+ *
+ * Reactive access to any synchronous DeviceInfo property or getter.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import type { HybridObject } from 'react-native-nitro-modules';
+import { DeviceInfoModule } from '../index';
+import type { DeviceInfo } from '../DeviceInfo.nitro';
+import { schedulePoll } from './scheduler';
+import { isShallowEqual, isUnresolvedValue } from './utils';
+import { findSnapshotField, useHydrationSnapshot } from './DeviceInfoProvider';
+import { HYDRATION_PLACEHOLDERS } from './placeholders';
+
+type SpecMember = Exclude<keyof DeviceInfo, keyof HybridObject<never>>;
+
+/**
+ * `DeviceInfo` members {@link useDeviceInfo} can read: readonly properties and
+ * argument-less sync getters. Async methods and methods that take arguments
+ * are excluded.
+ */
+export type DeviceInfoKey = {
+  [K in SpecMember]: DeviceInfo[K] extends (...args: infer A) => infer R
+    ? A extends []
+      ? R extends Promise<unknown>
+        ? never
+        : K
+      : never
+    : K;
+}[SpecMember];
+
+/**
+ * Type of the value behind a {@link DeviceInfoKey}; getters resolve to their
+ * return type
+ */
+export type DeviceInfoKeyValue<K extends DeviceInfoKey> =
+  DeviceInfo[K] extends () => infer R ? R : DeviceInfo[K];
+
+/**
+ * When {@link useDeviceInfo} re-reads its value. Without any, the value is
+ * read once on mount.
+ */
+export interface DeviceInfoRefreshOptions {
+  /** Re-read every `intervalMs` milliseconds on the shared polling timer */
+  intervalMs?: number;
+  /**
+   * Re-read whenever the app returns to the foreground
+   * @default false
+   */
+  foreground?: boolean;
+  /**
+   * Re-read whenever this value changes, e.g. a counter bumped on
+   * pull-to-refresh
+   */
+  trigger?: unknown;
+}
+
+/**
+ * Options accepted by {@link useDeviceInfo}
+ */
+export interface UseDeviceInfoOptions {
+  refreshOn?: DeviceInfoRefreshOptions;
+  /**
+   * Stop updating while `true`. The hook keeps returning its last value.
+   * @default false
+   */
+  paused?: boolean;
+  /**
+   * Stop interval polling while the app is in the background.
+   * @default true
+   */
+  pauseInBackground?: boolean;
+}
+
+function readMember<K extends DeviceInfoKey>(key: K): DeviceInfoKeyValue<K> {
+  const member: unknown = DeviceInfoModule[key];
+  return (
+    typeof member === 'function' ? member() : member
+  ) as DeviceInfoKeyValue<K>;
+}
+
+/**
+ * Read any synchronous DeviceInfo property or getter and keep it up to date.
+ *
+ * The value is read synchronously on the first render, so it is never
+ * `null`. Under a hydrating `DeviceInfoProvider`, the first render uses the
+ * server snapshot's value, or a placeholder when the snapshot lacks it, and
+ * the device is read on mount; a server value is kept until a live read
+ * returns more than a placeholder. `refreshOn` decides when it is read again;
+ * re-reads that return an equal value do not re-render.
+ *
+ * @param key Property or argument-less sync getter from the `DeviceInfo` spec
+ * @param options Refresh triggers, pause flag and background behavior
+ * @returns The current value, typed from the spec
+ *
+ * @example
+ * ```tsx
+ * import { useDeviceInfo } from 'react-native-nitro-device-info';
+ *
+ * function StorageBanner({ refreshCount }: { refreshCount: number }) {
+ *   // number, re-read every minute, on resume and on pull-to-refresh
+ *   const free = useDeviceInfo('getFreeDiskStorage', {
+ *     refreshOn: { intervalMs: 60000, foreground: true, trigger: refreshCount },
+ *   });
+ *
+ *   return <Text>{(free / 1e9).toFixed(1)} GB free</Text>;
+ * }
+ * ```
+ *
+ * @platform iOS, Android, Web
+ */
+export function useDeviceInfo<K extends DeviceInfoKey>(
+  key: K,
+  options: UseDeviceInfoOptions = {}
+): DeviceInfoKeyValue<K> {
+  const { refreshOn = {}, paused = false, pauseInBackground = true } = options;
+  const { intervalMs, foreground = false, trigger } = refreshOn;
+  const hydration = useHydrationSnapshot();
+  const field = hydration && findSnapshotField(hydration, key);
+  // Key whose server value is kept until a live read resolves, e.g. web
+  // Client Hints that are still loading right after hydration
+  const heldKey = useRef(
+    field !== undefined && !field.isPlaceholder ? key : undefined
+  );
+  // Set while the rendered value is already a live read, so the mount effect
+  // does not read the device a second time
+  const readLive = useRef(hydration === undefined);
+  const [value, setValue] = useState((): DeviceInfoKeyValue<K> => {
+    if (hydration === undefined) {
+      return readMember(key);
+    }
+    // Never read the device while hydrating: there is none on the server, and
+    // the client must render what the server did
+    return field !== undefined
+      ? (field.value as DeviceInfoKeyValue<K>)
+      : HYDRATION_PLACEHOLDERS[key];
+  });
+
+  const update = useCallback(
+    (next: DeviceInfoKeyValue<K>) => {
+      if (heldKey.current === key && isUnresolvedValue(next)) {
+        return;
+      }
+      heldKey.current = undefined;
+      setValue(prev => (isShallowEqual(prev, next) ? prev : next));
+    },
+    [key]
+  );
+
+  // Hydration, a new key or a manual trigger
+  useEffect(() => {
+    if (readLive.current) {
+      readLive.current = false;
+      return;
+    }
+    if (!paused) {
+      update(readMember(key));
+    }
+  }, [key, paused, trigger, update]);
+
+  useEffect(() => {
+    if (paused || intervalMs === undefined) {
+      return;
+    }
+    return schedulePoll(
+      key,
+      () => readMember(key),
+      intervalMs,
+      update,
+      pauseInBackground
+    );
+  }, [key, intervalMs, paused, pauseInBackground, update]);
+
+  useEffect(() => {
+    if (paused || !foreground) {
+      return;
+    }
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        update(readMember(key));
+      }
+    });
+    return () => subscription.remove();
+  }, [key, foreground, paused, update]);
+
+  return value;
+}
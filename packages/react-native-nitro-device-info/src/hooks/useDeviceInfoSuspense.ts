@@ -0,0 +1,58 @@
+/**
+ * useDeviceInfoSuspense Hook
+ *
+ * Read an async DeviceInfo value inside a Suspense boundary.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import * as React from 'react';
+import {
+  loadDeviceInfo,
+  readDeviceInfo,
+  type DeviceInfoResource,
+  type DeviceInfoResourceValue,
+} from './resources';
+
+// `use()` is React 19+; older versions fall back to throwing the promise
+const reactUse = (React as Partial<typeof React>).use;
+
+/**
+ * Read an async DeviceInfo value inside a Suspense boundary.
+ *
+ * The component suspends until the value is loaded. The native method runs
+ * once and every component reading the same key shares the result. A
+ * rejection is thrown to the nearest error boundary; call
+ * `invalidateDeviceInfo(key)` when resetting it to retry.
+ *
+ * @param key Which value to read
+ * @returns The resolved value
+ *
+ * @example
+ * ```tsx
+ * import { Suspense } from 'react';
+ * import { useDeviceInfoSuspense } from 'react-native-nitro-device-info';
+ *
+ * function Referrer() {
+ *   const referrer = useDeviceInfoSuspense('installReferrer');
+ *   return <Text>Installed from {referrer}</Text>;
+ * }
+ *
+ * function Screen() {
+ *   return (
+ *     <Suspense fallback={<ActivityIndicator />}>
+ *       <Referrer />
+ *     </Suspense>
+ *   );
+ * }
+ * ```
+ *
+ * @platform iOS, Android, Web
+ */
+export function useDeviceInfoSuspense<K extends DeviceInfoResource>(
+  key: K
+): DeviceInfoResourceValue<K> {
+  return reactUse !== undefined
+    ? reactUse(loadDeviceInfo(key))
+    : readDeviceInfo(key);
+}
@@ -0,0 +1,127 @@
+/**
+ * useDisplayState Hook
+ *
+ * Monitor orientation, text scale and other display properties.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import { useState, useEffect } from 'react';
+import { Dimensions } from 'react-native';
+import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import { isShallowEqual } from './utils';
+import { findSnapshotField, useHydrationSnapshot } from './DeviceInfoProvider';
+import { HYDRATION_PLACEHOLDERS } from './placeholders';
+import type { DeviceInfoKey, DeviceInfoKeyValue } from './useDeviceInfo';
+import type { PartialDeviceSnapshot } from '../snapshot';
+
+/**
+ * Display properties returned by {@link useDisplayState}
+ */
+export interface DisplayState {
+  isLandscape: boolean;
+  /** Accessibility text scale (1.0 = default) */
+  fontScale: number;
+  /** Screen brightness 0.0-1.0, -1 where unsupported (Android, web) */
+  brightness: number;
+  /** iOS Display Zoom is on */
+  isDisplayZoomed: boolean;
+  hasNotch: boolean;
+  hasDynamicIsland: boolean;
+}
+
+function readDisplayState(): DisplayState {
+  return {
+    isLandscape: DeviceInfoModule.getIsLandscape(),
+    fontScale: DeviceInfoModule.getFontScale(),
+    brightness: DeviceInfoModule.getBrightness(),
+    isDisplayZoomed: DeviceInfoModule.isDisplayZoomed,
+    hasNotch: DeviceInfoModule.getHasNotch(),
+    hasDynamicIsland: DeviceInfoModule.getHasDynamicIsland(),
+  };
+}
+
+/**
+ * The display state the server rendered: snapshot fields, placeholders for
+ * the rest. The device is not read.
+ */
+function readHydratedDisplayState(
+  snapshot: PartialDeviceSnapshot
+): DisplayState {
+  const value = <K extends DeviceInfoKey>(member: K) =>
+    (findSnapshotField(snapshot, member)?.value ??
+      HYDRATION_PLACEHOLDERS[member]) as DeviceInfoKeyValue<K>;
+  return {
+    isLandscape: value('getIsLandscape'),
+    fontScale: value('getFontScale'),
+    brightness: value('getBrightness'),
+    isDisplayZoomed: value('isDisplayZoomed'),
+    hasNotch: value('getHasNotch'),
+    hasDynamicIsland: value('getHasDynamicIsland'),
+  };
+}
+
+/**
+ * Monitor orientation, text scale and other display properties.
+ *
+ * Re-reads on `Dimensions` change events, which fire on rotation, window
+ * resizes (split screen, web) and font scale changes, and on native
+ * brightness events. Nothing is polled. Under a hydrating
+ * `DeviceInfoProvider`, the first render takes the fields the server snapshot
+ * holds and placeholders (portrait, default font scale) for the rest, and the
+ * device is read on mount.
+ *
+ * @returns The current display state, read synchronously on the first render
+ *
+ * @example
+ * ```tsx
+ * import { useDisplayState } from 'react-native-nitro-device-info';
+ *
+ * function Gallery() {
+ *   const { isLandscape, hasDynamicIsland } = useDisplayState();
+ *
+ *   return (
+ *     <Grid
+ *       columns={isLandscape ? 4 : 2}
+ *       topInset={hasDynamicIsland ? 59 : 0}
+ *     />
+ *   );
+ * }
+ * ```
+ *
+ * @platform iOS, Android, Web
+ */
+export function useDisplayState(): DisplayState {
+  const hydration = useHydrationSnapshot();
+  const [displayState, setDisplayState] = useState(() =>
+    hydration !== undefined
+      ? readHydratedDisplayState(hydration)
+      : readDisplayState()
+  );
+
+  useEffect(() => {
+    const update = () => {
+      const next = readDisplayState();
+      setDisplayState(prev => (isShallowEqual(prev, next) ? prev : next));
+    };
+
+    // The display may have changed between the first render and this effect
+    update();
+
+    const dimensionsSubscription = Dimensions.addEventListener(
+      'change',
+      update
+    );
+    const unsubscribe = subscribe('brightness', update, {
+      pauseInBackground: true,
+    });
+
+    return () => {
+      dimensionsSubscription.remove();
+      unsubscribe();
+    };
+  }, []);
+
+  return displayState;
+}
@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 
 /**
  * Monitor Bluetooth headphone/audio device connection state.
@@ -15,6 +21,7 @@ import { DeviceInfoModule } from '../index';
  * Returns true if Bluetooth audio devices are connected (headphones, earbuds, speakers),
  * false if no Bluetooth audio devices are connected.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns true if Bluetooth audio devices are connected, false otherwise
  *
  * @example
@@ -35,26 +42,48 @@ import { DeviceInfoModule } from '../index';
  *
  * @platform iOS, Android
  */
-export function useIsBluetoothHeadphonesConnected(): boolean {
+export function useIsBluetoothHeadphonesConnected(
+  options: PollingOptions = {}
+): boolean {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [isConnected, setIsConnected] = useState<boolean>(false);
 
   useEffect(() => {
-    // Set initial value from sync property
-    const updateStatus = () => {
-      const connected = DeviceInfoModule.getIsBluetoothHeadphonesConnected();
+    if (paused) {
+      return;
+    }
+
+    const updateStatus = (connected: boolean) => {
       setIsConnected(prev => prev === connected ? prev : connected);
     };
 
-    // Get initial state
-    updateStatus();
+    // Get initial state from sync property
+    updateStatus(DeviceInfoModule.getIsBluetoothHeadphonesConnected());
 
-    // Poll for changes (Bluetooth events may have slight delay)
-    const intervalId = setInterval(updateStatus, 1000);
+    // Audio route events cover Bluetooth too; polling is the fallback
+    const unsubscribe = subscribe(
+      'headphones',
+      state => updateStatus(state.bluetooth),
+      { pauseInBackground }
+    );
+    const cancelPoll = scheduleFallbackPoll(
+      'headphones',
+      'getIsBluetoothHeadphonesConnected',
+      () => DeviceInfoModule.getIsBluetoothHeadphonesConnected(),
+      intervalMs,
+      updateStatus,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return isConnected;
 }
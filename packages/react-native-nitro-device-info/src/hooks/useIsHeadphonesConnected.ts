@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 
 /**
  * Monitor headphone connection state (wired or Bluetooth).
@@ -15,6 +21,7 @@ import { DeviceInfoModule } from '../index';
  * Returns true if any headphones are connected (wired or Bluetooth),
  * false if no headphones are connected.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns true if any headphones are connected, false otherwise
  *
  * @example
@@ -34,26 +41,48 @@ import { DeviceInfoModule } from '../index';
  *
  * @platform iOS, Android
  */
-export function useIsHeadphonesConnected(): boolean {
+export function useIsHeadphonesConnected(
+  options: PollingOptions = {}
+): boolean {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [isConnected, setIsConnected] = useState<boolean>(false);
 
   useEffect(() => {
-    // Set initial value from sync property
-    const updateStatus = () => {
-      const connected = DeviceInfoModule.getIsHeadphonesConnected();
+    if (paused) {
+      return;
+    }
+
+    const updateStatus = (connected: boolean) => {
       setIsConnected(prev => prev === connected ? prev : connected);
     };
 
-    // Get initial state
-    updateStatus();
+    // Get initial state from sync property
+    updateStatus(DeviceInfoModule.getIsHeadphonesConnected());
 
-    // Poll for changes (headphone events are instant, but polling is fallback)
-    const intervalId = setInterval(updateStatus, 1000);
+    // Audio route events are instant; polling is the fallback
+    const unsubscribe = subscribe(
+      'headphones',
+      state => updateStatus(state.wired || state.bluetooth),
+      { pauseInBackground }
+    );
+    const cancelPoll = scheduleFallbackPoll(
+      'headphones',
+      'getIsHeadphonesConnected',
+      () => DeviceInfoModule.getIsHeadphonesConnected(),
+      intervalMs,
+      updateStatus,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return isConnected;
 }
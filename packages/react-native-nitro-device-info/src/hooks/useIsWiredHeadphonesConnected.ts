@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 
 /**
  * Monitor wired headphone connection state.
@@ -15,6 +21,7 @@ import { DeviceInfoModule } from '../index';
  * Returns true if wired headphones are connected (3.5mm jack or Lightning/USB-C adapter),
  * false if no wired headphones are connected.
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns true if wired headphones are connected, false otherwise
  *
  * @example
@@ -35,26 +42,48 @@ import { DeviceInfoModule } from '../index';
  *
  * @platform iOS, Android
  */
-export function useIsWiredHeadphonesConnected(): boolean {
+export function useIsWiredHeadphonesConnected(
+  options: PollingOptions = {}
+): boolean {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [isConnected, setIsConnected] = useState<boolean>(false);
 
   useEffect(() => {
-    // Set initial value from sync property
-    const updateStatus = () => {
-      const connected = DeviceInfoModule.getIsWiredHeadphonesConnected();
+    if (paused) {
+      return;
+    }
+
+    const updateStatus = (connected: boolean) => {
       setIsConnected(prev => prev === connected ? prev : connected);
     };
 
-    // Get initial state
-    updateStatus();
+    // Get initial state from sync property
+    updateStatus(DeviceInfoModule.getIsWiredHeadphonesConnected());
 
-    // Poll for changes (headphone events are instant, but polling is fallback)
-    const intervalId = setInterval(updateStatus, 1000);
+    // Audio route events are instant; polling is the fallback
+    const unsubscribe = subscribe(
+      'headphones',
+      state => updateStatus(state.wired),
+      { pauseInBackground }
+    );
+    const cancelPoll = scheduleFallbackPoll(
+      'headphones',
+      'getIsWiredHeadphonesConnected',
+      () => DeviceInfoModule.getIsWiredHeadphonesConnected(),
+      intervalMs,
+      updateStatus,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return isConnected;
 }
@@ -8,6 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { DeviceInfoModule } from '../index';
+import { subscribe } from '../events';
+import {
+  DEFAULT_POLL_INTERVAL_MS,
+  scheduleFallbackPoll,
+  type PollingOptions,
+} from './scheduler';
 import type { PowerState } from '../DeviceInfo.nitro';
 
 /**
@@ -18,6 +24,7 @@ import type { PowerState } from '../DeviceInfo.nitro';
  * - batteryState?: Current charging state ('unknown', 'unplugged', 'charging', 'full')
  * - lowPowerMode?: Whether low power mode is enabled (iOS only)
  *
+ * @param options Fallback polling interval, pause flag and background behavior
  * @returns Partial<PowerState> object, or empty object during initial load
  *
  * @example
@@ -39,13 +46,22 @@ import type { PowerState } from '../DeviceInfo.nitro';
  *
  * @platform iOS, Android
  */
-export function usePowerState(): Partial<PowerState> {
+export function usePowerState(
+  options: PollingOptions = {}
+): Partial<PowerState> {
+  const {
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    paused = false,
+    pauseInBackground = true,
+  } = options;
   const [powerState, setPowerState] = useState<Partial<PowerState>>({});
 
   useEffect(() => {
-    // Set initial value from sync property
-    const updatePowerState = () => {
-      const state = DeviceInfoModule.getPowerState();
+    if (paused) {
+      return;
+    }
+
+    const updatePowerState = (state: PowerState) => {
       // Only update state if values have changed to prevent unnecessary re-renders
       setPowerState(prev => {
         if (
@@ -59,16 +75,27 @@ export function usePowerState(): Partial<PowerState> {
       });
     };
 
-    // Get initial state
-    updatePowerState();
+    // Get initial state from sync property
+    updatePowerState(DeviceInfoModule.getPowerState());
 
-    // Poll for changes
-    const intervalId = setInterval(updatePowerState, 5000);
+    // Battery and low power mode events, with polling as a fallback
+    const unsubscribe = subscribe('battery', updatePowerState, {
+      pauseInBackground,
+    });
+    const cancelPoll = scheduleFallbackPoll(
+      'battery',
+      'getPowerState',
+      () => DeviceInfoModule.getPowerState(),
+      intervalMs,
+      updatePowerState,
+      pauseInBackground
+    );
 
     return () => {
-      clearInterval(intervalId);
+      unsubscribe();
+      cancelPoll();
     };
-  }, []);
+  }, [intervalMs, paused, pauseInBackground]);
 
   return powerState;
 }
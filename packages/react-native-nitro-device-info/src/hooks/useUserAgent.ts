@@ -0,0 +1,87 @@
+/**
+ * useUserAgent Hook
+ *
+ * Read the HTTP User-Agent string.
+ *
+ * @module react-native-nitro-device-info/hooks
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { DeviceInfoModule } from '../index';
+import { findSnapshotField, useHydrationSnapshot } from './DeviceInfoProvider';
+import { isUnresolvedValue } from './utils';
+
+/**
+ * Read the HTTP User-Agent string.
+ *
+ * Renders with the cached `DeviceInfoModule.userAgent` right away. If the
+ * cache is still cold (the load started at module creation has not finished),
+ * it waits for `getUserAgent()` and re-renders. Under a hydrating
+ * `DeviceInfoProvider` the first render uses the snapshot's user agent, or
+ * `''`, without reading the device; the mount effect then reads it, keeping a
+ * server value until the live read returns more than a placeholder.
+ *
+ * @returns User agent, or `''` while it loads
+ *
+ * @example
+ * ```tsx
+ * import { useUserAgent } from 'react-native-nitro-device-info';
+ *
+ * function DebugFooter() {
+ *   const userAgent = useUserAgent();
+ *
+ *   return <Text>{userAgent || 'Loading...'}</Text>;
+ * }
+ * ```
+ *
+ * @platform iOS, Android, Web
+ */
+export function useUserAgent(): string {
+  const hydration = useHydrationSnapshot();
+  const field = hydration && findSnapshotField(hydration, 'userAgent');
+  // Set while the rendered value came from the server instead of the device
+  const fromServer = useRef(hydration !== undefined);
+  const [userAgent, setUserAgent] = useState((): string => {
+    if (hydration === undefined) {
+      return DeviceInfoModule.userAgent;
+    }
+    // Never read the device while hydrating: there is none on the server, and
+    // the client must render what the server did
+    return field !== undefined && !field.isPlaceholder
+      ? (field.value as string)
+      : '';
+  });
+
+  useEffect(() => {
+    const held = fromServer.current && userAgent !== '';
+    let current = userAgent;
+    if (fromServer.current) {
+      fromServer.current = false;
+      current = DeviceInfoModule.userAgent;
+      if (current !== '') {
+        setUserAgent(current);
+        return;
+      }
+    }
+    if (current !== '') {
+      return;
+    }
+
+    let cancelled = false;
+    DeviceInfoModule.getUserAgent()
+      .then(value => {
+        if (!cancelled && !(held && isUnresolvedValue(value))) {
+          setUserAgent(value);
+        }
+      })
+      .catch(() => {
+        // Keep the current value when the WebView cannot report a user agent
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userAgent]);
+
+  return userAgent;
+}
@@ -5,6 +5,7 @@
  */
 
 import { Platform } from 'react-native';
+import { isPlaceholderValue } from '../snapshot';
 
 /**
  * Low battery threshold constants by platform
@@ -22,3 +23,40 @@ export const LOW_BATTERY_THRESHOLD = Platform.OS === 'android' ? 0.15 : 0.2;
 export function isLowBatteryLevel(level: number): boolean {
   return level < LOW_BATTERY_THRESHOLD;
 }
+
+/**
+ * Compare two hook values one level deep. Getters returning arrays or objects
+ * build a new one on every read, so an unchanged value must not re-render.
+ *
+ * @returns true if the values are identical or have identical entries
+ */
+export function isShallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return (
+    keys.length === Object.keys(bRecord).length &&
+    keys.every(key => Object.is(aRecord[key], bRecord[key]))
+  );
+}
+
+/**
+ * Whether a live read has not produced a real value yet: a spec placeholder
+ * (`'unknown'`, `-1`) or an empty list
+ */
+export function isUnresolvedValue(value: unknown): boolean {
+  return (
+    isPlaceholderValue(value) || (Array.isArray(value) && value.length === 0)
+  );
+}
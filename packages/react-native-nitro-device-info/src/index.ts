@@ -8,19 +8,23 @@
  */
 
 import { NitroModules } from 'react-native-nitro-modules';
+import { gatedDeviceInfo } from './privacy';
 import type {
   DeviceInfo,
   PowerState,
   DeviceType,
   BatteryState,
   NavigationMode,
+  DeviceEventChannel,
+  DiskCapacityKind,
 } from './DeviceInfo.nitro';
 
 /**
  * Create the DeviceInfo HybridObject instance
  *
- * This singleton provides access to all device information methods.
- * It is created once and reused throughout the application lifecycle.
+ * Returns the raw HybridObject, which `configurePrivacy()` does not gate:
+ * only {@link DeviceInfoModule} redacts members above the privacy tier.
+ * Prefer the singleton unless you need a separate instance.
  *
  * @example
  * ```typescript
@@ -51,8 +55,9 @@ export function createDeviceInfo(): DeviceInfo {
  * which ignores the `browser` export condition on the server) can still load
  * this native module. Deferring instantiation means merely importing the
  * package never throws; the native binding is only touched when a value is
- * actually read, which during SSR never happens (effects don't run on the
- * server). Native runtimes are unaffected: Nitro caches the constructor, so the
+ * actually read. Under a `DeviceInfoProvider` the hooks render the server
+ * snapshot or placeholders instead of reading, and their effects don't run
+ * on the server. Native runtimes are unaffected: Nitro caches the constructor, so the
  * singleton is still created exactly once on first use.
  */
 let nativeInstance: DeviceInfo | undefined;
@@ -74,27 +79,84 @@ function getNativeInstance(): DeviceInfo {
  * const uniqueId = await DeviceInfo.getUniqueId()
  * ```
  */
-export const DeviceInfoModule: DeviceInfo = new Proxy({} as DeviceInfo, {
-  get(_target, prop) {
-    // Read from the native HybridObject WITHOUT forwarding `receiver`. Passing
-    // the Proxy as `receiver` (e.g. `Reflect.get(instance, prop, receiver)`)
-    // would run Nitro's native getters/methods with `this` bound to the Proxy,
-    // whose target is an empty object with no NativeState — every access then
-    // throws "`this` does not have a NativeState". Reading directly off the
-    // instance keeps `this` bound to the real HybridObject. Methods are bound to
-    // the instance for the same reason: an unbound function called later would
-    // lose its `this`.
-    const instance = getNativeInstance();
-    const value = instance[prop as keyof DeviceInfo];
-    return typeof value === 'function' ? value.bind(instance) : value;
-  },
-  has(_target, prop) {
-    return Reflect.has(getNativeInstance(), prop);
-  },
-});
+export const DeviceInfoModule: DeviceInfo = gatedDeviceInfo(getNativeInstance);
 
 // Re-export types for convenience
-export type { DeviceInfo, PowerState, DeviceType, BatteryState, NavigationMode };
+export type {
+  DeviceInfo,
+  PowerState,
+  DeviceType,
+  BatteryState,
+  NavigationMode,
+  DeviceEventChannel,
+  DiskCapacityKind,
+};
+
+// Re-export device state change subscriptions
+export { subscribe, readChannel } from './events';
+export type {
+  DeviceEventMap,
+  DeviceEventListener,
+  HeadphoneState,
+  NetworkState,
+  SubscribeOptions,
+} from './events';
+
+// Re-export the device snapshot API
+export { getDeviceSnapshot, isPlaceholderValue } from './snapshot';
+export type {
+  DeviceSnapshot,
+  DeviceSnapshotOptions,
+  DeviceSnapshotValues,
+  PartialDeviceSnapshot,
+  SnapshotCategory,
+  SnapshotCategoryFields,
+  SnapshotField,
+  SnapshotFieldPath,
+} from './snapshot';
+export {
+  diffDeviceSnapshots,
+  diffSinceLastLaunch,
+  DEFAULT_DIFF_IGNORE,
+} from './snapshot-diff';
+export type {
+  DeviceSnapshotDiff,
+  DiffDeviceSnapshotsOptions,
+  DiffSinceLastLaunchOptions,
+  LaunchSnapshotDiff,
+  SnapshotChange,
+  SnapshotChangeKind,
+  SnapshotStorage,
+} from './snapshot-diff';
+export { getServerDeviceSnapshot, CLIENT_HINT_HEADERS } from './ssr';
+export type { RequestHeaders } from './ssr';
+
+// Re-export placeholder-aware accessors
+export { getSafe, getOrUndefined } from './safe';
+export type {
+  SafeKey,
+  SafeKeyValue,
+  SafeValue,
+  UnavailableReason,
+} from './safe';
+
+// Re-export privacy tier configuration
+export {
+  configurePrivacy,
+  getPrivacyTier,
+  isPrivacyAllowed,
+  PRIVACY_GATED_MEMBERS,
+} from './privacy';
+export type { PrivacyConfig, PrivacyGatedMember, PrivacyTier } from './privacy';
+
+// Re-export the device fingerprint builder
+export { buildDeviceFingerprint, SIGNAL_VOLATILITY } from './fingerprint';
+export type {
+  DeviceFingerprint,
+  DeviceFingerprintOptions,
+  FingerprintSignal,
+  FingerprintSignalResult,
+} from './fingerprint';
 
 // Re-export React hooks for runtime monitoring
 export {
@@ -105,4 +167,22 @@ export {
   useIsWiredHeadphonesConnected,
   useIsBluetoothHeadphonesConnected,
   useBrightness,
+  useDisplayState,
+  useUserAgent,
+  useDeviceInfo,
+  useDeviceInfoSuspense,
+  preloadDeviceInfo,
+  invalidateDeviceInfo,
+  DeviceInfoProvider,
+} from './hooks';
+export type {
+  PollingOptions,
+  DisplayState,
+  DeviceInfoKey,
+  DeviceInfoKeyValue,
+  DeviceInfoRefreshOptions,
+  UseDeviceInfoOptions,
+  DeviceInfoResource,
+  DeviceInfoResourceValue,
+  DeviceInfoProviderProps,
 } from './hooks';
@@ -14,24 +14,105 @@
  */
 
 import { createDeviceInfo } from './DeviceInfo.web';
+import { gatedDeviceInfo } from './privacy';
 import type {
   DeviceInfo,
   PowerState,
   DeviceType,
   BatteryState,
   NavigationMode,
+  DeviceEventChannel,
+  DiskCapacityKind,
 } from './DeviceInfo.nitro';
 
 export { createDeviceInfo };
 
+const webInstance = createDeviceInfo();
+
 /**
  * Pre-created web fallback singleton, mirroring the native entry's
- * `DeviceInfoModule`. Safe to import in a browser or during SSR.
+ * `DeviceInfoModule`, including its privacy gate. Safe to import in a browser
+ * or during SSR.
  */
-export const DeviceInfoModule: DeviceInfo = createDeviceInfo();
+export const DeviceInfoModule: DeviceInfo = gatedDeviceInfo(() => webInstance);
 
 // Re-export types for convenience (identical to the native entry).
-export type { DeviceInfo, PowerState, DeviceType, BatteryState, NavigationMode };
+export type {
+  DeviceInfo,
+  PowerState,
+  DeviceType,
+  BatteryState,
+  NavigationMode,
+  DeviceEventChannel,
+  DiskCapacityKind,
+};
+
+// Re-export device state change subscriptions
+export { subscribe, readChannel } from './events';
+export type {
+  DeviceEventMap,
+  DeviceEventListener,
+  HeadphoneState,
+  NetworkState,
+  SubscribeOptions,
+} from './events';
+
+// Re-export the device snapshot API
+export { getDeviceSnapshot, isPlaceholderValue } from './snapshot';
+export type {
+  DeviceSnapshot,
+  DeviceSnapshotOptions,
+  DeviceSnapshotValues,
+  PartialDeviceSnapshot,
+  SnapshotCategory,
+  SnapshotCategoryFields,
+  SnapshotField,
+  SnapshotFieldPath,
+} from './snapshot';
+export {
+  diffDeviceSnapshots,
+  diffSinceLastLaunch,
+  DEFAULT_DIFF_IGNORE,
+} from './snapshot-diff';
+export type {
+  DeviceSnapshotDiff,
+  DiffDeviceSnapshotsOptions,
+  DiffSinceLastLaunchOptions,
+  LaunchSnapshotDiff,
+  SnapshotChange,
+  SnapshotChangeKind,
+  SnapshotStorage,
+} from './snapshot-diff';
+export { getServerDeviceSnapshot, CLIENT_HINT_HEADERS } from './ssr';
+export type { RequestHeaders } from './ssr';
+
+// Re-export placeholder-aware accessors
+export { getSafe, getOrUndefined } from './safe';
+export type {
+  SafeKey,
+  SafeKeyValue,
+  SafeValue,
+  UnavailableReason,
+} from './safe';
+
+// Re-export privacy tier configuration. `DeviceInfoModule` redacts gated
+// members here as on native, so tier checks and warnings behave the same.
+export {
+  configurePrivacy,
+  getPrivacyTier,
+  isPrivacyAllowed,
+  PRIVACY_GATED_MEMBERS,
+} from './privacy';
+export type { PrivacyConfig, PrivacyGatedMember, PrivacyTier } from './privacy';
+
+// Re-export the device fingerprint builder
+export { buildDeviceFingerprint, SIGNAL_VOLATILITY } from './fingerprint';
+export type {
+  DeviceFingerprint,
+  DeviceFingerprintOptions,
+  FingerprintSignal,
+  FingerprintSignalResult,
+} from './fingerprint';
 
 // Re-export React hooks. They read from `DeviceInfoModule` (this module's web
 // fallback when bundled for web), so they run unchanged in the browser.
@@ -43,4 +124,22 @@ export {
   useIsWiredHeadphonesConnected,
   useIsBluetoothHeadphonesConnected,
   useBrightness,
+  useDisplayState,
+  useUserAgent,
+  useDeviceInfo,
+  useDeviceInfoSuspense,
+  preloadDeviceInfo,
+  invalidateDeviceInfo,
+  DeviceInfoProvider,
+} from './hooks';
+export type {
+  PollingOptions,
+  DisplayState,
+  DeviceInfoKey,
+  DeviceInfoKeyValue,
+  DeviceInfoRefreshOptions,
+  UseDeviceInfoOptions,
+  DeviceInfoResource,
+  DeviceInfoResourceValue,
+  DeviceInfoProviderProps,
 } from './hooks';
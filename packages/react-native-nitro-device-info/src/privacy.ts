@@ -0,0 +1,218 @@
+/**
+ * Privacy tiers
+ *
+ * Runtime policy for the members of `DeviceInfo` that return personal or
+ * tracking data. Each gated member requires a minimum tier; below it,
+ * `DeviceInfoModule` hands back a placeholder without touching the native
+ * module, and development builds warn with the offending call site.
+ *
+ * @module react-native-nitro-device-info/privacy
+ */
+
+import type { HybridObject } from 'react-native-nitro-modules';
+import type { DeviceInfo } from './DeviceInfo.nitro';
+
+/**
+ * How much personal data the app is allowed to read, from least to most
+ *
+ * - `minimal`: no identifiers or network details
+ * - `analytics`: app-scoped identifier, carrier and IP address
+ * - `full`: everything, including hardware serial, Android ID, MAC address
+ *   and the user-assigned device name (default)
+ */
+export type PrivacyTier = 'minimal' | 'analytics' | 'full';
+
+/**
+ * Options for {@link configurePrivacy}
+ */
+export interface PrivacyConfig {
+  tier: PrivacyTier;
+
+  /**
+   * Warn on every redacted read, naming the call site.
+   * @default __DEV__
+   */
+  warn?: boolean;
+}
+
+const TIER_ORDER: readonly PrivacyTier[] = ['minimal', 'analytics', 'full'];
+
+/**
+ * Minimum tier required to read each gated member
+ */
+export const PRIVACY_GATED_MEMBERS = {
+  uniqueId: 'analytics',
+  syncUniqueId: 'analytics',
+  getIpAddress: 'analytics',
+  getIpAddressSync: 'analytics',
+  getCarrier: 'analytics',
+  getCarrierSync: 'analytics',
+  serialNumber: 'full',
+  androidId: 'full',
+  getMacAddress: 'full',
+  getMacAddressSync: 'full',
+  deviceName: 'full',
+} as const satisfies {
+  [K in Exclude<keyof DeviceInfo, keyof HybridObject<never>>]?: PrivacyTier;
+};
+
+/**
+ * Member of `DeviceInfo` that is subject to the privacy tier
+ */
+export type PrivacyGatedMember = keyof typeof PRIVACY_GATED_MEMBERS;
+
+const ASYNC_MEMBERS: ReadonlySet<PrivacyGatedMember> = new Set([
+  'syncUniqueId',
+  'getIpAddress',
+  'getCarrier',
+  'getMacAddress',
+]);
+
+const REDACTED_VALUE = 'unknown';
+
+let currentTier: PrivacyTier = 'full';
+// `__DEV__` is only defined under Metro and the React Native jest preset; the
+// package also loads in browsers and on SSR servers
+const isDevBuild = typeof __DEV__ !== 'undefined' && __DEV__;
+
+let warnOnRedaction: boolean = isDevBuild;
+
+/**
+ * Set the privacy tier for the whole app.
+ *
+ * Call it once at startup, before anything reads device information. Reads of
+ * gated members below the tier return `'unknown'` (the spec's placeholder)
+ * without calling into the native module.
+ *
+ * @param config Tier and warning behavior
+ *
+ * @example
+ * ```typescript
+ * import { configurePrivacy } from 'react-native-nitro-device-info';
+ *
+ * configurePrivacy({ tier: 'analytics' });
+ *
+ * DeviceInfoModule.uniqueId; // real value
+ * DeviceInfoModule.serialNumber; // 'unknown', never read from native
+ * ```
+ */
+export function configurePrivacy(config: PrivacyConfig): void {
+  currentTier = config.tier;
+  warnOnRedaction = config.warn ?? isDevBuild;
+}
+
+/**
+ * @returns The tier set by {@link configurePrivacy} (`'full'` by default)
+ */
+export function getPrivacyTier(): PrivacyTier {
+  return currentTier;
+}
+
+/**
+ * Whether a member may be read under the current tier. Members that are not
+ * gated are always readable.
+ */
+export function isPrivacyAllowed(member: PropertyKey): boolean {
+  if (!Object.prototype.hasOwnProperty.call(PRIVACY_GATED_MEMBERS, member)) {
+    return true;
+  }
+  const required = PRIVACY_GATED_MEMBERS[member as PrivacyGatedMember];
+  return TIER_ORDER.indexOf(currentTier) >= TIER_ORDER.indexOf(required);
+}
+
+// Location of a V8 or Hermes stack frame, e.g. `at fn (/app/src/a.ts:1:2)`
+const FRAME_FILE = /\(?([^\s()]+?):\d+:\d+\)?$/;
+
+// Directory of this package, derived from the path of `privacy.(ts|js)` in
+// `src/` or `lib/<format>/`
+const PACKAGE_ROOT =
+  /^(.*[\\/])(?:src|lib[\\/][^\\/]+)[\\/]privacy\.[cm]?[jt]s$/;
+
+/**
+ * First stack frame outside this package: the app code that read the member,
+ * whichever wrappers (compat getters, hook readers) sit in between.
+ */
+function findCallSite(): string | undefined {
+  const frames = (new Error().stack ?? '')
+    .split('\n')
+    .slice(1)
+    .map(frame => frame.trim());
+  const ownFile = FRAME_FILE.exec(frames[0] ?? '')?.[1];
+  const root =
+    ownFile === undefined ? undefined : PACKAGE_ROOT.exec(ownFile)?.[1];
+  if (root === undefined) {
+    // Single-file bundles (Metro) carry no module paths: assume a direct read.
+    // Frames: findCallSite, warnRedactedRead, redactedMember, Proxy `get`
+    // trap, caller
+    return frames[4];
+  }
+  return frames.find(frame => {
+    const file = FRAME_FILE.exec(frame)?.[1];
+    if (file === undefined || file.startsWith('node:')) {
+      return false;
+    }
+    return !file.startsWith(root) || /[\\/]__tests__[\\/]/.test(file);
+  });
+}
+
+function warnRedactedRead(member: PrivacyGatedMember): void {
+  const callSite = findCallSite();
+  console.warn(
+    `[react-native-nitro-device-info] "${member}" requires privacy tier ` +
+      `'${PRIVACY_GATED_MEMBERS[member]}' (current: '${currentTier}') and was ` +
+      `redacted.${callSite ? `\n  Read ${callSite}` : ''}`
+  );
+}
+
+/**
+ * Stand-in for a gated member read below its tier: the placeholder itself for
+ * properties, or a function returning it for methods.
+ *
+ * Must be called directly from the `DeviceInfoModule` accessor: in bundles
+ * without module paths the warning locates the caller by stack depth.
+ *
+ * @internal
+ */
+export function redactedMember(member: PrivacyGatedMember): unknown {
+  if (warnOnRedaction) {
+    warnRedactedRead(member);
+  }
+  if (member.startsWith('get') || member === 'syncUniqueId') {
+    return ASYNC_MEMBERS.has(member)
+      ? () => Promise.resolve(REDACTED_VALUE)
+      : () => REDACTED_VALUE;
+  }
+  return REDACTED_VALUE;
+}
+
+/**
+ * Wrap a `DeviceInfo` getter in the privacy tier: gated members below the
+ * configured tier are redacted before the instance is touched. Backs
+ * `DeviceInfoModule` in the native and web entries.
+ *
+ * @internal
+ */
+export function gatedDeviceInfo(getInstance: () => DeviceInfo): DeviceInfo {
+  return new Proxy({} as DeviceInfo, {
+    get(_target, prop) {
+      if (!isPrivacyAllowed(prop)) {
+        // Below the configured privacy tier the native value is never read
+        return redactedMember(prop as PrivacyGatedMember);
+      }
+      // Read from the instance WITHOUT forwarding `receiver`. Passing
+      // the Proxy as `receiver` (e.g. `Reflect.get(instance, prop, receiver)`)
+      // would run Nitro's native getters/methods with `this` bound to the Proxy,
+      // whose target is an empty object with no NativeState — every access then
+      // throws "`this` does not have a NativeState". Reading directly off the
+      // instance keeps `this` bound to the real HybridObject. Methods are bound to
+      // the instance for the same reason: an unbound function called later would
+      // lose its `this`.
+      const instance = getInstance();
+      const value = instance[prop as keyof DeviceInfo];
+      return typeof value === 'function' ? value.bind(instance) : value;
+    },
+    has(_target, prop) {
+      return Reflect.has(getInstance(), prop);
+    },
+  });
+}
@@ -0,0 +1,233 @@
+/**
+ * Placeholder-aware accessors
+ *
+ * The spec never throws for unsupported data; it returns a sentinel instead
+ * (`'unknown'`, `-1`, `[]`, or a platform-specific constant). This opt-in layer
+ * knows, per property, which values mean "unavailable" and on which platforms
+ * the property exists, and turns those into `undefined` or a discriminated
+ * result so sentinels never reach analytics as if they were real data.
+ *
+ * @module react-native-nitro-device-info/safe
+ */
+
+import { Platform } from 'react-native';
+import type { PlatformOSType } from 'react-native';
+import { DeviceInfoModule } from './index';
+import type { HybridObject } from 'react-native-nitro-modules';
+import type { DeviceInfo } from './DeviceInfo.nitro';
+
+/**
+ * Why a value is unavailable
+ *
+ * - `platform`: the property does not exist on the current platform
+ * - `permission`: the platform supports it, but a permission is missing
+ * - `unavailable`: supported here, but the device could not provide a value
+ *   (simulator, no SIM card, sideloaded install, browser without the API, ...)
+ */
+export type UnavailableReason = 'platform' | 'permission' | 'unavailable';
+
+/**
+ * Result of {@link getSafe}
+ */
+export type SafeValue<T> =
+  | { supported: true; value: T }
+  | { supported: false; reason: UnavailableReason };
+
+interface PropertyRule {
+  /** Whether the raw value is this property's "not available" sentinel */
+  isSentinel: (value: unknown) => boolean;
+  /** Platforms that implement the property. Omitted means all of them. */
+  platforms?: readonly PlatformOSType[];
+  /** Reason reported for a sentinel on a supported platform */
+  reason?: UnavailableReason;
+}
+
+const isUnknown = (value: unknown) => value === 'unknown';
+const isNegativeOne = (value: unknown) => value === -1;
+const isEmptyArray = (value: unknown) =>
+  Array.isArray(value) && value.length === 0;
+
+const MOBILE: readonly PlatformOSType[] = ['ios', 'android'];
+const ANDROID: readonly PlatformOSType[] = ['android'];
+const IOS: readonly PlatformOSType[] = ['ios'];
+const WINDOWS: readonly PlatformOSType[] = ['windows'];
+
+const androidBuildField: PropertyRule = {
+  isSentinel: isUnknown,
+  platforms: ANDROID,
+};
+
+/**
+ * Per-property knowledge of sentinels and platform support. Only members that
+ * can return a sentinel are listed; everything else is always real data.
+ */
+const rules = {
+  // Core device information
+  deviceId: { isSentinel: isUnknown },
+  brand: { isSentinel: isUnknown },
+  model: { isSentinel: isUnknown },
+  systemVersion: { isSentinel: isUnknown },
+  deviceType: { isSentinel: isUnknown },
+  uniqueId: { isSentinel: isUnknown },
+  manufacturer: { isSentinel: isUnknown },
+  deviceName: { isSentinel: isUnknown },
+  deviceYearClass: { isSentinel: isNegativeOne },
+
+  // Display
+  getBrightness: { isSentinel: isNegativeOne, platforms: IOS },
+
+  // System resources
+  totalMemory: { isSentinel: isNegativeOne },
+  getUsedMemory: { isSentinel: isNegativeOne },
+  maxMemory: { isSentinel: isNegativeOne, platforms: ANDROID },
+  totalDiskCapacity: { isSentinel: isNegativeOne },
+  getFreeDiskStorage: { isSentinel: isNegativeOne },
+  getUptime: { isSentinel: isNegativeOne },
+  startupTime: { isSentinel: isNegativeOne },
+
+  // Battery: -1 on the iOS simulator and in browsers without the Battery API
+  getBatteryLevel: { isSentinel: isNegativeOne },
+
+  // Application metadata
+  version: { isSentinel: isUnknown },
+  buildNumber: { isSentinel: isUnknown },
+  bundleId: { isSentinel: isUnknown },
+  applicationName: { isSentinel: isUnknown },
+  readableVersion: { isSentinel: isUnknown },
+  firstInstallTimeSync: { isSentinel: isNegativeOne },
+  lastUpdateTimeSync: { isSentinel: isNegativeOne, platforms: ANDROID },
+  // 'unknown' when sideloaded
+  installerPackageName: { isSentinel: isUnknown },
+
+  // Network: iOS reports a fixed, meaningless MAC address since iOS 7
+  getIpAddressSync: { isSentinel: isUnknown },
+  getMacAddressSync: { isSentinel: isUnknown, platforms: ANDROID },
+  // '' until the load started at module init has filled the cache
+  userAgent: { isSentinel: value => value === '' },
+
+  // Carrier: 'unknown' without a SIM card
+  getCarrierSync: { isSentinel: isUnknown, platforms: MOBILE },
+  carrierIsoCountryCode: { isSentinel: isUnknown, platforms: MOBILE },
+  mobileCountryCode: { isSentinel: isUnknown, platforms: MOBILE },
+  mobileNetworkCode: { isSentinel: isUnknown, platforms: MOBILE },
+  mobileNetworkOperator: { isSentinel: isUnknown, platforms: MOBILE },
+
+  // Localization and CPU
+  systemLanguage: { isSentinel: isUnknown },
+  supportedAbis: { isSentinel: isEmptyArray, platforms: MOBILE },
+
+  // Android platform
+  apiLevel: { isSentinel: isNegativeOne, platforms: ANDROID },
+  navigationMode: { isSentinel: isUnknown, platforms: ANDROID },
+  systemAvailableFeatures: { isSentinel: isEmptyArray, platforms: ANDROID },
+  supportedMediaTypeList: { isSentinel: isEmptyArray, platforms: ANDROID },
+
+  // Android build information
+  serialNumber: {
+    isSentinel: isUnknown,
+    platforms: ANDROID,
+    // Needs READ_PHONE_STATE (and carrier privileges on Android 10+)
+    reason: 'permission',
+  },
+  androidId: androidBuildField,
+  // 0 is the real value on release builds, so only the platform check applies
+  previewSdkInt: { isSentinel: () => false, platforms: ANDROID },
+  securityPatch: androidBuildField,
+  codename: androidBuildField,
+  incremental: androidBuildField,
+  board: androidBuildField,
+  bootloader: androidBuildField,
+  device: androidBuildField,
+  display: androidBuildField,
+  fingerprint: androidBuildField,
+  hardware: androidBuildField,
+  host: androidBuildField,
+  product: androidBuildField,
+  tags: androidBuildField,
+  type: androidBuildField,
+  // An empty string means "no base OS", which is real data
+  baseOs: androidBuildField,
+  radioVersion: androidBuildField,
+  buildId: androidBuildField,
+
+  // Windows only
+  isMouseConnected: { isSentinel: () => false, platforms: WINDOWS },
+  isKeyboardConnected: { isSentinel: () => false, platforms: WINDOWS },
+  hostNames: { isSentinel: isEmptyArray, platforms: WINDOWS },
+  isTabletMode: { isSentinel: () => false, platforms: WINDOWS },
+} satisfies {
+  [K in Exclude<keyof DeviceInfo, keyof HybridObject<never>>]?: PropertyRule;
+};
+
+/**
+ * `DeviceInfo` members that can report a placeholder: readonly properties and
+ * argument-less sync getters
+ */
+export type SafeKey = keyof typeof rules;
+
+/**
+ * Type of the value behind a {@link SafeKey}; getters resolve to their return type
+ */
+export type SafeKeyValue<K extends SafeKey> =
+  DeviceInfo[K] extends () => infer R ? R : DeviceInfo[K];
+
+/**
+ * Read a property and report whether its value is real.
+ *
+ * @param key Property or sync getter name from the `DeviceInfo` spec
+ * @returns `{ supported: true, value }`, or `{ supported: false, reason }` when
+ * the platform does not have the property or returned its sentinel
+ *
+ * @example
+ * ```typescript
+ * import { getSafe } from 'react-native-nitro-device-info';
+ *
+ * const serial = getSafe('serialNumber');
+ * if (serial.supported) {
+ *   console.log(serial.value);
+ * } else if (serial.reason === 'permission') {
+ *   requestPhoneStatePermission();
+ * }
+ * ```
+ */
+export function getSafe<K extends SafeKey>(key: K): SafeValue<SafeKeyValue<K>> {
+  const rule: PropertyRule = rules[key];
+
+  if (rule.platforms !== undefined && !rule.platforms.includes(Platform.OS)) {
+    // Not read at all: the value would only be another sentinel
+    return { supported: false, reason: 'platform' };
+  }
+
+  const member: unknown = DeviceInfoModule[key];
+  const value = (
+    typeof member === 'function' ? member() : member
+  ) as SafeKeyValue<K>;
+
+  if (rule.isSentinel(value)) {
+    return { supported: false, reason: rule.reason ?? 'unavailable' };
+  }
+  return { supported: true, value };
+}
+
+/**
+ * Read a property, returning `undefined` instead of a placeholder.
+ *
+ * @param key Property or sync getter name from the `DeviceInfo` spec
+ * @returns The value, or `undefined` when it is unavailable
+ *
+ * @example
+ * ```typescript
+ * import { getOrUndefined } from 'react-native-nitro-device-info';
+ *
+ * analytics.setUserProperties({
+ *   carrier: getOrUndefined('getCarrierSync'),
+ *   apiLevel: getOrUndefined('apiLevel'), // undefined on iOS instead of -1
+ * });
+ * ```
+ */
+export function getOrUndefined<K extends SafeKey>(
+  key: K
+): SafeKeyValue<K> | undefined {
+  const result = getSafe(key);
+  return result.supported ? result.value : undefined;
+}
@@ -0,0 +1,288 @@
+/**
+ * Device snapshot diffing
+ *
+ * Compares two snapshots from {@link getDeviceSnapshot} field by field and
+ * classifies every change (OS upgrade, app update, identity change, hardware
+ * change), optionally persisting the latest snapshot between launches through
+ * an app-provided storage adapter.
+ *
+ * @module react-native-nitro-device-info/snapshot-diff
+ */
+
+import {
+  getDeviceSnapshot,
+  type DeviceSnapshotOptions,
+  type PartialDeviceSnapshot,
+  type SnapshotCategory,
+  type SnapshotFieldPath,
+} from './snapshot';
+
+/**
+ * What kind of environment change a field change indicates
+ *
+ * - `osUpgrade`: OS version, security patch or build changed
+ * - `appUpdate`: the app was updated to a new version or build
+ * - `identityChange`: device identifiers changed or the app was reinstalled
+ * - `hardwareChange`: the snapshot comes from different hardware
+ * - `other`: any other field that is not ignored
+ */
+export type SnapshotChangeKind =
+  | 'osUpgrade'
+  | 'appUpdate'
+  | 'identityChange'
+  | 'hardwareChange'
+  | 'other';
+
+/**
+ * A single field whose value differs between two snapshots
+ */
+export interface SnapshotChange {
+  /** Field path, e.g. `'core.systemVersion'` */
+  path: SnapshotFieldPath;
+  kind: SnapshotChangeKind;
+  previous: unknown;
+  next: unknown;
+}
+
+/**
+ * Result of {@link diffDeviceSnapshots}
+ */
+export interface DeviceSnapshotDiff {
+  /** Every changed field, in snapshot order */
+  changes: SnapshotChange[];
+  /** Distinct kinds present in `changes` */
+  kinds: SnapshotChangeKind[];
+}
+
+/**
+ * Options for {@link diffDeviceSnapshots}
+ */
+export interface DiffDeviceSnapshotsOptions {
+  /**
+   * Categories or fields to leave out of the comparison.
+   * @default DEFAULT_DIFF_IGNORE
+   */
+  ignore?: ReadonlyArray<SnapshotCategory | SnapshotFieldPath>;
+}
+
+/**
+ * Fields that change continuously while the app runs. They are ignored by
+ * default because they say nothing about the environment.
+ */
+export const DEFAULT_DIFF_IGNORE: ReadonlyArray<
+  SnapshotCategory | SnapshotFieldPath
+> = [
+  'battery',
+  'memory.usedMemory',
+  'memory.freeDiskStorage',
+  'memory.uptime',
+  'memory.startupTime',
+  'display.brightness',
+  'display.isLandscape',
+  'network.ipAddress',
+  'network.isAirplaneMode',
+];
+
+const changeKinds: Partial<Record<SnapshotFieldPath, SnapshotChangeKind>> = {
+  'core.systemVersion': 'osUpgrade',
+  'androidBuild.apiLevel': 'osUpgrade',
+  'androidBuild.previewSdkInt': 'osUpgrade',
+  'androidBuild.securityPatch': 'osUpgrade',
+  'androidBuild.codename': 'osUpgrade',
+  'androidBuild.incremental': 'osUpgrade',
+  'androidBuild.baseOs': 'osUpgrade',
+  'androidBuild.buildId': 'osUpgrade',
+  'androidBuild.display': 'osUpgrade',
+  'androidBuild.fingerprint': 'osUpgrade',
+
+  'application.version': 'appUpdate',
+  'application.buildNumber': 'appUpdate',
+  'application.readableVersion': 'appUpdate',
+  'application.lastUpdateTimeSync': 'appUpdate',
+
+  'core.uniqueId': 'identityChange',
+  'androidBuild.androidId': 'identityChange',
+  'androidBuild.serialNumber': 'identityChange',
+  // A new install time means the app was reinstalled, which resets identifiers
+  'application.firstInstallTimeSync': 'identityChange',
+
+  'core.deviceId': 'hardwareChange',
+  'core.brand': 'hardwareChange',
+  'core.model': 'hardwareChange',
+  'core.manufacturer': 'hardwareChange',
+  'memory.totalMemory': 'hardwareChange',
+  'memory.totalDiskCapacity': 'hardwareChange',
+  'androidBuild.board': 'hardwareChange',
+  'androidBuild.device': 'hardwareChange',
+  'androidBuild.hardware': 'hardwareChange',
+  'androidBuild.product': 'hardwareChange',
+};
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => item === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Compare two device snapshots.
+ *
+ * Only fields present in both snapshots are compared, so snapshots taken with
+ * different filters can still be diffed.
+ *
+ * @param prev Earlier snapshot, e.g. restored from the previous launch
+ * @param next Later snapshot
+ * @param options Fields to ignore (defaults to {@link DEFAULT_DIFF_IGNORE})
+ * @returns Changed fields and the distinct kinds of change
+ *
+ * @example
+ * ```typescript
+ * const diff = diffDeviceSnapshots(previous, getDeviceSnapshot());
+ *
+ * if (diff.kinds.includes('identityChange')) {
+ *   fraud.report('device_identity_changed', diff.changes);
+ * }
+ * ```
+ */
+export function diffDeviceSnapshots(
+  prev: PartialDeviceSnapshot,
+  next: PartialDeviceSnapshot,
+  options: DiffDeviceSnapshotsOptions = {}
+): DeviceSnapshotDiff {
+  const { ignore = DEFAULT_DIFF_IGNORE } = options;
+  const changes: SnapshotChange[] = [];
+  const kinds = new Set<SnapshotChangeKind>();
+
+  for (const category of Object.keys(next) as SnapshotCategory[]) {
+    const prevFields = prev[category] as
+      | Record<string, { value: unknown } | undefined>
+      | undefined;
+    const nextFields = next[category] as
+      | Record<string, { value: unknown } | undefined>
+      | undefined;
+    // `capturedAt` is not a category
+    if (typeof nextFields !== 'object' || prevFields === undefined) {
+      continue;
+    }
+    if (ignore.includes(category)) {
+      continue;
+    }
+
+    for (const field of Object.keys(nextFields)) {
+      const path = `${category}.${field}` as SnapshotFieldPath;
+      const before = prevFields[field];
+      const after = nextFields[field];
+      if (before === undefined || after === undefined) {
+        continue;
+      }
+      if (ignore.includes(path) || isEqualValue(before.value, after.value)) {
+        continue;
+      }
+
+      const kind = changeKinds[path] ?? 'other';
+      kinds.add(kind);
+      changes.push({ path, kind, previous: before.value, next: after.value });
+    }
+  }
+
+  return { changes, kinds: Array.from(kinds) };
+}
+
+/**
+ * Minimal key-value storage used to keep the previous snapshot.
+ *
+ * `@react-native-async-storage/async-storage` satisfies it as-is; synchronous
+ * stores such as MMKV only need a two-line wrapper.
+ */
+export interface SnapshotStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+/**
+ * Options for {@link diffSinceLastLaunch}
+ */
+export interface DiffSinceLastLaunchOptions extends DiffDeviceSnapshotsOptions {
+  /**
+   * Storage key for the persisted snapshot.
+   * @default '@react-native-nitro-device-info/snapshot'
+   */
+  key?: string;
+
+  /**
+   * Filters for the snapshot taken on this launch. Whatever is excluded here
+   * is not persisted either.
+   */
+  snapshotOptions?: DeviceSnapshotOptions;
+}
+
+/**
+ * Result of {@link diffSinceLastLaunch}
+ */
+export interface LaunchSnapshotDiff {
+  /** Snapshot persisted by the previous launch, or `null` on first launch */
+  previous: PartialDeviceSnapshot | null;
+  /** Snapshot taken now (and persisted for the next launch) */
+  current: PartialDeviceSnapshot;
+  /** Changes since the previous launch, or `null` on first launch */
+  diff: DeviceSnapshotDiff | null;
+}
+
+const DEFAULT_STORAGE_KEY = '@react-native-nitro-device-info/snapshot';
+
+function parseSnapshot(raw: string | null): PartialDeviceSnapshot | null {
+  if (raw === null) {
+    return null;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as PartialDeviceSnapshot)
+      : null;
+  } catch {
+    // A corrupt entry is treated like a first launch and overwritten below
+    return null;
+  }
+}
+
+/**
+ * Answer "what changed since last launch?".
+ *
+ * Restores the previous snapshot from `storage`, takes a new one, persists it
+ * in place of the old one and returns both along with their diff.
+ *
+ * @param storage Key-value store that survives app restarts
+ * @param options Storage key, snapshot filters and fields to ignore
+ * @returns Previous and current snapshots and the diff between them
+ *
+ * @example
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ * import { diffSinceLastLaunch } from 'react-native-nitro-device-info';
+ *
+ * const { diff } = await diffSinceLastLaunch(AsyncStorage);
+ * if (diff?.kinds.includes('osUpgrade')) {
+ *   support.tag('os_upgraded');
+ * }
+ * ```
+ */
+export async function diffSinceLastLaunch(
+  storage: SnapshotStorage,
+  options: DiffSinceLastLaunchOptions = {}
+): Promise<LaunchSnapshotDiff> {
+  const { key = DEFAULT_STORAGE_KEY, snapshotOptions = {}, ignore } = options;
+
+  const previous = parseSnapshot(await storage.getItem(key));
+  const current = getDeviceSnapshot(snapshotOptions);
+  await storage.setItem(key, JSON.stringify(current));
+
+  return {
+    previous,
+    current,
+    diff:
+      previous === null
+        ? null
+        : diffDeviceSnapshots(previous, current, { ignore }),
+  };
+}
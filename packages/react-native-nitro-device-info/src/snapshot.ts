@@ -0,0 +1,364 @@
+/**
+ * Device snapshot
+ *
+ * Collects the synchronous device properties into a single JSON-serializable
+ * object, grouped by the categories of the `DeviceInfo` spec. Each field keeps
+ * its raw value along with a flag telling whether that value is a platform
+ * placeholder (`'unknown'` or `-1`) rather than real data.
+ *
+ * @module react-native-nitro-device-info/snapshot
+ */
+
+import { DeviceInfoModule } from './index';
+import type {
+  BatteryState,
+  DeviceType,
+  NavigationMode,
+} from './DeviceInfo.nitro';
+
+/**
+ * Raw values collected for each snapshot category
+ */
+export interface DeviceSnapshotValues {
+  core: {
+    deviceId: string;
+    brand: string;
+    model: string;
+    systemName: string;
+    systemVersion: string;
+    deviceType: DeviceType;
+    uniqueId: string;
+    manufacturer: string;
+    deviceName: string;
+    isTablet: boolean;
+    isEmulator: boolean;
+    deviceYearClass: number;
+    isCameraPresent: boolean;
+    isPinOrFingerprintSet: boolean;
+    isHardwareKeyStoreAvailable: boolean;
+    isLowRamDevice: boolean;
+    systemLanguage: string;
+    supportedAbis: string[];
+    supported32BitAbis: string[];
+    supported64BitAbis: string[];
+  };
+  display: {
+    hasNotch: boolean;
+    hasDynamicIsland: boolean;
+    isDisplayZoomed: boolean;
+    isLandscape: boolean;
+    brightness: number;
+    fontScale: number;
+    isLiquidGlassAvailable: boolean;
+  };
+  memory: {
+    totalMemory: number;
+    usedMemory: number;
+    maxMemory: number;
+    totalDiskCapacity: number;
+    freeDiskStorage: number;
+    uptime: number;
+    startupTime: number;
+  };
+  battery: {
+    batteryLevel: number;
+    batteryState: BatteryState;
+    lowPowerMode: boolean;
+    isBatteryCharging: boolean;
+  };
+  application: {
+    version: string;
+    buildNumber: string;
+    bundleId: string;
+    applicationName: string;
+    readableVersion: string;
+    firstInstallTimeSync: number;
+    lastUpdateTimeSync: number;
+    installerPackageName: string;
+  };
+  network: {
+    ipAddress: string;
+    macAddress: string;
+    isAirplaneMode: boolean;
+  };
+  carrier: {
+    carrier: string;
+    carrierAllowsVOIP: boolean;
+    carrierIsoCountryCode: string;
+    mobileCountryCode: string;
+    mobileNetworkCode: string;
+    mobileNetworkOperator: string;
+  };
+  androidBuild: {
+    apiLevel: number;
+    navigationMode: NavigationMode;
+    hasGms: boolean;
+    hasHms: boolean;
+    serialNumber: string;
+    androidId: string;
+    previewSdkInt: number;
+    securityPatch: string;
+    codename: string;
+    incremental: string;
+    board: string;
+    bootloader: string;
+    device: string;
+    display: string;
+    fingerprint: string;
+    hardware: string;
+    host: string;
+    product: string;
+    tags: string;
+    type: string;
+    baseOs: string;
+    radioVersion: string;
+    buildId: string;
+  };
+}
+
+/**
+ * Snapshot category name
+ */
+export type SnapshotCategory = keyof DeviceSnapshotValues;
+
+/**
+ * Dotted path to a single field, e.g. `'core.uniqueId'`
+ */
+export type SnapshotFieldPath = {
+  [C in SnapshotCategory]: `${C}.${keyof DeviceSnapshotValues[C] & string}`;
+}[SnapshotCategory];
+
+/**
+ * A snapshot value together with its placeholder flag
+ */
+export interface SnapshotField<T> {
+  /** Value exactly as returned by the native module */
+  value: T;
+  /**
+   * `true` when `value` is the platform's "not available" sentinel
+   * (`'unknown'` or `-1`) rather than real data
+   */
+  isPlaceholder: boolean;
+}
+
+/**
+ * Every field of one category, wrapped in {@link SnapshotField}
+ */
+export type SnapshotCategoryFields<C extends SnapshotCategory> = {
+  [K in keyof DeviceSnapshotValues[C]]: SnapshotField<
+    DeviceSnapshotValues[C][K]
+  >;
+};
+
+/**
+ * Complete device snapshot
+ */
+export type DeviceSnapshot = {
+  /** Capture time in milliseconds since the Unix epoch */
+  capturedAt: number;
+} & { [C in SnapshotCategory]: SnapshotCategoryFields<C> };
+
+/**
+ * Snapshot taken with include/exclude filters: categories and fields that were
+ * filtered out are absent
+ */
+export type PartialDeviceSnapshot = {
+  capturedAt: number;
+} & { [C in SnapshotCategory]?: Partial<SnapshotCategoryFields<C>> };
+
+/**
+ * Options for {@link getDeviceSnapshot}
+ */
+export interface DeviceSnapshotOptions {
+  /**
+   * Categories or fields to collect. When omitted, everything is collected.
+   */
+  include?: ReadonlyArray<SnapshotCategory | SnapshotFieldPath>;
+
+  /**
+   * Categories or fields to skip. Applied after `include`.
+   */
+  exclude?: ReadonlyArray<SnapshotCategory | SnapshotFieldPath>;
+}
+
+type SnapshotReaders = {
+  [C in SnapshotCategory]: {
+    [K in keyof DeviceSnapshotValues[C]]: () => DeviceSnapshotValues[C][K];
+  };
+};
+
+/**
+ * How each field is read. Filtered-out fields are never read, so excluding a
+ * category also skips its native calls.
+ */
+const readers: SnapshotReaders = {
+  core: {
+    deviceId: () => DeviceInfoModule.deviceId,
+    brand: () => DeviceInfoModule.brand,
+    model: () => DeviceInfoModule.model,
+    systemName: () => DeviceInfoModule.systemName,
+    systemVersion: () => DeviceInfoModule.systemVersion,
+    deviceType: () => DeviceInfoModule.deviceType,
+    uniqueId: () => DeviceInfoModule.uniqueId,
+    manufacturer: () => DeviceInfoModule.manufacturer,
+    deviceName: () => DeviceInfoModule.deviceName,
+    isTablet: () => DeviceInfoModule.isTablet,
+    isEmulator: () => DeviceInfoModule.isEmulator,
+    deviceYearClass: () => DeviceInfoModule.deviceYearClass,
+    isCameraPresent: () => DeviceInfoModule.isCameraPresent,
+    isPinOrFingerprintSet: () => DeviceInfoModule.isPinOrFingerprintSet,
+    isHardwareKeyStoreAvailable: () =>
+      DeviceInfoModule.isHardwareKeyStoreAvailable,
+    isLowRamDevice: () => DeviceInfoModule.isLowRamDevice,
+    systemLanguage: () => DeviceInfoModule.systemLanguage,
+    supportedAbis: () => DeviceInfoModule.supportedAbis,
+    supported32BitAbis: () => DeviceInfoModule.supported32BitAbis,
+    supported64BitAbis: () => DeviceInfoModule.supported64BitAbis,
+  },
+  display: {
+    hasNotch: () => DeviceInfoModule.getHasNotch(),
+    hasDynamicIsland: () => DeviceInfoModule.getHasDynamicIsland(),
+    isDisplayZoomed: () => DeviceInfoModule.isDisplayZoomed,
+    isLandscape: () => DeviceInfoModule.getIsLandscape(),
+    brightness: () => DeviceInfoModule.getBrightness(),
+    fontScale: () => DeviceInfoModule.getFontScale(),
+    isLiquidGlassAvailable: () => DeviceInfoModule.isLiquidGlassAvailable,
+  },
+  memory: {
+    totalMemory: () => DeviceInfoModule.totalMemory,
+    usedMemory: () => DeviceInfoModule.getUsedMemory(),
+    maxMemory: () => DeviceInfoModule.maxMemory,
+    totalDiskCapacity: () => DeviceInfoModule.totalDiskCapacity,
+    freeDiskStorage: () => DeviceInfoModule.getFreeDiskStorage(),
+    uptime: () => DeviceInfoModule.getUptime(),
+    startupTime: () => DeviceInfoModule.startupTime,
+  },
+  battery: {
+    batteryLevel: () => DeviceInfoModule.getBatteryLevel(),
+    batteryState: () => DeviceInfoModule.getPowerState().batteryState,
+    lowPowerMode: () => DeviceInfoModule.getPowerState().lowPowerMode,
+    isBatteryCharging: () => DeviceInfoModule.getIsBatteryCharging(),
+  },
+  application: {
+    version: () => DeviceInfoModule.version,
+    buildNumber: () => DeviceInfoModule.buildNumber,
+    bundleId: () => DeviceInfoModule.bundleId,
+    applicationName: () => DeviceInfoModule.applicationName,
+    readableVersion: () => DeviceInfoModule.readableVersion,
+    firstInstallTimeSync: () => DeviceInfoModule.firstInstallTimeSync,
+    lastUpdateTimeSync: () => DeviceInfoModule.lastUpdateTimeSync,
+    installerPackageName: () => DeviceInfoModule.installerPackageName,
+  },
+  network: {
+    ipAddress: () => DeviceInfoModule.getIpAddressSync(),
+    macAddress: () => DeviceInfoModule.getMacAddressSync(),
+    isAirplaneMode: () => DeviceInfoModule.getIsAirplaneMode(),
+  },
+  carrier: {
+    carrier: () => DeviceInfoModule.getCarrierSync(),
+    carrierAllowsVOIP: () => DeviceInfoModule.carrierAllowsVOIP,
+    carrierIsoCountryCode: () => DeviceInfoModule.carrierIsoCountryCode,
+    mobileCountryCode: () => DeviceInfoModule.mobileCountryCode,
+    mobileNetworkCode: () => DeviceInfoModule.mobileNetworkCode,
+    mobileNetworkOperator: () => DeviceInfoModule.mobileNetworkOperator,
+  },
+  androidBuild: {
+    apiLevel: () => DeviceInfoModule.apiLevel,
+    navigationMode: () => DeviceInfoModule.navigationMode,
+    hasGms: () => DeviceInfoModule.getHasGms(),
+    hasHms: () => DeviceInfoModule.getHasHms(),
+    serialNumber: () => DeviceInfoModule.serialNumber,
+    androidId: () => DeviceInfoModule.androidId,
+    previewSdkInt: () => DeviceInfoModule.previewSdkInt,
+    securityPatch: () => DeviceInfoModule.securityPatch,
+    codename: () => DeviceInfoModule.codename,
+    incremental: () => DeviceInfoModule.incremental,
+    board: () => DeviceInfoModule.board,
+    bootloader: () => DeviceInfoModule.bootloader,
+    device: () => DeviceInfoModule.device,
+    display: () => DeviceInfoModule.display,
+    fingerprint: () => DeviceInfoModule.fingerprint,
+    hardware: () => DeviceInfoModule.hardware,
+    host: () => DeviceInfoModule.host,
+    product: () => DeviceInfoModule.product,
+    tags: () => DeviceInfoModule.tags,
+    type: () => DeviceInfoModule.type,
+    baseOs: () => DeviceInfoModule.baseOs,
+    radioVersion: () => DeviceInfoModule.radioVersion,
+    buildId: () => DeviceInfoModule.buildId,
+  },
+};
+
+/**
+ * Whether a raw value is one of the spec's "not available" sentinels
+ */
+export function isPlaceholderValue(value: unknown): boolean {
+  return value === 'unknown' || value === -1;
+}
+
+function matches(
+  filter: ReadonlyArray<string>,
+  category: string,
+  field: string
+): boolean {
+  return filter.includes(category) || filter.includes(`${category}.${field}`);
+}
+
+/**
+ * Collect the synchronous device properties in one call.
+ *
+ * Values are read on the spot, so dynamic fields (memory, battery, display)
+ * reflect the moment of capture. The result contains only plain data and can
+ * be passed to `JSON.stringify` as-is.
+ *
+ * @param options Optional include/exclude filters by category or field path
+ * @returns Snapshot grouped by category; every field carries `value` and `isPlaceholder`
+ *
+ * @example
+ * ```typescript
+ * import { getDeviceSnapshot } from 'react-native-nitro-device-info';
+ *
+ * const snapshot = getDeviceSnapshot();
+ * console.log(snapshot.core.model.value); // "iPhone 13 Pro"
+ * console.log(snapshot.androidBuild.serialNumber.isPlaceholder); // true on iOS
+ *
+ * // Only what the session log needs, without the device identifier
+ * const profile = getDeviceSnapshot({
+ *   include: ['core', 'application'],
+ *   exclude: ['core.uniqueId'],
+ * });
+ * analytics.log('session_start', profile);
+ * ```
+ */
+export function getDeviceSnapshot(): DeviceSnapshot;
+export function getDeviceSnapshot(
+  options: DeviceSnapshotOptions
+): PartialDeviceSnapshot;
+export function getDeviceSnapshot(
+  options: DeviceSnapshotOptions = {}
+): PartialDeviceSnapshot {
+  const { include, exclude = [] } = options;
+  const snapshot: Record<string, unknown> = { capturedAt: Date.now() };
+
+  for (const category of Object.keys(readers) as SnapshotCategory[]) {
+    const categoryReaders: Record<string, () => unknown> = readers[category];
+    const fields: Record<string, SnapshotField<unknown>> = {};
+
+    for (const field of Object.keys(categoryReaders)) {
+      if (include !== undefined && !matches(include, category, field)) {
+        continue;
+      }
+      if (matches(exclude, category, field)) {
+        continue;
+      }
+      const value = categoryReaders[field]!();
+      fields[field] = { value, isPlaceholder: isPlaceholderValue(value) };
+    }
+
+    if (Object.keys(fields).length > 0) {
+      snapshot[category] = fields;
+    }
+  }
+
+  return snapshot as PartialDeviceSnapshot;
+}
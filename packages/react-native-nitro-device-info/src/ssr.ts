@@ -0,0 +1,172 @@
+/**
+ * Server-side device snapshot
+ *
+ * Derives what the request headers reveal about the device (User-Agent,
+ * `Sec-CH-UA-*` Client Hints, `Accept-Language`) as a partial device snapshot.
+ * Pass it to `DeviceInfoProvider` so the hooks render the same values on the
+ * server and during hydration.
+ *
+ * Nothing here touches `DeviceInfoModule`, so it runs in any server runtime.
+ *
+ * @module react-native-nitro-device-info/ssr
+ */
+
+import {
+  abisFromHints,
+  brandFromSystemName,
+  deviceTypeFromHints,
+  hint,
+  systemNameFromUserAgent,
+  type ClientHints,
+} from './clientHints';
+import {
+  isPlaceholderValue,
+  type PartialDeviceSnapshot,
+  type SnapshotCategoryFields,
+  type SnapshotField,
+} from './snapshot';
+
+/**
+ * Request headers as exposed by the Fetch API (`Request.headers`, Next.js
+ * `headers()`) or by Node (`IncomingMessage.headers`, lower-cased keys)
+ */
+export type RequestHeaders =
+  | { get(name: string): string | null }
+  | Readonly<Record<string, string | readonly string[] | undefined>>;
+
+/**
+ * High-entropy Client Hints the server snapshot reads. Browsers only send them
+ * after the server asks, so list them in the `Accept-CH` response header:
+ *
+ * @example
+ * ```typescript
+ * response.setHeader('Accept-CH', CLIENT_HINT_HEADERS.join(', '));
+ * ```
+ */
+export const CLIENT_HINT_HEADERS = [
+  'Sec-CH-UA-Arch',
+  'Sec-CH-UA-Bitness',
+  'Sec-CH-UA-Model',
+  'Sec-CH-UA-Platform-Version',
+  'Sec-CH-UA-Form-Factors',
+] as const;
+
+function readHeader(headers: RequestHeaders, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | readonly string[]>)[
+    name.toLowerCase()
+  ];
+  return typeof value === 'string' ? value : value?.join(', ');
+}
+
+/** Every quoted string in a structured header, unescaped */
+function quotedStrings(value: string): string[] {
+  return Array.from(value.matchAll(/"((?:[^"\\]|\\.)*)"/g), match =>
+    match[1]!.replace(/\\(.)/g, '$1')
+  );
+}
+
+/** A structured-header string item (`"Android"`) */
+function parseString(value: string | undefined): string | undefined {
+  return value === undefined ? undefined : quotedStrings(value)[0];
+}
+
+/** A structured-header boolean item (`?1` / `?0`) */
+function parseBoolean(value: string | undefined): boolean | undefined {
+  const trimmed = value?.trim();
+  return trimmed === '?1' ? true : trimmed === '?0' ? false : undefined;
+}
+
+/** The most preferred language tag of `Accept-Language` */
+function parseLanguage(value: string | undefined): string | undefined {
+  const tag = value?.split(',')[0]?.split(';')[0]?.trim();
+  return tag !== undefined && tag !== '' && tag !== '*' ? tag : undefined;
+}
+
+function field<T>(value: T): SnapshotField<T> {
+  return { value, isPlaceholder: isPlaceholderValue(value) };
+}
+
+/**
+ * Derive a partial device snapshot from request headers.
+ *
+ * Only `core` fields the headers actually determine are included: without
+ * Client Hints that is usually `systemName` and `systemLanguage`. High-entropy
+ * hints (model, OS version, architecture) arrive only when the response asked
+ * for them with {@link CLIENT_HINT_HEADERS}. Values are derived exactly as the
+ * web fallback derives them from `navigator`, so they match the client.
+ *
+ * @param headers Incoming request headers
+ * @returns Snapshot with a `core` category, or only `capturedAt` when the headers reveal nothing
+ *
+ * @example
+ * ```typescript
+ * // pages/index.tsx (Next.js)
+ * import {
+ *   CLIENT_HINT_HEADERS,
+ *   getServerDeviceSnapshot,
+ * } from 'react-native-nitro-device-info';
+ *
+ * export function getServerSideProps({ req, res }: GetServerSidePropsContext) {
+ *   res.setHeader('Accept-CH', CLIENT_HINT_HEADERS.join(', '));
+ *   return { props: { deviceSnapshot: getServerDeviceSnapshot(req.headers) } };
+ * }
+ * ```
+ */
+export function getServerDeviceSnapshot(
+  headers: RequestHeaders
+): PartialDeviceSnapshot {
+  const header = (name: string) => readHeader(headers, name);
+  const hints: ClientHints = {
+    mobile: parseBoolean(header('Sec-CH-UA-Mobile')),
+    platform: parseString(header('Sec-CH-UA-Platform')),
+    architecture: parseString(header('Sec-CH-UA-Arch')),
+    bitness: parseString(header('Sec-CH-UA-Bitness')),
+    model: parseString(header('Sec-CH-UA-Model')),
+    platformVersion: parseString(header('Sec-CH-UA-Platform-Version')),
+    formFactors: (() => {
+      const value = header('Sec-CH-UA-Form-Factors');
+      return value !== undefined ? quotedStrings(value) : undefined;
+    })(),
+  };
+  const userAgent = header('User-Agent');
+
+  const core: Partial<SnapshotCategoryFields<'core'>> = {};
+
+  const model = hint(hints.model);
+  if (model !== undefined) core.model = field(model);
+
+  const systemName =
+    hint(hints.platform) ??
+    (userAgent !== undefined ? systemNameFromUserAgent(userAgent) : undefined);
+  if (systemName !== undefined) {
+    core.systemName = field(systemName);
+    const brand = brandFromSystemName(systemName);
+    if (brand !== undefined) core.brand = field(brand);
+  }
+
+  const systemVersion = hint(hints.platformVersion);
+  if (systemVersion !== undefined) core.systemVersion = field(systemVersion);
+
+  const deviceType = deviceTypeFromHints(hints);
+  if (deviceType !== 'unknown') {
+    core.deviceType = field(deviceType);
+    core.isTablet = field(deviceType === 'Tablet');
+  }
+
+  const systemLanguage = parseLanguage(header('Accept-Language'));
+  if (systemLanguage !== undefined) core.systemLanguage = field(systemLanguage);
+
+  const abis = abisFromHints(hints);
+  if (abis.length > 0) {
+    core.supportedAbis = field(abis);
+    core.supported32BitAbis = field(hints.bitness === '32' ? abis : []);
+    core.supported64BitAbis = field(hints.bitness === '64' ? abis : []);
+  }
+
+  return Object.keys(core).length > 0
+    ? { capturedAt: Date.now(), core }
+    : { capturedAt: Date.now() };
+}
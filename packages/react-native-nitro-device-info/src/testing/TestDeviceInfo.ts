@@ -0,0 +1,271 @@
+/**
+ * In-memory `DeviceInfo` implementation for tests
+ *
+ * Every value is read from a plain {@link TestDeviceValues} object that tests
+ * can replace or patch. Setters that change an observed value notify the
+ * matching event channel, so `subscribe()` and the hooks update exactly as
+ * they do on a device.
+ *
+ * @module react-native-nitro-device-info/testing
+ */
+
+import type {
+  DeviceEventChannel,
+  DeviceInfo,
+  PowerState,
+} from '../DeviceInfo.nitro';
+import type { HeadphoneState } from '../events';
+import { TEST_DEVICE_PRESETS, type TestDevicePreset } from './presets';
+import type { DeviceInfoKey, DeviceInfoKeyValue } from '../hooks/useDeviceInfo';
+
+/** Getters computed from other values instead of stored */
+type DerivedKey =
+  | 'getBatteryLevel'
+  | 'getIsBatteryCharging'
+  | 'getIsHeadphonesConnected';
+
+/** Readonly spec properties, exposed as live getters over the stored values */
+type StoredProperty = {
+  [K in DeviceInfoKey]: DeviceInfo[K] extends (...args: never[]) => unknown
+    ? never
+    : K;
+}[DeviceInfoKey];
+
+/** Values only reachable through async methods */
+const ASYNC_ONLY_VALUES = ['installReferrer', 'deviceToken'];
+
+/**
+ * Everything a test device reports: each readonly property and argument-less
+ * sync getter of the spec under its own name, plus the values only exposed
+ * through async methods. Getters that combine other values
+ * (`getBatteryLevel`, `getIsBatteryCharging`, `getIsHeadphonesConnected`)
+ * are derived and cannot be set.
+ */
+export type TestDeviceValues = {
+  [K in Exclude<DeviceInfoKey, DerivedKey>]: DeviceInfoKeyValue<K>;
+} & {
+  /** Resolved by `getInstallReferrer()` */
+  installReferrer: string;
+  /** Resolved by `getDeviceToken()`; `null` rejects, as on Android */
+  deviceToken: string | null;
+};
+
+/**
+ * A `DeviceInfo` backed by {@link TestDeviceValues}, with setters that
+ * simulate device state changes
+ */
+export interface TestDeviceInfo extends DeviceInfo {
+  /** Current values; replace them through the setters */
+  readonly values: Readonly<TestDeviceValues>;
+  /** Replace every value with a preset or a full value set and notify all channels */
+  setValues(
+    values: TestDevicePreset | TestDeviceValues,
+    overrides?: Partial<TestDeviceValues>
+  ): void;
+  /** Patch some values and notify the channels they belong to */
+  patchValues(values: Partial<TestDeviceValues>): void;
+  /** Patch the power state (`battery` channel) */
+  setPowerState(powerState: Partial<PowerState>): void;
+  /** Set the battery level, 0.0-1.0 (`battery` channel) */
+  setBatteryLevel(level: number): void;
+  /** Plug or unplug headphones (`headphones` channel) */
+  setHeadphones(headphones: Partial<HeadphoneState>): void;
+  /** Toggle airplane mode (`network` channel) */
+  setAirplaneMode(enabled: boolean): void;
+  /** Set the screen brightness, 0.0-1.0 (`brightness` channel) */
+  setBrightness(brightness: number): void;
+}
+
+const CHANNEL_VALUES: {
+  [C in DeviceEventChannel]: ReadonlyArray<keyof TestDeviceValues>;
+} = {
+  battery: ['getPowerState'],
+  brightness: ['getBrightness'],
+  headphones: [
+    'getIsWiredHeadphonesConnected',
+    'getIsBluetoothHeadphonesConnected',
+  ],
+  network: ['getIsAirplaneMode'],
+};
+
+function resolveValues(
+  values: TestDevicePreset | TestDeviceValues,
+  overrides: Partial<TestDeviceValues>
+): TestDeviceValues {
+  const base =
+    typeof values === 'string' ? TEST_DEVICE_PRESETS[values] : values;
+  return { ...base, ...overrides };
+}
+
+/**
+ * Create an in-memory `DeviceInfo` for tests.
+ *
+ * @param values Preset name or a full value set
+ * @param overrides Values to change from the preset
+ * @returns A fresh device; instances share no state
+ *
+ * @example
+ * ```typescript
+ * import { createTestDeviceInfo } from 'react-native-nitro-device-info/testing';
+ *
+ * const device = createTestDeviceInfo('pixel8', { systemLanguage: 'de-DE' });
+ *
+ * device.setBatteryLevel(0.05);
+ * device.setHeadphones({ wired: true });
+ * device.setAirplaneMode(true);
+ * ```
+ */
+export function createTestDeviceInfo(
+  values: TestDevicePreset | TestDeviceValues = 'iphone15Pro',
+  overrides: Partial<TestDeviceValues> = {}
+): TestDeviceInfo {
+  let state = resolveValues(values, overrides);
+  const listeners = new Map<
+    number,
+    { channel: DeviceEventChannel; onChange: () => void }
+  >();
+  let nextListenerId = 0;
+
+  const emit = (channels: readonly DeviceEventChannel[]) => {
+    for (const listener of Array.from(listeners.values())) {
+      if (channels.includes(listener.channel)) {
+        listener.onChange();
+      }
+    }
+  };
+
+  const patch = (values: Partial<TestDeviceValues>) => {
+    state = { ...state, ...values };
+    emit(
+      (Object.keys(CHANNEL_VALUES) as DeviceEventChannel[]).filter(channel =>
+        CHANNEL_VALUES[channel].some(key => key in values)
+      )
+    );
+  };
+
+  const asyncValue = <T>(read: () => T) =>
+    new Promise<T>(resolve => resolve(read()));
+
+  const members: Omit<TestDeviceInfo, StoredProperty> = {
+    // ---- HybridObject base members ----
+    name: 'DeviceInfo',
+    toString: () => '[HybridObject DeviceInfo]',
+    equals: (other: unknown) => other === device,
+    dispose: () => {
+      listeners.clear();
+    },
+
+    // ---- Sync getters ----
+    getHasNotch: () => state.getHasNotch,
+    getHasDynamicIsland: () => state.getHasDynamicIsland,
+    getIsLandscape: () => state.getIsLandscape,
+    getBrightness: () => state.getBrightness,
+    getFontScale: () => state.getFontScale,
+    getUsedMemory: () => state.getUsedMemory,
+    getFreeDiskStorage: () => state.getFreeDiskStorage,
+    getFreeDiskStorageOld: () => state.getFreeDiskStorageOld,
+    getUptime: () => state.getUptime,
+    getBatteryLevel: () => state.getPowerState.batteryLevel,
+    getPowerState: () => ({ ...state.getPowerState }),
+    getIsBatteryCharging: () =>
+      state.getPowerState.batteryState === 'charging' ||
+      state.getPowerState.batteryState === 'full',
+    isLowBatteryLevel: (threshold: number) => {
+      const level = state.getPowerState.batteryLevel;
+      return level >= 0 && level < threshold;
+    },
+    getIpAddressSync: () => state.getIpAddressSync,
+    getMacAddressSync: () => state.getMacAddressSync,
+    getIsAirplaneMode: () => state.getIsAirplaneMode,
+    getCarrierSync: () => state.getCarrierSync,
+    getIsHeadphonesConnected: () =>
+      state.getIsWiredHeadphonesConnected ||
+      state.getIsBluetoothHeadphonesConnected,
+    getIsWiredHeadphonesConnected: () => state.getIsWiredHeadphonesConnected,
+    getIsBluetoothHeadphonesConnected: () =>
+      state.getIsBluetoothHeadphonesConnected,
+    getIsLocationEnabled: () => state.getIsLocationEnabled,
+    getAvailableLocationProviders: () => [
+      ...state.getAvailableLocationProviders,
+    ],
+    getHasGms: () => state.getHasGms,
+    getHasHms: () => state.getHasHms,
+    hasSystemFeature: (feature: string) =>
+      state.systemAvailableFeatures.includes(feature),
+    isSideLoadingEnabled: () => state.isSideLoadingEnabled,
+    isDeviceCompromised: () => state.isDeviceCompromised,
+
+    // ---- Async methods, resolving the matching sync value ----
+    getFirstInstallTime: () => asyncValue(() => state.firstInstallTimeSync),
+    getLastUpdateTime: () => asyncValue(() => state.lastUpdateTimeSync),
+    getFreeDiskStorageFor: () => asyncValue(() => state.getFreeDiskStorage),
+    getIpAddress: () => asyncValue(() => state.getIpAddressSync),
+    getMacAddress: () => asyncValue(() => state.getMacAddressSync),
+    getUserAgent: () => asyncValue(() => state.userAgent || 'unknown'),
+    getCarrier: () => asyncValue(() => state.getCarrierSync),
+    isHeadphonesConnected: () =>
+      asyncValue(() => members.getIsHeadphonesConnected()),
+    isLocationEnabled: () => asyncValue(() => state.getIsLocationEnabled),
+    getDeviceToken: () =>
+      asyncValue(() => {
+        if (state.deviceToken === null) {
+          throw new Error('getDeviceToken is not available on this device');
+        }
+        return state.deviceToken;
+      }),
+    syncUniqueId: () => asyncValue(() => state.uniqueId),
+    getInstallReferrer: () => asyncValue(() => state.installReferrer),
+    verifyDeviceIntegrity: () => asyncValue(() => state.isDeviceCompromised),
+
+    // ---- State change events ----
+    addListener: (channel: DeviceEventChannel, onChange: () => void) => {
+      const listenerId = nextListenerId++;
+      listeners.set(listenerId, { channel, onChange });
+      return listenerId;
+    },
+    removeListener: (listenerId: number) => {
+      listeners.delete(listenerId);
+    },
+
+    // ---- Test controls ----
+    get values(): Readonly<TestDeviceValues> {
+      return state;
+    },
+    setValues: (next, nextOverrides = {}) => {
+      state = resolveValues(next, nextOverrides);
+      emit(Object.keys(CHANNEL_VALUES) as DeviceEventChannel[]);
+    },
+    patchValues: patch,
+    setPowerState: (powerState: Partial<PowerState>) =>
+      patch({ getPowerState: { ...state.getPowerState, ...powerState } }),
+    setBatteryLevel: (batteryLevel: number) =>
+      patch({ getPowerState: { ...state.getPowerState, batteryLevel } }),
+    setHeadphones: ({ wired, bluetooth }: Partial<HeadphoneState>) =>
+      patch({
+        getIsWiredHeadphonesConnected:
+          wired ?? state.getIsWiredHeadphonesConnected,
+        getIsBluetoothHeadphonesConnected:
+          bluetooth ?? state.getIsBluetoothHeadphonesConnected,
+      }),
+    setAirplaneMode: (enabled: boolean) =>
+      patch({ getIsAirplaneMode: enabled }),
+    setBrightness: (brightness: number) => patch({ getBrightness: brightness }),
+  };
+
+  // Every remaining value is a readonly spec property stored under its own
+  // name; expose each as a live getter
+  const device = members as TestDeviceInfo;
+  for (const key of Object.keys(state)) {
+    if (!(key in members) && !ASYNC_ONLY_VALUES.includes(key)) {
+      Object.defineProperty(device, key, {
+        // Arrays are copied, like every native read returns a fresh one
+        get: () => {
+          const value = state[key as keyof TestDeviceValues];
+          return Array.isArray(value) ? [...value] : value;
+        },
+        enumerable: true,
+      });
+    }
+  }
+  return device;
+}
@@ -0,0 +1,37 @@
+/**
+ * Test doubles for `react-native-nitro-device-info`
+ *
+ * An in-memory `DeviceInfo` implementation with device presets and setters
+ * for simulated state changes. It has no native or React Native dependency,
+ * so it runs in plain Node test environments.
+ *
+ * With the `react-native-nitro-device-info/jest` setup the installed device
+ * is swapped per test through `mockDeviceInfo()`; without it, return a device
+ * from your own mock of `NitroModules.createHybridObject`.
+ * `DeviceInfoModule`, `subscribe()` and the hooks all read from it:
+ *
+ * @example
+ * ```typescript
+ * import { mockDeviceInfo } from 'react-native-nitro-device-info/testing';
+ *
+ * it('warns when the battery runs low', () => {
+ *   const device = mockDeviceInfo('lowEndAndroidGo');
+ *   render(<BatteryBanner />);
+ *   act(() => device.setBatteryLevel(0.05));
+ *   expect(screen.getByText('Battery low')).toBeTruthy();
+ * });
+ * ```
+ *
+ * @module react-native-nitro-device-info/testing
+ */
+
+export { createTestDeviceInfo } from './TestDeviceInfo';
+export type { TestDeviceInfo, TestDeviceValues } from './TestDeviceInfo';
+export { TEST_DEVICE_PRESETS } from './presets';
+export type { TestDevicePreset } from './presets';
+export {
+  DEFAULT_TEST_DEVICE_PRESET,
+  getMockDeviceInfo,
+  mockDeviceInfo,
+  resetMockDeviceInfo,
+} from './mock';
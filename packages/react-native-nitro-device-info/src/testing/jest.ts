@@ -0,0 +1,57 @@
+/**
+ * Jest setup for `react-native-nitro-device-info`
+ *
+ * Add to `setupFilesAfterEnv`. `NitroModules.createHybridObject('DeviceInfo')`
+ * then returns the test device from `getMockDeviceInfo()` instead of crashing
+ * without a native runtime, and after every test the device goes back to its
+ * default preset and cached Suspense resources are dropped.
+ *
+ * Loading `react-native-nitro-device-integrity/jest` as well is supported:
+ * both setups register their doubles in the same registry.
+ *
+ * @example
+ * ```javascript
+ * // jest.config.js
+ * module.exports = {
+ *   preset: 'react-native',
+ *   setupFilesAfterEnv: ['react-native-nitro-device-info/jest'],
+ *   // The package ships ES modules; let Jest transform them
+ *   transformIgnorePatterns: [
+ *     'node_modules/(?!((jest-)?react-native|@react-native(-community)?|react-native-nitro-device-(info|integrity))/)',
+ *   ],
+ * };
+ * ```
+ *
+ * @module react-native-nitro-device-info/jest
+ */
+
+import { invalidateDeviceInfo } from '../hooks/resources';
+import { getMockDeviceInfo, resetMockDeviceInfo } from './mock';
+
+jest.mock('react-native-nitro-modules', () => {
+  const doubles = () =>
+    ((
+      globalThis as { __NITRO_TEST_DOUBLES__?: Record<string, object> }
+    ).__NITRO_TEST_DOUBLES__ ??= {});
+  return {
+    NitroModules: {
+      createHybridObject: (name: string) => {
+        const double = doubles()[name];
+        if (double === undefined) {
+          throw new Error(
+            `No test double for the "${name}" HybridObject. Load its package's jest setup or register one on globalThis.__NITRO_TEST_DOUBLES__.`
+          );
+        }
+        return double;
+      },
+      hasHybridObject: (name: string) => name in doubles(),
+    },
+  };
+});
+
+getMockDeviceInfo();
+
+afterEach(() => {
+  resetMockDeviceInfo();
+  invalidateDeviceInfo();
+});
@@ -0,0 +1,78 @@
+/**
+ * The test device installed by the jest setup
+ *
+ * `react-native-nitro-device-info/jest` makes `NitroModules.createHybridObject`
+ * return test doubles from a registry on `globalThis`, so every copy of this
+ * package in the jest module registry (including after `jest.resetModules()`)
+ * reads the same device. These helpers change that device for one test; the
+ * setup resets it after each test.
+ *
+ * @module react-native-nitro-device-info/testing
+ */
+
+import {
+  createTestDeviceInfo,
+  type TestDeviceInfo,
+  type TestDeviceValues,
+} from './TestDeviceInfo';
+import type { TestDevicePreset } from './presets';
+
+/**
+ * Preset the installed device starts from and is reset to
+ */
+export const DEFAULT_TEST_DEVICE_PRESET: TestDevicePreset = 'iphone15Pro';
+
+function nitroTestDoubles(): Record<string, object> {
+  const scope = globalThis as {
+    __NITRO_TEST_DOUBLES__?: Record<string, object>;
+  };
+  return (scope.__NITRO_TEST_DOUBLES__ ??= {});
+}
+
+/**
+ * The device `DeviceInfoModule` reads under the jest setup.
+ *
+ * @returns The installed test device, created on first use
+ */
+export function getMockDeviceInfo(): TestDeviceInfo {
+  const doubles = nitroTestDoubles();
+  return (doubles.DeviceInfo ??= createTestDeviceInfo(
+    DEFAULT_TEST_DEVICE_PRESET
+  )) as TestDeviceInfo;
+}
+
+/**
+ * Switch the installed device to a preset or value set for the current test.
+ * Subscribers are notified, so mounted hooks update.
+ *
+ * @param values Preset name or a full value set
+ * @param overrides Values to change from the preset
+ * @returns The installed device, for simulating changes
+ *
+ * @example
+ * ```typescript
+ * import { mockDeviceInfo } from 'react-native-nitro-device-info/testing';
+ *
+ * it('hides haptics settings on tablets', () => {
+ *   mockDeviceInfo('ipadLandscape');
+ *   render(<Settings />);
+ *   expect(screen.queryByText('Haptics')).toBeNull();
+ * });
+ * ```
+ */
+export function mockDeviceInfo(
+  values: TestDevicePreset | TestDeviceValues = DEFAULT_TEST_DEVICE_PRESET,
+  overrides: Partial<TestDeviceValues> = {}
+): TestDeviceInfo {
+  const device = getMockDeviceInfo();
+  device.setValues(values, overrides);
+  return device;
+}
+
+/**
+ * Put the installed device back on {@link DEFAULT_TEST_DEVICE_PRESET}. The
+ * jest setup calls this after every test.
+ */
+export function resetMockDeviceInfo(): void {
+  mockDeviceInfo(DEFAULT_TEST_DEVICE_PRESET);
+}
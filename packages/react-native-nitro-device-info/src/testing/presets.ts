@@ -0,0 +1,347 @@
+/**
+ * Scenario presets for the test device
+ *
+ * Complete value sets for common device profiles. Platform-only fields carry
+ * the same placeholders the native side reports on the other platform
+ * (`'unknown'`, `-1`, `[]`), so code paths that check for them are exercised.
+ *
+ * @module react-native-nitro-device-info/testing
+ */
+
+import type { TestDeviceValues } from './TestDeviceInfo';
+
+/** Android `Build.*` fields, placeholders on iOS */
+const IOS_ANDROID_BUILD = {
+  apiLevel: -1,
+  navigationMode: 'unknown',
+  getHasGms: false,
+  getHasHms: false,
+  systemAvailableFeatures: [],
+  supportedMediaTypeList: [],
+  serialNumber: 'unknown',
+  androidId: 'unknown',
+  previewSdkInt: 0,
+  securityPatch: 'unknown',
+  codename: 'unknown',
+  incremental: 'unknown',
+  board: 'unknown',
+  bootloader: 'unknown',
+  device: 'unknown',
+  display: 'unknown',
+  fingerprint: 'unknown',
+  hardware: 'unknown',
+  host: 'unknown',
+  product: 'unknown',
+  tags: 'unknown',
+  type: 'unknown',
+  baseOs: '',
+  radioVersion: 'unknown',
+  buildId: 'unknown',
+  isSideLoadingEnabled: false,
+} as const satisfies Partial<TestDeviceValues>;
+
+/** Windows-only fields, identical everywhere else */
+const NOT_WINDOWS = {
+  isMouseConnected: false,
+  isKeyboardConnected: false,
+  hostNames: [],
+  isTabletMode: false,
+} as const satisfies Partial<TestDeviceValues>;
+
+/** Shared app metadata so presets only differ in device traits */
+const APP = {
+  version: '1.0.0',
+  buildNumber: '1',
+  bundleId: 'com.example.app',
+  applicationName: 'Example',
+  readableVersion: '1.0.0.1',
+  firstInstallTimeSync: 1704067200000,
+  lastUpdateTimeSync: 1706745600000,
+  installReferrer: 'unknown',
+} as const satisfies Partial<TestDeviceValues>;
+
+const iphone15Pro: TestDeviceValues = {
+  ...IOS_ANDROID_BUILD,
+  ...NOT_WINDOWS,
+  ...APP,
+  deviceId: 'iPhone16,1',
+  brand: 'Apple',
+  model: 'iPhone 15 Pro',
+  systemName: 'iOS',
+  systemVersion: '17.5',
+  deviceType: 'Handset',
+  uniqueId: '8B1B1B4E-6C2A-4E0B-9C41-2E2F0A7D6C15',
+  manufacturer: 'Apple',
+  deviceName: 'iPhone',
+  isTablet: false,
+  isEmulator: false,
+  deviceYearClass: 2023,
+  isCameraPresent: true,
+  isPinOrFingerprintSet: true,
+  isHardwareKeyStoreAvailable: true,
+  isLowRamDevice: false,
+  getHasNotch: false,
+  getHasDynamicIsland: true,
+  isDisplayZoomed: false,
+  getIsLandscape: false,
+  getBrightness: 0.6,
+  getFontScale: 1,
+  isLiquidGlassAvailable: false,
+  totalMemory: 8589934592,
+  getUsedMemory: 268435456,
+  maxMemory: -1,
+  totalDiskCapacity: 255999998976,
+  totalDiskCapacityOld: 255999998976,
+  getFreeDiskStorage: 107374182400,
+  getFreeDiskStorageOld: 107374182400,
+  getUptime: 86400000,
+  startupTime: 1706745600000,
+  getPowerState: {
+    batteryLevel: 0.8,
+    batteryState: 'unplugged',
+    lowPowerMode: false,
+  },
+  installerPackageName: 'AppStore',
+  getIpAddressSync: '192.168.1.20',
+  getMacAddressSync: '02:00:00:00:00:00',
+  userAgent:
+    'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+  getIsAirplaneMode: false,
+  getCarrierSync: 'unknown',
+  carrierAllowsVOIP: true,
+  carrierIsoCountryCode: 'unknown',
+  mobileCountryCode: 'unknown',
+  mobileNetworkCode: 'unknown',
+  mobileNetworkOperator: 'unknown',
+  getIsWiredHeadphonesConnected: false,
+  getIsBluetoothHeadphonesConnected: false,
+  getIsLocationEnabled: true,
+  getAvailableLocationProviders: [],
+  systemLanguage: 'en-US',
+  supportedAbis: ['arm64'],
+  supported32BitAbis: [],
+  supported64BitAbis: ['arm64'],
+  isDeviceCompromised: false,
+  deviceToken: 'test-device-token',
+};
+
+const ipadLandscape: TestDeviceValues = {
+  ...iphone15Pro,
+  deviceId: 'iPad14,3',
+  model: 'iPad Pro (11-inch) (4th generation)',
+  deviceType: 'Tablet',
+  deviceName: 'iPad',
+  isTablet: true,
+  deviceYearClass: 2022,
+  getHasDynamicIsland: false,
+  getIsLandscape: true,
+  userAgent:
+    'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148',
+};
+
+const pixel8: TestDeviceValues = {
+  ...NOT_WINDOWS,
+  ...APP,
+  deviceId: 'shiba',
+  brand: 'google',
+  model: 'Pixel 8',
+  systemName: 'Android',
+  systemVersion: '14',
+  deviceType: 'Handset',
+  uniqueId: '3f2a9c1d7e6b4a58',
+  manufacturer: 'Google',
+  deviceName: 'Pixel 8',
+  isTablet: false,
+  isEmulator: false,
+  deviceYearClass: 2023,
+  isCameraPresent: true,
+  isPinOrFingerprintSet: true,
+  isHardwareKeyStoreAvailable: true,
+  isLowRamDevice: false,
+  getHasNotch: true,
+  getHasDynamicIsland: false,
+  isDisplayZoomed: false,
+  getIsLandscape: false,
+  // Not readable on Android
+  getBrightness: -1,
+  getFontScale: 1,
+  isLiquidGlassAvailable: false,
+  totalMemory: 8589934592,
+  getUsedMemory: 201326592,
+  maxMemory: 536870912,
+  totalDiskCapacity: 127999998976,
+  totalDiskCapacityOld: 127999998976,
+  getFreeDiskStorage: 64424509440,
+  getFreeDiskStorageOld: 64424509440,
+  getUptime: 172800000,
+  startupTime: 1706745600000,
+  getPowerState: {
+    batteryLevel: 0.65,
+    batteryState: 'unplugged',
+    lowPowerMode: false,
+  },
+  installerPackageName: 'com.android.vending',
+  getIpAddressSync: '192.168.1.21',
+  getMacAddressSync: '02:00:00:00:00:00',
+  userAgent:
+    'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/AP2A.240805.005; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/127.0.6533.103 Mobile Safari/537.36',
+  getIsAirplaneMode: false,
+  getCarrierSync: 'T-Mobile',
+  carrierAllowsVOIP: true,
+  carrierIsoCountryCode: 'us',
+  mobileCountryCode: '310',
+  mobileNetworkCode: '260',
+  mobileNetworkOperator: '310260',
+  getIsWiredHeadphonesConnected: false,
+  getIsBluetoothHeadphonesConnected: false,
+  getIsLocationEnabled: true,
+  getAvailableLocationProviders: ['gps', 'network', 'passive'],
+  systemLanguage: 'en-US',
+  supportedAbis: ['arm64-v8a'],
+  supported32BitAbis: [],
+  supported64BitAbis: ['arm64-v8a'],
+  isDeviceCompromised: false,
+  apiLevel: 34,
+  navigationMode: 'gesture',
+  getHasGms: true,
+  getHasHms: false,
+  systemAvailableFeatures: [
+    'android.hardware.camera',
+    'android.hardware.fingerprint',
+    'android.hardware.nfc',
+    'android.hardware.telephony',
+  ],
+  supportedMediaTypeList: ['video/avc', 'video/hevc', 'audio/mp4a-latm'],
+  serialNumber: 'unknown',
+  androidId: '3f2a9c1d7e6b4a58',
+  previewSdkInt: 0,
+  securityPatch: '2024-08-05',
+  codename: 'REL',
+  incremental: '12170678',
+  board: 'shiba',
+  bootloader: 'ripcurrent-14.5-11790585',
+  device: 'shiba',
+  display: 'AP2A.240805.005',
+  fingerprint:
+    'google/shiba/shiba:14/AP2A.240805.005/12170678:user/release-keys',
+  hardware: 'shiba',
+  host: 'r-3b4d0c2f8e1a-abcde',
+  product: 'shiba',
+  tags: 'release-keys',
+  type: 'user',
+  baseOs: '',
+  radioVersion: 'g5300q-240308-240517-B-11867218',
+  buildId: 'AP2A.240805.005',
+  isSideLoadingEnabled: false,
+  // DeviceCheck is iOS-only; Android rejects
+  deviceToken: null,
+};
+
+const lowEndAndroidGo: TestDeviceValues = {
+  ...pixel8,
+  deviceId: 'Nokia_1.4',
+  brand: 'Nokia',
+  model: 'Nokia 1.4',
+  systemVersion: '11',
+  uniqueId: '9a7c5e3b1d2f4a6c',
+  manufacturer: 'HMD Global',
+  deviceName: 'Nokia 1.4',
+  deviceYearClass: 2013,
+  isPinOrFingerprintSet: false,
+  isLowRamDevice: true,
+  getHasNotch: false,
+  totalMemory: 1073741824,
+  getUsedMemory: 104857600,
+  maxMemory: 134217728,
+  totalDiskCapacity: 15999998976,
+  totalDiskCapacityOld: 15999998976,
+  getFreeDiskStorage: 1073741824,
+  getFreeDiskStorageOld: 1073741824,
+  getPowerState: {
+    batteryLevel: 0.15,
+    batteryState: 'unplugged',
+    lowPowerMode: true,
+  },
+  userAgent:
+    'Mozilla/5.0 (Linux; Android 11; Nokia 1.4; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.230 Mobile Safari/537.36',
+  supportedAbis: ['armeabi-v7a', 'armeabi'],
+  supported32BitAbis: ['armeabi-v7a', 'armeabi'],
+  supported64BitAbis: [],
+  apiLevel: 30,
+  navigationMode: 'buttons',
+  systemAvailableFeatures: [
+    'android.hardware.camera',
+    'android.hardware.ram.low',
+    'android.hardware.telephony',
+  ],
+  securityPatch: '2023-01-01',
+  incremental: '00WW_3_390',
+  board: 'msm8917',
+  device: 'DRD_sprout',
+  display: '00WW_3_390',
+  fingerprint:
+    'Nokia/Drogon_00WW/DRD_sprout:11/RKQ1.210303.002/00WW_3_390:user/release-keys',
+  hardware: 'qcom',
+  product: 'Drogon_00WW',
+  buildId: 'RKQ1.210303.002',
+};
+
+const emulator: TestDeviceValues = {
+  ...pixel8,
+  deviceId: 'emu64a',
+  brand: 'google',
+  model: 'sdk_gphone64_arm64',
+  uniqueId: 'a1b2c3d4e5f60718',
+  deviceName: 'sdk_gphone64_arm64',
+  isEmulator: true,
+  isPinOrFingerprintSet: false,
+  getHasNotch: false,
+  getPowerState: {
+    batteryLevel: 1,
+    batteryState: 'charging',
+    lowPowerMode: false,
+  },
+  installerPackageName: 'unknown',
+  getIpAddressSync: '10.0.2.16',
+  getCarrierSync: 'T-Mobile',
+  mobileNetworkOperator: '310260',
+  getHasGms: true,
+  serialNumber: 'EMULATOR34X1X1X0',
+  androidId: 'a1b2c3d4e5f60718',
+  board: 'goldfish_arm64',
+  bootloader: 'unknown',
+  device: 'emu64a',
+  display: 'sdk_gphone64_arm64-userdebug 14 UE1A.230829.036 11228894 dev-keys',
+  fingerprint:
+    'google/sdk_gphone64_arm64/emu64a:14/UE1A.230829.036/11228894:userdebug/dev-keys',
+  hardware: 'ranchu',
+  host: 'abfarm-release-2004',
+  product: 'sdk_gphone64_arm64',
+  tags: 'dev-keys',
+  type: 'userdebug',
+  radioVersion: '1.0.0.0',
+  buildId: 'UE1A.230829.036',
+  isSideLoadingEnabled: true,
+};
+
+/**
+ * Built-in device profiles for {@link createTestDeviceInfo}
+ *
+ * - `iphone15Pro`: current iPhone with a Dynamic Island
+ * - `pixel8`: current Android phone with Google Play services
+ * - `lowEndAndroidGo`: 1 GB Android Go phone, low battery, 32-bit ABIs
+ * - `ipadLandscape`: iPad held in landscape
+ * - `emulator`: Android emulator on a charger
+ */
+export const TEST_DEVICE_PRESETS = {
+  iphone15Pro,
+  pixel8,
+  lowEndAndroidGo,
+  ipadLandscape,
+  emulator,
+} as const satisfies Record<string, TestDeviceValues>;
+
+/**
+ * Name of a built-in preset
+ */
+export type TestDevicePreset = keyof typeof TEST_DEVICE_PRESETS;
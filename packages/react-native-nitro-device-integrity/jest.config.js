@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: '@react-native/jest-preset',
+  rootDir: '.',
+  roots: ['<rootDir>/src'],
+  // Both jest entries, the way an app that uses both packages loads them
+  setupFilesAfterEnv: [
+    '<rootDir>/../react-native-nitro-device-info/src/testing/jest.ts',
+    '<rootDir>/src/testing/jest.ts',
+  ],
+  testMatch: ['**/__tests__/**/*.test.{ts,tsx}'],
+  modulePathIgnorePatterns: ['<rootDir>/lib/'],
+};
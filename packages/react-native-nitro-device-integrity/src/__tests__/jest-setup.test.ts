@@ -0,0 +1,88 @@
+/**
+ * Jest setup entry tests.
+ *
+ * `jest.config.js` loads the device-info and integrity `jest` entries
+ * together, as an app using both packages would. Test order matters: the
+ * reset test relies on the override made by the test before it.
+ */
+
+import { NitroModules, type HybridObject } from 'react-native-nitro-modules';
+import { DeviceIntegrityModule } from '../index';
+import {
+  DEFAULT_TEST_PROVIDER_TYPE,
+  getMockDeviceIntegrity,
+  mockDeviceIntegrity,
+} from '../testing';
+
+// The part of react-native-nitro-device-info's HybridObject read here
+interface DeviceInfo extends HybridObject<{ ios: 'swift'; android: 'kotlin' }> {
+  readonly systemName: string;
+}
+
+describe('jest setup', () => {
+  it('installs the default test device', async () => {
+    expect(DeviceIntegrityModule).toBe(getMockDeviceIntegrity());
+    expect(DeviceIntegrityModule.providerType).toBe(DEFAULT_TEST_PROVIDER_TYPE);
+    expect(DeviceIntegrityModule.isSupported).toBe(true);
+
+    const keyId = await DeviceIntegrityModule.generateKey();
+    await expect(
+      DeviceIntegrityModule.generateAssertion(keyId, 'hash')
+    ).rejects.toThrow(`INVALID_KEY: Key ${keyId} is not attested`);
+    await expect(DeviceIntegrityModule.attestKey(keyId, 'hash')).resolves.toBe(
+      `test-attestation:${keyId}:hash`
+    );
+    await expect(
+      DeviceIntegrityModule.generateAssertion(keyId, 'hash')
+    ).resolves.toBe(`test-assertion:${keyId}:hash`);
+  });
+
+  it('keeps the device-info double next to it', () => {
+    const deviceInfo =
+      NitroModules.createHybridObject<DeviceInfo>('DeviceInfo');
+
+    expect(deviceInfo.systemName).toBe('iOS');
+  });
+
+  it('switches the installed device per test', async () => {
+    const device = mockDeviceIntegrity('playIntegrity', {
+      errors: { requestClassicIntegrityToken: 'NETWORK_ERROR' },
+    });
+
+    expect(device).toBe(DeviceIntegrityModule);
+    expect(DeviceIntegrityModule.providerType).toBe('playIntegrity');
+    await expect(DeviceIntegrityModule.generateKey()).rejects.toThrow(
+      'UNSUPPORTED_PLATFORM'
+    );
+    await expect(
+      DeviceIntegrityModule.requestIntegrityToken('hash')
+    ).rejects.toThrow('PROVIDER_NOT_PREPARED');
+    await expect(
+      DeviceIntegrityModule.requestClassicIntegrityToken('nonce', '123456789')
+    ).rejects.toThrow('NETWORK_ERROR');
+
+    await DeviceIntegrityModule.prepareStandardProvider('123456789');
+    await expect(
+      DeviceIntegrityModule.requestIntegrityToken('hash')
+    ).resolves.toBe('test-integrity-token:hash');
+
+    device.failWith('requestIntegrityToken', 'TOO_MANY_REQUESTS');
+    await expect(
+      DeviceIntegrityModule.requestIntegrityToken('hash')
+    ).rejects.toThrow('TOO_MANY_REQUESTS: requestIntegrityToken failed');
+  });
+
+  it('resets the device after each test', async () => {
+    const device = getMockDeviceIntegrity();
+
+    expect(device.providerType).toBe(DEFAULT_TEST_PROVIDER_TYPE);
+    expect(device.calls).toEqual([]);
+    await expect(device.generateKey()).resolves.toBe('test-key-1');
+  });
+
+  it('reports HybridObjects without a registered double', () => {
+    expect(() => NitroModules.createHybridObject('Unknown')).toThrow(
+      'No test double for the "Unknown" HybridObject'
+    );
+  });
+});
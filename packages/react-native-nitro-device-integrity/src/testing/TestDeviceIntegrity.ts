@@ -0,0 +1,240 @@
+/**
+ * In-memory `DeviceIntegrity` implementation for tests
+ *
+ * Resolves deterministic fake tokens and rejects with the same `CODE: message`
+ * errors the native modules use: platform methods reject with
+ * `UNSUPPORTED_PLATFORM` when the provider does not match, Play Integrity
+ * tokens need a prepared provider, and App Attest assertions need an attested
+ * key. The fake tokens are not verifiable; assert on them, never decode them.
+ *
+ * @module react-native-nitro-device-integrity/testing
+ */
+
+import type {
+  DeviceIntegrity,
+  IntegrityProviderType,
+} from '../DeviceIntegrity.nitro';
+
+/** Token-issuing methods of the spec */
+export type IntegrityMethod =
+  | 'prepareStandardProvider'
+  | 'requestIntegrityToken'
+  | 'requestClassicIntegrityToken'
+  | 'generateKey'
+  | 'attestKey'
+  | 'generateAssertion'
+  | 'getDeviceCheckToken';
+
+/**
+ * How a test device behaves beyond its provider.
+ */
+export interface TestDeviceIntegrityOptions {
+  /** Defaults to `providerType !== 'unsupported'` */
+  isSupported?: boolean;
+  /**
+   * Error codes to reject methods with, e.g.
+   * `{ requestIntegrityToken: 'NETWORK_ERROR' }`
+   */
+  errors?: Partial<Record<IntegrityMethod, string>>;
+}
+
+/** A recorded method call */
+export interface IntegrityCall {
+  method: IntegrityMethod;
+  args: string[];
+}
+
+/**
+ * `DeviceIntegrity` plus the controls tests use to change it.
+ */
+export interface TestDeviceIntegrity extends DeviceIntegrity {
+  /** Method calls made since the last {@link TestDeviceIntegrity.configure} */
+  readonly calls: readonly IntegrityCall[];
+  /**
+   * Switch provider and options, forgetting prepared providers, keys and
+   * recorded calls.
+   */
+  configure(
+    providerType: IntegrityProviderType,
+    options?: TestDeviceIntegrityOptions
+  ): void;
+  /** Reject every later call to `method` with `CODE: message` */
+  failWith(method: IntegrityMethod, code: string, message?: string): void;
+}
+
+/** Provider each method needs, matching the native platform checks */
+const METHOD_PROVIDERS: Record<
+  IntegrityMethod,
+  Exclude<IntegrityProviderType, 'unsupported'>
+> = {
+  prepareStandardProvider: 'playIntegrity',
+  requestIntegrityToken: 'playIntegrity',
+  requestClassicIntegrityToken: 'playIntegrity',
+  generateKey: 'appAttest',
+  attestKey: 'appAttest',
+  generateAssertion: 'appAttest',
+  getDeviceCheckToken: 'appAttest',
+};
+
+function integrityError(code: string, message: string): Error {
+  return new Error(`${code}: ${message}`);
+}
+
+function checkCloudProjectNumber(value: string): void {
+  if (!/^[1-9]\d*$/.test(value)) {
+    throw integrityError(
+      'CLOUD_PROJECT_NUMBER_IS_INVALID',
+      `cloudProjectNumber must be a positive integer string, got: ${value}`
+    );
+  }
+}
+
+/**
+ * Create an in-memory `DeviceIntegrity` for tests.
+ *
+ * @param providerType Provider the device reports
+ * @param options Support flag and forced errors
+ * @returns A fresh device; instances share no state
+ *
+ * @example
+ * ```typescript
+ * import { createTestDeviceIntegrity } from 'react-native-nitro-device-integrity/testing'
+ *
+ * const integrity = createTestDeviceIntegrity('playIntegrity')
+ *
+ * await integrity.prepareStandardProvider('123456789')
+ * await integrity.requestIntegrityToken('aGFzaA==') // 'test-integrity-token:aGFzaA=='
+ *
+ * integrity.failWith('requestIntegrityToken', 'NETWORK_ERROR')
+ * ```
+ */
+export function createTestDeviceIntegrity(
+  providerType: IntegrityProviderType = 'appAttest',
+  options: TestDeviceIntegrityOptions = {}
+): TestDeviceIntegrity {
+  let provider = providerType;
+  let supported = false;
+  let errors = new Map<IntegrityMethod, Error>();
+  let preparedCloudProjectNumber: string | undefined;
+  let keys = new Map<string, { attested: boolean }>();
+  let nextKeyId = 0;
+  const calls: IntegrityCall[] = [];
+
+  const configure = (
+    type: IntegrityProviderType,
+    next: TestDeviceIntegrityOptions = {}
+  ) => {
+    provider = type;
+    supported = next.isSupported ?? type !== 'unsupported';
+    errors = new Map(
+      (Object.keys(next.errors ?? {}) as IntegrityMethod[]).map(method => [
+        method,
+        integrityError(next.errors?.[method] ?? '', `${method} failed`),
+      ])
+    );
+    preparedCloudProjectNumber = undefined;
+    keys = new Map();
+    nextKeyId = 0;
+    calls.length = 0;
+  };
+  configure(providerType, options);
+
+  // Record the call, apply forced errors and the platform check, then run
+  // `body`; throwing inside the Promise executor becomes a rejection
+  const call = <T>(
+    method: IntegrityMethod,
+    args: string[],
+    body: () => T
+  ): Promise<T> =>
+    new Promise<T>(resolve => {
+      calls.push({ method, args });
+      const forced = errors.get(method);
+      if (forced !== undefined) {
+        throw forced;
+      }
+      if (provider !== METHOD_PROVIDERS[method]) {
+        throw integrityError(
+          'UNSUPPORTED_PLATFORM',
+          `${method} is not available with the ${provider} provider`
+        );
+      }
+      resolve(body());
+    });
+
+  const findKey = (keyId: string) => {
+    const key = keys.get(keyId);
+    if (key === undefined) {
+      throw integrityError('INVALID_KEY', `Unknown keyId: ${keyId}`);
+    }
+    return key;
+  };
+
+  const device: TestDeviceIntegrity = {
+    // ---- HybridObject base members ----
+    name: 'DeviceIntegrity',
+    toString: () => '[HybridObject DeviceIntegrity]',
+    equals: (other: unknown) => other === device,
+    dispose: () => {},
+
+    get isSupported() {
+      return supported;
+    },
+    get providerType() {
+      return provider;
+    },
+    get calls() {
+      return calls.slice();
+    },
+    configure,
+    failWith: (method, code, message = `${method} failed`) => {
+      errors.set(method, integrityError(code, message));
+    },
+
+    // ---- Play Integrity ----
+    prepareStandardProvider: cloudProjectNumber =>
+      call('prepareStandardProvider', [cloudProjectNumber], () => {
+        checkCloudProjectNumber(cloudProjectNumber);
+        preparedCloudProjectNumber = cloudProjectNumber;
+      }),
+    requestIntegrityToken: requestHash =>
+      call('requestIntegrityToken', [requestHash], () => {
+        if (preparedCloudProjectNumber === undefined) {
+          throw integrityError(
+            'PROVIDER_NOT_PREPARED',
+            'Call prepareStandardProvider() before requestIntegrityToken().'
+          );
+        }
+        return `test-integrity-token:${requestHash}`;
+      }),
+    requestClassicIntegrityToken: (nonce, cloudProjectNumber) =>
+      call('requestClassicIntegrityToken', [nonce, cloudProjectNumber], () => {
+        checkCloudProjectNumber(cloudProjectNumber);
+        return `test-classic-integrity-token:${nonce}`;
+      }),
+
+    // ---- App Attest ----
+    generateKey: () =>
+      call('generateKey', [], () => {
+        const keyId = `test-key-${++nextKeyId}`;
+        keys.set(keyId, { attested: false });
+        return keyId;
+      }),
+    attestKey: (keyId, clientDataHash) =>
+      call('attestKey', [keyId, clientDataHash], () => {
+        findKey(keyId).attested = true;
+        return `test-attestation:${keyId}:${clientDataHash}`;
+      }),
+    generateAssertion: (keyId, clientDataHash) =>
+      call('generateAssertion', [keyId, clientDataHash], () => {
+        if (!findKey(keyId).attested) {
+          throw integrityError('INVALID_KEY', `Key ${keyId} is not attested`);
+        }
+        return `test-assertion:${keyId}:${clientDataHash}`;
+      }),
+
+    // ---- DeviceCheck ----
+    getDeviceCheckToken: () =>
+      call('getDeviceCheckToken', [], () => 'test-device-check-token'),
+  };
+  return device;
+}
@@ -0,0 +1,38 @@
+/**
+ * Test doubles for `react-native-nitro-device-integrity`
+ *
+ * An in-memory `DeviceIntegrity` that issues deterministic fake tokens and
+ * records its calls. With the `react-native-nitro-device-integrity/jest`
+ * setup, `DeviceIntegrityModule` is the installed device and
+ * `mockDeviceIntegrity()` reconfigures it per test:
+ *
+ * @example
+ * ```typescript
+ * import { mockDeviceIntegrity } from 'react-native-nitro-device-integrity/testing'
+ *
+ * it('attests the key once', async () => {
+ *   const integrity = mockDeviceIntegrity('appAttest')
+ *   await signIn()
+ *   expect(integrity.calls.map(call => call.method)).toEqual([
+ *     'generateKey',
+ *     'attestKey',
+ *   ])
+ * })
+ * ```
+ *
+ * @module react-native-nitro-device-integrity/testing
+ */
+
+export { createTestDeviceIntegrity } from './TestDeviceIntegrity';
+export type {
+  IntegrityCall,
+  IntegrityMethod,
+  TestDeviceIntegrity,
+  TestDeviceIntegrityOptions,
+} from './TestDeviceIntegrity';
+export {
+  DEFAULT_TEST_PROVIDER_TYPE,
+  getMockDeviceIntegrity,
+  mockDeviceIntegrity,
+  resetMockDeviceIntegrity,
+} from './mock';
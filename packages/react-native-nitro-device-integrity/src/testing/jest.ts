@@ -0,0 +1,58 @@
+/**
+ * Jest setup for `react-native-nitro-device-integrity`
+ *
+ * Add to `setupFilesAfterEnv`. `DeviceIntegrityModule` is created when the
+ * package is imported, which crashes without a native runtime; with this
+ * setup `NitroModules.createHybridObject('DeviceIntegrity')` returns the test
+ * device from `getMockDeviceIntegrity()` instead, and the device is reset
+ * after every test.
+ *
+ * Can be loaded next to `react-native-nitro-device-info/jest`: both setups
+ * register their doubles in the same registry.
+ *
+ * @example
+ * ```javascript
+ * // jest.config.js
+ * module.exports = {
+ *   preset: 'react-native',
+ *   setupFilesAfterEnv: [
+ *     'react-native-nitro-device-info/jest',
+ *     'react-native-nitro-device-integrity/jest',
+ *   ],
+ *   transformIgnorePatterns: [
+ *     'node_modules/(?!((jest-)?react-native|@react-native(-community)?|react-native-nitro-device-(info|integrity))/)',
+ *   ],
+ * }
+ * ```
+ *
+ * @module react-native-nitro-device-integrity/jest
+ */
+
+import { getMockDeviceIntegrity, resetMockDeviceIntegrity } from './mock';
+
+jest.mock('react-native-nitro-modules', () => {
+  const doubles = () =>
+    ((
+      globalThis as { __NITRO_TEST_DOUBLES__?: Record<string, object> }
+    ).__NITRO_TEST_DOUBLES__ ??= {});
+  return {
+    NitroModules: {
+      createHybridObject: (name: string) => {
+        const double = doubles()[name];
+        if (double === undefined) {
+          throw new Error(
+            `No test double for the "${name}" HybridObject. Load its package's jest setup or register one on globalThis.__NITRO_TEST_DOUBLES__.`
+          );
+        }
+        return double;
+      },
+      hasHybridObject: (name: string) => name in doubles(),
+    },
+  };
+});
+
+getMockDeviceIntegrity();
+
+afterEach(() => {
+  resetMockDeviceIntegrity();
+});
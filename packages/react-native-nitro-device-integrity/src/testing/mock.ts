@@ -0,0 +1,79 @@
+/**
+ * The test device installed by the jest setup
+ *
+ * `react-native-nitro-device-integrity/jest` makes
+ * `NitroModules.createHybridObject` return test doubles from a registry on
+ * `globalThis`, shared with `react-native-nitro-device-info/jest`. The eagerly
+ * created `DeviceIntegrityModule` is this device, so tests reconfigure it in
+ * place instead of replacing it.
+ *
+ * @module react-native-nitro-device-integrity/testing
+ */
+
+import {
+  createTestDeviceIntegrity,
+  type TestDeviceIntegrity,
+  type TestDeviceIntegrityOptions,
+} from './TestDeviceIntegrity';
+import type { IntegrityProviderType } from '../DeviceIntegrity.nitro';
+
+/**
+ * Provider the installed device starts with and is reset to
+ */
+export const DEFAULT_TEST_PROVIDER_TYPE: IntegrityProviderType = 'appAttest';
+
+function nitroTestDoubles(): Record<string, object> {
+  const scope = globalThis as {
+    __NITRO_TEST_DOUBLES__?: Record<string, object>;
+  };
+  return (scope.__NITRO_TEST_DOUBLES__ ??= {});
+}
+
+/**
+ * The device `DeviceIntegrityModule` is under the jest setup.
+ *
+ * @returns The installed test device, created on first use
+ */
+export function getMockDeviceIntegrity(): TestDeviceIntegrity {
+  const doubles = nitroTestDoubles();
+  return (doubles.DeviceIntegrity ??= createTestDeviceIntegrity(
+    DEFAULT_TEST_PROVIDER_TYPE
+  )) as TestDeviceIntegrity;
+}
+
+/**
+ * Reconfigure the installed device for the current test.
+ *
+ * @param providerType Provider the device reports
+ * @param options Support flag and forced errors
+ * @returns The installed device, for inspecting calls
+ *
+ * @example
+ * ```typescript
+ * import { mockDeviceIntegrity } from 'react-native-nitro-device-integrity/testing'
+ *
+ * it('falls back when Play Integrity is offline', async () => {
+ *   mockDeviceIntegrity('playIntegrity', {
+ *     errors: { requestIntegrityToken: 'NETWORK_ERROR' },
+ *   })
+ *   await expect(attestRequest()).resolves.toEqual({ attested: false })
+ * })
+ * ```
+ */
+export function mockDeviceIntegrity(
+  providerType: IntegrityProviderType = DEFAULT_TEST_PROVIDER_TYPE,
+  options: TestDeviceIntegrityOptions = {}
+): TestDeviceIntegrity {
+  const device = getMockDeviceIntegrity();
+  device.configure(providerType, options);
+  return device;
+}
+
+/**
+ * Put the installed device back on {@link DEFAULT_TEST_PROVIDER_TYPE} with no
+ * prepared provider, keys or recorded calls. The jest setup calls this after
+ * every test.
+ */
+export function resetMockDeviceIntegrity(): void {
+  mockDeviceIntegrity(DEFAULT_TEST_PROVIDER_TYPE);
+}